@@ -0,0 +1,56 @@
+import { type NextRequest } from "next/server";
+import { DeleteOAuthClientUseCase } from "@/application/use-cases/delete-oauth-client.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type OAuthClientParams = { clientId: string };
+
+async function deleteOAuthClientHandler(
+  request: NextRequest,
+  authContext: AuthContext<OAuthClientParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { clientId } = await authContext.params!;
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const deleteOAuthClientUseCase = new DeleteOAuthClientUseCase(
+      oauthClientRepository,
+      authEventRepository
+    );
+
+    const result = await deleteOAuthClientUseCase.execute(
+      { adminUserId: authContext.userId, clientId },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withRecentAuth(
+    15 * 60,
+    STRONG_AUTH_METHODS,
+    "admin"
+  )(deleteOAuthClientHandler)
+);
@@ -0,0 +1,101 @@
+import { type NextRequest } from "next/server";
+import { CreateOAuthClientUseCase } from "@/application/use-cases/create-oauth-client.use-case";
+import { ListOAuthClientsUseCase } from "@/application/use-cases/list-oauth-clients.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withAuth,
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { CreateOAuthClientSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function listOAuthClientsHandler(
+  request: NextRequest
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+
+    const listOAuthClientsUseCase = new ListOAuthClientsUseCase(
+      oauthClientRepository
+    );
+
+    const result = await listOAuthClientsUseCase.execute();
+
+    return successResponse({ clients: result.clients }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function createOAuthClientHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = CreateOAuthClientSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid client registration", fields);
+    }
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const createOAuthClientUseCase = new CreateOAuthClientUseCase(
+      oauthClientRepository,
+      authEventRepository
+    );
+
+    const result = await createOAuthClientUseCase.execute(
+      { adminUserId: authContext.userId, ...validationResult.data },
+      context
+    );
+
+    return successResponse(
+      {
+        client: result.client,
+        ...(result.clientSecret && { clientSecret: result.clientSecret }),
+      },
+      201
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withAuth("admin")(listOAuthClientsHandler));
+export const POST = withCors(
+  withRecentAuth(
+    15 * 60,
+    STRONG_AUTH_METHODS,
+    "admin"
+  )(createOAuthClientHandler)
+);
@@ -0,0 +1,110 @@
+import { type NextRequest } from "next/server";
+import { UpdateRoleUseCase } from "@/application/use-cases/update-role.use-case";
+import { DeleteRoleUseCase } from "@/application/use-cases/delete-role.use-case";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { UpdateRoleSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+type RoleParams = { name: string };
+
+async function updateRoleHandler(
+  request: NextRequest,
+  authContext: AuthContext<RoleParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { name } = await authContext.params!;
+    const body = await request.json();
+
+    const validationResult = UpdateRoleSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid role update", fields);
+    }
+
+    const roleRepository = new RoleRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const updateRoleUseCase = new UpdateRoleUseCase(
+      roleRepository,
+      authEventRepository
+    );
+
+    const result = await updateRoleUseCase.execute(
+      { adminUserId: authContext.userId, name, ...validationResult.data },
+      context
+    );
+
+    return successResponse({ role: result.role }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function deleteRoleHandler(
+  request: NextRequest,
+  authContext: AuthContext<RoleParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { name } = await authContext.params!;
+
+    const roleRepository = new RoleRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const deleteRoleUseCase = new DeleteRoleUseCase(
+      roleRepository,
+      userRepository,
+      authEventRepository
+    );
+
+    const result = await deleteRoleUseCase.execute(
+      { adminUserId: authContext.userId, name },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, usersUpdated: result.usersUpdated },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const PATCH = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(updateRoleHandler)
+);
+export const DELETE = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(deleteRoleHandler)
+);
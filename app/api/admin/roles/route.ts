@@ -0,0 +1,88 @@
+import { type NextRequest } from "next/server";
+import { CreateRoleUseCase } from "@/application/use-cases/create-role.use-case";
+import { ListRolesUseCase } from "@/application/use-cases/list-roles.use-case";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withAuth,
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { CreateRoleSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function listRolesHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const roleRepository = new RoleRepositoryImpl();
+
+    const listRolesUseCase = new ListRolesUseCase(roleRepository);
+
+    const result = await listRolesUseCase.execute();
+
+    return successResponse({ roles: result.roles }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function createRoleHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = CreateRoleSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid role", fields);
+    }
+
+    const roleRepository = new RoleRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const createRoleUseCase = new CreateRoleUseCase(
+      roleRepository,
+      authEventRepository
+    );
+
+    const result = await createRoleUseCase.execute(
+      { adminUserId: authContext.userId, ...validationResult.data },
+      context
+    );
+
+    return successResponse({ role: result.role }, 201);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withAuth("admin")(listRolesHandler));
+export const POST = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(createRoleHandler)
+);
@@ -0,0 +1,133 @@
+import { type NextRequest } from "next/server";
+import { StartImpersonationUseCase } from "@/application/use-cases/start-impersonation.use-case";
+import { EndImpersonationUseCase } from "@/application/use-cases/end-impersonation.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withAuth,
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+
+type UserParams = { userId: string };
+
+/**
+ * Starts impersonating the user. The access token is only returned in the
+ * body, never set as a cookie, so the admin's own session is untouched.
+ */
+async function startImpersonationHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    if (!authContext.sessionId) {
+      throw new AuthenticationError("A session access token is required");
+    }
+
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+
+    const startImpersonationUseCase = new StartImpersonationUseCase(
+      userRepository,
+      sessionRepository,
+      roleRepository,
+      authEventRepository,
+      tokenService
+    );
+
+    const result = await startImpersonationUseCase.execute(
+      {
+        adminUserId: authContext.userId,
+        adminSessionId: authContext.sessionId,
+        userId,
+      },
+      context
+    );
+
+    return successResponse(
+      {
+        accessToken: result.accessToken,
+        sessionId: result.sessionId,
+        expiresAt: result.expiresAt,
+      },
+      201
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function endImpersonationHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const endImpersonationUseCase = new EndImpersonationUseCase(
+      sessionRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await endImpersonationUseCase.execute(
+      { adminUserId: authContext.userId, userId },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, sessionsEnded: result.sessionsEnded },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(
+    withRecentAuth(
+      5 * 60,
+      STRONG_AUTH_METHODS,
+      "admin"
+    )(startImpersonationHandler)
+  )
+);
+export const DELETE = withCors(
+  withAuth("admin", { personalAccessToken: false })(endImpersonationHandler)
+);
@@ -0,0 +1,71 @@
+import { type NextRequest } from "next/server";
+import { ForcePasswordResetUseCase } from "@/application/use-cases/force-password-reset.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type UserParams = { userId: string };
+
+async function forcePasswordResetHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const emailProvider = new BrevoEmailProvider();
+
+    const forcePasswordResetUseCase = new ForcePasswordResetUseCase(
+      userRepository,
+      sessionRepository,
+      authEventRepository,
+      revocationStore,
+      emailProvider
+    );
+
+    const result = await forcePasswordResetUseCase.execute(
+      { adminUserId: authContext.userId, userId },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(
+    withRecentAuth(
+      15 * 60,
+      STRONG_AUTH_METHODS,
+      "admin"
+    )(forcePasswordResetHandler)
+  )
+);
@@ -0,0 +1,86 @@
+import { type NextRequest } from "next/server";
+import { ChangeUserRoleUseCase } from "@/application/use-cases/change-user-role.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { UpdateUserRoleSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+type UserParams = { userId: string };
+
+async function changeUserRoleHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+    const body = await request.json();
+
+    const validationResult = UpdateUserRoleSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid role update", fields);
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const changeUserRoleUseCase = new ChangeUserRoleUseCase(
+      userRepository,
+      sessionRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await changeUserRoleUseCase.execute(
+      {
+        adminUserId: authContext.userId,
+        userId,
+        role: validationResult.data.role,
+      },
+      context
+    );
+
+    return successResponse(
+      {
+        message: result.message,
+        role: result.role,
+        sessionsRevoked: result.sessionsRevoked,
+      },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const PUT = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(changeUserRoleHandler)
+);
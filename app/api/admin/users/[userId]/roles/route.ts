@@ -0,0 +1,79 @@
+import { type NextRequest } from "next/server";
+import { SetUserRolesUseCase } from "@/application/use-cases/set-user-roles.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { SetUserRolesSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+type UserParams = { userId: string };
+
+async function setUserRolesHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+    const body = await request.json();
+
+    const validationResult = SetUserRolesSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid role assignment", fields);
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const setUserRolesUseCase = new SetUserRolesUseCase(
+      userRepository,
+      roleRepository,
+      authEventRepository
+    );
+
+    const result = await setUserRolesUseCase.execute(
+      {
+        adminUserId: authContext.userId,
+        userId,
+        roles: validationResult.data.roles,
+      },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, roles: result.roles },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const PUT = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(setUserRolesHandler)
+);
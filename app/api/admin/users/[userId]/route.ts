@@ -0,0 +1,104 @@
+import { type NextRequest } from "next/server";
+import { GetUserDetailsUseCase } from "@/application/use-cases/get-user-details.use-case";
+import { DeleteUserUseCase } from "@/application/use-cases/delete-user.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { LinkedIdentityRepositoryImpl } from "@/infrastructure/database/linked-identity.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { PersonalAccessTokenRepositoryImpl } from "@/infrastructure/database/personal-access-token.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withPermission,
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type UserParams = { userId: string };
+
+async function getUserHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const getUserDetailsUseCase = new GetUserDetailsUseCase(
+      userRepository,
+      sessionRepository,
+      authEventRepository
+    );
+
+    const result = await getUserDetailsUseCase.execute({ userId });
+
+    return successResponse(result, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function deleteUserHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const identityRepository = new LinkedIdentityRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const personalAccessTokenRepository =
+      new PersonalAccessTokenRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const deleteUserUseCase = new DeleteUserUseCase(
+      userRepository,
+      sessionRepository,
+      identityRepository,
+      credentialRepository,
+      personalAccessTokenRepository,
+      membershipRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await deleteUserUseCase.execute(
+      { adminUserId: authContext.userId, userId },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withPermission("users:read")(getUserHandler));
+export const DELETE = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(deleteUserHandler)
+);
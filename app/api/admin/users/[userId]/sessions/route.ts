@@ -0,0 +1,65 @@
+import { type NextRequest } from "next/server";
+import { RevokeUserSessionsUseCase } from "@/application/use-cases/revoke-user-sessions.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type UserParams = { userId: string };
+
+async function revokeUserSessionsHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const revokeUserSessionsUseCase = new RevokeUserSessionsUseCase(
+      userRepository,
+      sessionRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await revokeUserSessionsUseCase.execute(
+      { adminUserId: authContext.userId, userId },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, sessionsRevoked: result.sessionsRevoked },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withRecentAuth(
+    15 * 60,
+    STRONG_AUTH_METHODS,
+    "admin"
+  )(revokeUserSessionsHandler)
+);
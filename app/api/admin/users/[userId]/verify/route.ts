@@ -0,0 +1,52 @@
+import { type NextRequest } from "next/server";
+import { ForceVerifyUserUseCase } from "@/application/use-cases/force-verify-user.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type UserParams = { userId: string };
+
+async function forceVerifyUserHandler(
+  request: NextRequest,
+  authContext: AuthContext<UserParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { userId } = await authContext.params!;
+
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const forceVerifyUserUseCase = new ForceVerifyUserUseCase(
+      userRepository,
+      authEventRepository
+    );
+
+    const result = await forceVerifyUserUseCase.execute(
+      { adminUserId: authContext.userId, userId },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS, "admin")(forceVerifyUserHandler)
+);
@@ -0,0 +1,55 @@
+import { type NextRequest } from "next/server";
+import { ListUsersUseCase } from "@/application/use-cases/list-users.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withPermission } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { AdminUserSearchSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function listUsersHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const validationResult = AdminUserSearchSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid user search", fields);
+    }
+
+    const { email, verified, ...filters } = validationResult.data;
+
+    const userRepository = new UserRepositoryImpl();
+
+    const listUsersUseCase = new ListUsersUseCase(userRepository);
+
+    const result = await listUsersUseCase.execute({
+      ...filters,
+      emailPrefix: email,
+      isVerified: verified,
+    });
+
+    return successResponse(result, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withPermission("users:read")(listUsersHandler));
@@ -0,0 +1,106 @@
+import { type NextRequest } from "next/server";
+import { SwitchOrganizationUseCase } from "@/application/use-cases/switch-organization.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { setAccessTokenCookie } from "@/presentation/helpers/cookies";
+import { SwitchOrganizationSchema } from "@/presentation/validation/schemas";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+/**
+ * Switches the session's active organization. Returns a new access token
+ * carrying the `org_id` claim, or sets it as the cookie for browser
+ * clients.
+ */
+async function switchOrganizationHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    if (!authContext.sessionId) {
+      throw new AuthenticationError("A session access token is required");
+    }
+
+    const body = await request.json();
+
+    const validationResult = SwitchOrganizationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid organization", fields);
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+
+    const switchOrganizationUseCase = new SwitchOrganizationUseCase(
+      userRepository,
+      sessionRepository,
+      membershipRepository,
+      roleRepository,
+      authEventRepository,
+      tokenService
+    );
+
+    const result = await switchOrganizationUseCase.execute(
+      {
+        userId: authContext.userId,
+        sessionId: authContext.sessionId,
+        organizationId: validationResult.data.organizationId,
+      },
+      context
+    );
+
+    if (authContext.credentialSource === "authorization_header") {
+      return successResponse(
+        {
+          organizationId: result.organizationId,
+          accessToken: result.accessToken,
+        },
+        200
+      );
+    }
+
+    const response = successResponse(
+      { organizationId: result.organizationId },
+      200
+    );
+
+    setAccessTokenCookie(response, result.accessToken);
+
+    return response;
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const PUT = withCors(
+  withAuth("user", { personalAccessToken: false })(switchOrganizationHandler)
+);
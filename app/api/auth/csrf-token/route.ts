@@ -1,26 +1,55 @@
 import { type NextRequest } from "next/server";
-import crypto from "node:crypto";
 import { withCors } from "@/presentation/middleware/cors";
 import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  nonceCsrfBinding,
+  resolveSessionCsrfBinding,
+} from "@/presentation/middleware/csrf";
 import {
   successResponse,
   errorResponse,
 } from "@/presentation/helpers/response";
 import { buildRequestContext } from "@/presentation/helpers/request-context";
-import { BASE_COOKIE_CONFIG } from "@/presentation/helpers/cookies";
+import {
+  BASE_COOKIE_CONFIG,
+  CSRF_NONCE_COOKIE,
+} from "@/presentation/helpers/cookies";
+import {
+  CSRF_TOKEN_TTL_SECONDS,
+  generateCsrfToken,
+} from "@/infrastructure/crypto/csrf";
+import { generateRandomToken } from "@/infrastructure/crypto/hash";
 
-const CSRF_TOKEN_BYTES = 32;
-const CSRF_COOKIE_NAME = "csrf-token";
+const CSRF_NONCE_BYTES = 32;
 
+/**
+ * Issues a signed CSRF token for the caller's session, or for a pre-auth
+ * nonce cookie when signed out. Signing in clears the nonce, so pre-auth
+ * tokens do not carry over into the session.
+ */
 async function csrfTokenHandler(request: NextRequest): Promise<Response> {
   const context = buildRequestContext(request);
 
   try {
-    const token = crypto.randomBytes(CSRF_TOKEN_BYTES).toString("hex");
+    const sessionBinding = await resolveSessionCsrfBinding(request);
 
-    const response = successResponse({ token }, 200);
+    if (sessionBinding) {
+      return successResponse(generateCsrfToken(sessionBinding), 200);
+    }
+
+    const nonce =
+      request.cookies.get(CSRF_NONCE_COOKIE)?.value ??
+      generateRandomToken(CSRF_NONCE_BYTES);
+
+    const response = successResponse(
+      generateCsrfToken(nonceCsrfBinding(nonce)),
+      200
+    );
 
-    response.cookies.set(CSRF_COOKIE_NAME, token, BASE_COOKIE_CONFIG);
+    response.cookies.set(CSRF_NONCE_COOKIE, nonce, {
+      ...BASE_COOKIE_CONFIG,
+      maxAge: CSRF_TOKEN_TTL_SECONDS,
+    });
 
     return response;
   } catch (error) {
@@ -0,0 +1,48 @@
+import { type NextRequest } from "next/server";
+import { UnlinkIdentityUseCase } from "@/application/use-cases/unlink-identity.use-case";
+import { LinkedIdentityRepositoryImpl } from "@/infrastructure/database/linked-identity.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function unlinkIdentityHandler(
+  request: NextRequest,
+  authContext: AuthContext<{ id: string }>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await authContext.params!;
+
+    const identityRepository = new LinkedIdentityRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const unlinkIdentityUseCase = new UnlinkIdentityUseCase(
+      identityRepository,
+      authEventRepository
+    );
+
+    const result = await unlinkIdentityUseCase.execute(
+      { userId: authContext.userId, identityId: id },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withAuth("user", { personalAccessToken: false, impersonation: false })(
+    unlinkIdentityHandler
+  )
+);
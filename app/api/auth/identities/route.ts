@@ -0,0 +1,38 @@
+import { type NextRequest } from "next/server";
+import { ListLinkedIdentitiesUseCase } from "@/application/use-cases/list-linked-identities.use-case";
+import { LinkedIdentityRepositoryImpl } from "@/infrastructure/database/linked-identity.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function listLinkedIdentitiesHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const identityRepository = new LinkedIdentityRepositoryImpl();
+
+    const listLinkedIdentitiesUseCase = new ListLinkedIdentitiesUseCase(
+      identityRepository
+    );
+
+    const result = await listLinkedIdentitiesUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    return successResponse({ identities: result.identities }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withAuth("user")(listLinkedIdentitiesHandler));
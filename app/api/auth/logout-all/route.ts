@@ -56,4 +56,8 @@ async function logoutAllHandler(
   }
 }
 
-export const POST = withCors(withAuth("user")(logoutAllHandler));
+export const POST = withCors(
+  withAuth("user", { personalAccessToken: false, impersonation: false })(
+    logoutAllHandler
+  )
+);
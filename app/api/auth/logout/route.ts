@@ -3,9 +3,8 @@ import { LogoutUseCase } from "@/application/use-cases/logout.use-case";
 import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
 import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
 import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
-import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
 import { withCors } from "@/presentation/middleware/cors";
-import { withAuth } from "@/presentation/middleware/auth";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
 import {
   errorResponse,
   successResponse,
@@ -16,18 +15,12 @@ import { AuthenticationError } from "@/domain/errors/authentication.error";
 
 async function logoutHandler(
   request: NextRequest,
-  authContext: { userId: string }
+  authContext: AuthContext
 ): Promise<Response> {
   const context = buildRequestContext(request);
 
   try {
-    const authHeader = request.headers.get("authorization");
-    const accessToken = authHeader?.substring(7) || "";
-
-    const jwtService = new JwtServiceImpl();
-    const payload = await jwtService.verifyAccessToken(accessToken);
-
-    if (!payload || !payload.sessionId) {
+    if (!authContext.sessionId) {
       throw new AuthenticationError("Invalid access token");
     }
 
@@ -44,7 +37,7 @@ async function logoutHandler(
     await logoutUseCase.execute(
       {
         userId: authContext.userId,
-        sessionId: payload.sessionId,
+        sessionId: authContext.sessionId,
       },
       context
     );
@@ -67,4 +60,6 @@ async function logoutHandler(
   }
 }
 
-export const POST = withCors(withAuth("user")(logoutHandler));
+export const POST = withCors(
+  withAuth("user", { personalAccessToken: false })(logoutHandler)
+);
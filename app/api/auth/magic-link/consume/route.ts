@@ -0,0 +1,102 @@
+import { type NextRequest } from "next/server";
+import { ConsumeMagicLinkUseCase } from "@/application/use-cases/consume-magic-link.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { setAuthCookies } from "@/presentation/helpers/cookies";
+import { MagicLinkConsumeSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function consumeMagicLinkHandler(
+  request: NextRequest
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = MagicLinkConsumeSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid sign-in link", fields);
+    }
+
+    const { token } = validationResult.data;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const emailProvider = new BrevoEmailProvider();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const consumeMagicLinkUseCase = new ConsumeMagicLinkUseCase(
+      userRepository,
+      sessionRepository,
+      authEventRepository,
+      tokenService,
+      revocationStore,
+      roleRepository,
+      emailProvider
+    );
+
+    const result = await consumeMagicLinkUseCase.execute({ token }, context);
+
+    if (result.requiresOtp) {
+      return successResponse(
+        {
+          message: result.otpSent
+            ? "OTP sent to your email. Please verify to complete signin."
+            : "Enter the code from your authenticator app to complete signin.",
+          requiresOTP: true,
+          otpMethods: result.methods,
+        },
+        200
+      );
+    }
+
+    const response = successResponse(
+      {
+        message: "Signin successful",
+        user: result.user,
+      },
+      200
+    );
+
+    setAuthCookies(
+      response,
+      result.accessToken,
+      result.refreshToken,
+      result.rememberMe
+    );
+
+    return response;
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(withRateLimit(10, 900)(consumeMagicLinkHandler));
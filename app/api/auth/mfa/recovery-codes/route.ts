@@ -0,0 +1,59 @@
+import { type NextRequest } from "next/server";
+import { RegenerateRecoveryCodesUseCase } from "@/application/use-cases/regenerate-recovery-codes.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+} from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function regenerateRecoveryCodesHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const regenerateRecoveryCodesUseCase = new RegenerateRecoveryCodesUseCase(
+      userRepository,
+      authEventRepository
+    );
+
+    const result = await regenerateRecoveryCodesUseCase.execute(
+      { userId: authContext.userId },
+      context
+    );
+
+    return successResponse(
+      {
+        message: "New recovery codes generated. Previous codes no longer work.",
+        recoveryCodes: result.recoveryCodes,
+      },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    5,
+    3600
+  )(
+    withRecentAuth(15 * 60, STRONG_AUTH_METHODS)(regenerateRecoveryCodesHandler)
+  )
+);
@@ -0,0 +1,71 @@
+import { type NextRequest } from "next/server";
+import { DisableTotpUseCase } from "@/application/use-cases/disable-totp.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+} from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { TotpCodeSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function disableTotpHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = TotpCodeSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid authenticator code", fields);
+    }
+
+    const { code } = validationResult.data;
+
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const disableTotpUseCase = new DisableTotpUseCase(
+      userRepository,
+      authEventRepository
+    );
+
+    const result = await disableTotpUseCase.execute(
+      { userId: authContext.userId, code },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    900
+  )(withRecentAuth(15 * 60, STRONG_AUTH_METHODS)(disableTotpHandler))
+);
@@ -0,0 +1,55 @@
+import { type NextRequest } from "next/server";
+import { EnrollTotpUseCase } from "@/application/use-cases/enroll-totp.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function enrollTotpHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const enrollTotpUseCase = new EnrollTotpUseCase(
+      userRepository,
+      authEventRepository
+    );
+
+    const result = await enrollTotpUseCase.execute(
+      { userId: authContext.userId },
+      context
+    );
+
+    return successResponse(
+      {
+        message:
+          "Scan the QR code with your authenticator app, then confirm with a code.",
+        secret: result.secret,
+        otpauthUri: result.otpauthUri,
+      },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS)(enrollTotpHandler)
+);
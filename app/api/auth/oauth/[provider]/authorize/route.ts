@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { StartSocialSigninUseCase } from "@/application/use-cases/start-social-signin.use-case";
+import { IdentityProviderRegistryImpl } from "@/infrastructure/identity/provider-registry";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import { errorResponse } from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { env } from "@/env";
+
+async function socialAuthorizeHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { provider } = await params;
+    const rememberMe =
+      request.nextUrl.searchParams.get("rememberMe") === "true";
+
+    const providerRegistry = new IdentityProviderRegistryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const startSocialSigninUseCase = new StartSocialSigninUseCase(
+      providerRegistry,
+      ephemeralStore
+    );
+
+    const result = await startSocialSigninUseCase.execute({
+      provider,
+      rememberMe,
+      redirectUri: `${env.OAUTH_REDIRECT_BASE_URL}/api/auth/oauth/${encodeURIComponent(provider)}/callback`,
+    });
+
+    return NextResponse.redirect(result.authorizationUrl, 302);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withRateLimit(30, 60)(socialAuthorizeHandler));
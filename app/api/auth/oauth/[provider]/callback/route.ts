@@ -0,0 +1,119 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { CompleteSocialSigninUseCase } from "@/application/use-cases/complete-social-signin.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { LinkedIdentityRepositoryImpl } from "@/infrastructure/database/linked-identity.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { IdentityProviderRegistryImpl } from "@/infrastructure/identity/provider-registry";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import { mapDomainErrorToHttp } from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { setAuthCookies } from "@/presentation/helpers/cookies";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { env } from "@/env";
+
+function completionUrl(params: Record<string, string>): URL {
+  const url = new URL("/oauth/complete", env.NEXT_PUBLIC_SITE_URL);
+  url.search = new URLSearchParams(params).toString();
+  return url;
+}
+
+async function socialCallbackHandler(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { provider } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const code = searchParams.get("code");
+    const state = searchParams.get("state");
+
+    if (searchParams.get("error") || !code || !state) {
+      throw new AuthenticationError("Sign-in was cancelled or denied");
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const identityRepository = new LinkedIdentityRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const emailProvider = new BrevoEmailProvider();
+    const providerRegistry = new IdentityProviderRegistryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const completeSocialSigninUseCase = new CompleteSocialSigninUseCase(
+      userRepository,
+      sessionRepository,
+      identityRepository,
+      authEventRepository,
+      tokenService,
+      revocationStore,
+      roleRepository,
+      emailProvider,
+      providerRegistry,
+      ephemeralStore
+    );
+
+    const result = await completeSocialSigninUseCase.execute(
+      { provider, code, state },
+      context
+    );
+
+    if (result.requiresOtp) {
+      return NextResponse.redirect(
+        completionUrl({
+          status: "otp_required",
+          email: result.email,
+          otpMethods: result.methods.join(","),
+        }),
+        302
+      );
+    }
+
+    const response = NextResponse.redirect(
+      completionUrl({ status: "success" }),
+      302
+    );
+
+    setAuthCookies(
+      response,
+      result.accessToken,
+      result.refreshToken,
+      result.rememberMe
+    );
+
+    return response;
+  } catch (error) {
+    const [, code] = mapDomainErrorToHttp(
+      error instanceof Error ? error : new Error(String(error))
+    );
+
+    if (code === "INTERNAL_ERROR") {
+      console.error(
+        `[OAuthCallback] Unexpected error (requestId: ${context.requestId}):`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+
+    return NextResponse.redirect(
+      completionUrl({
+        status: "error",
+        code,
+        requestId: context.requestId,
+      }),
+      302
+    );
+  }
+}
+
+export const GET = withCors(withRateLimit(30, 60)(socialCallbackHandler));
@@ -0,0 +1,52 @@
+import { type NextRequest } from "next/server";
+import { RevokePersonalAccessTokenUseCase } from "@/application/use-cases/revoke-personal-access-token.use-case";
+import { PersonalAccessTokenRepositoryImpl } from "@/infrastructure/database/personal-access-token.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type PersonalAccessTokenParams = { id: string };
+
+async function revokePersonalAccessTokenHandler(
+  request: NextRequest,
+  authContext: AuthContext<PersonalAccessTokenParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await authContext.params!;
+
+    const personalAccessTokenRepository =
+      new PersonalAccessTokenRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const revokePersonalAccessTokenUseCase =
+      new RevokePersonalAccessTokenUseCase(
+        personalAccessTokenRepository,
+        authEventRepository
+      );
+
+    const result = await revokePersonalAccessTokenUseCase.execute(
+      { userId: authContext.userId, tokenId: id },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withAuth("user", { personalAccessToken: false, impersonation: false })(
+    revokePersonalAccessTokenHandler
+  )
+);
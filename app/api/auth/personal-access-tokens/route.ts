@@ -0,0 +1,114 @@
+import { type NextRequest } from "next/server";
+import { CreatePersonalAccessTokenUseCase } from "@/application/use-cases/create-personal-access-token.use-case";
+import { ListPersonalAccessTokensUseCase } from "@/application/use-cases/list-personal-access-tokens.use-case";
+import { PersonalAccessTokenRepositoryImpl } from "@/infrastructure/database/personal-access-token.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { CreatePersonalAccessTokenSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function listPersonalAccessTokensHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const personalAccessTokenRepository =
+      new PersonalAccessTokenRepositoryImpl();
+
+    const listPersonalAccessTokensUseCase = new ListPersonalAccessTokensUseCase(
+      personalAccessTokenRepository
+    );
+
+    const result = await listPersonalAccessTokensUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    return successResponse(
+      { personalAccessTokens: result.personalAccessTokens },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function createPersonalAccessTokenHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = CreatePersonalAccessTokenSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid access token request", fields);
+    }
+
+    const personalAccessTokenRepository =
+      new PersonalAccessTokenRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const createPersonalAccessTokenUseCase =
+      new CreatePersonalAccessTokenUseCase(
+        personalAccessTokenRepository,
+        authEventRepository
+      );
+
+    const result = await createPersonalAccessTokenUseCase.execute(
+      { userId: authContext.userId, ...validationResult.data },
+      context
+    );
+
+    return successResponse(
+      {
+        personalAccessToken: result.personalAccessToken,
+        token: result.token,
+      },
+      201
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(
+  withAuth("user", { personalAccessToken: false })(
+    listPersonalAccessTokensHandler
+  )
+);
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(
+    withAuth("user", { personalAccessToken: false, impersonation: false })(
+      createPersonalAccessTokenHandler
+    )
+  )
+);
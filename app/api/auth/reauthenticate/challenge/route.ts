@@ -0,0 +1,92 @@
+import { type NextRequest } from "next/server";
+import { StartReauthenticationUseCase } from "@/application/use-cases/start-reauthentication.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { ReauthenticationChallengeSchema } from "@/presentation/validation/schemas";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+/**
+ * Starts a passkey or emailed-code step-up for the current session. Passkey
+ * requests get WebAuthn options; email requests send a code.
+ */
+async function reauthenticationChallengeHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    if (!authContext.sessionId) {
+      throw new AuthenticationError("A session access token is required");
+    }
+
+    const body = await request.json();
+
+    const validationResult = ReauthenticationChallengeSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid re-authentication request", fields);
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const emailProvider = new BrevoEmailProvider();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const startReauthenticationUseCase = new StartReauthenticationUseCase(
+      userRepository,
+      credentialRepository,
+      authEventRepository,
+      emailProvider,
+      ephemeralStore
+    );
+
+    const result = await startReauthenticationUseCase.execute(
+      {
+        userId: authContext.userId,
+        sessionId: authContext.sessionId,
+        method: validationResult.data.method,
+      },
+      context
+    );
+
+    return successResponse(result, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    5,
+    900
+  )(
+    withAuth("user", { personalAccessToken: false, impersonation: false })(
+      reauthenticationChallengeHandler
+    )
+  )
+);
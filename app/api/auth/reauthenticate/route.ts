@@ -0,0 +1,130 @@
+import { type NextRequest } from "next/server";
+import { ReauthenticateUseCase } from "@/application/use-cases/reauthenticate.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import type { AuthenticationResponseJSON } from "@/infrastructure/crypto/webauthn.service";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { setAccessTokenCookie } from "@/presentation/helpers/cookies";
+import { ReauthenticateSchema } from "@/presentation/validation/schemas";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+/**
+ * Upgrades the current session after a `REAUTHENTICATION_REQUIRED` error,
+ * with a password, a passkey or an emailed code. The last two need a
+ * challenge from `POST /api/auth/reauthenticate/challenge` first. Returns an access token with the new `auth_time` and `amr`, or sets it as
+ * the cookie for browser clients.
+ */
+async function reauthenticateHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    if (!authContext.sessionId) {
+      throw new AuthenticationError("A session access token is required");
+    }
+
+    const body = await request.json();
+
+    const validationResult = ReauthenticateSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid re-authentication request", fields);
+    }
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const reauthenticateUseCase = new ReauthenticateUseCase(
+      userRepository,
+      sessionRepository,
+      roleRepository,
+      credentialRepository,
+      authEventRepository,
+      tokenService,
+      ephemeralStore
+    );
+
+    const data = validationResult.data;
+
+    const result = await reauthenticateUseCase.execute(
+      {
+        userId: authContext.userId,
+        sessionId: authContext.sessionId,
+        ...(data.method === "passkey"
+          ? {
+              method: data.method,
+              response: data.response as unknown as AuthenticationResponseJSON,
+            }
+          : data),
+      },
+      context
+    );
+
+    if (authContext.credentialSource === "authorization_header") {
+      return successResponse(
+        {
+          accessToken: result.accessToken,
+          authenticatedAt: result.authenticatedAt,
+          authMethods: result.authMethods,
+        },
+        200
+      );
+    }
+
+    const response = successResponse(
+      {
+        authenticatedAt: result.authenticatedAt,
+        authMethods: result.authMethods,
+      },
+      200
+    );
+
+    setAccessTokenCookie(response, result.accessToken);
+
+    return response;
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    900
+  )(
+    withAuth("user", { personalAccessToken: false, impersonation: false })(
+      reauthenticateHandler
+    )
+  )
+);
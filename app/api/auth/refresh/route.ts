@@ -1,46 +1,129 @@
 import { type NextRequest } from "next/server";
 import { RefreshTokenUseCase } from "@/application/use-cases/refresh-token.use-case";
+import { RefreshGraceCache } from "@/application/services/refresh-grace-cache";
 import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
 import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
 import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
 import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
 import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
 import { withCors } from "@/presentation/middleware/cors";
 import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  assertValidCsrfToken,
+  resolveCsrfBindings,
+} from "@/presentation/middleware/csrf";
 import {
   errorResponse,
   successResponse,
 } from "@/presentation/helpers/response";
 import { buildRequestContext } from "@/presentation/helpers/request-context";
-import { setAuthCookies } from "@/presentation/helpers/cookies";
+import {
+  REFRESH_TOKEN_COOKIE,
+  setAuthCookies,
+} from "@/presentation/helpers/cookies";
+import { RefreshTokenSchema } from "@/presentation/validation/schemas";
 import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { ValidationError } from "@/domain/errors/validation.error";
+import { env } from "@/env";
+
+/**
+ * Non-browser clients send the refresh token in a JSON body and get the new
+ * pair back the same way. Browsers send no body and use the cookies.
+ */
+async function readRefreshBody(
+  request: NextRequest
+): Promise<{ refreshToken: string } | null> {
+  const text = await request.text();
+  if (!text.trim()) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ValidationError("Request body must be valid JSON");
+  }
+
+  const validationResult = RefreshTokenSchema.safeParse(json);
+  if (!validationResult.success) {
+    const fields = validationResult.error.errors.reduce(
+      (acc, err) => {
+        const path = err.path.join(".");
+        acc[path] = err.message;
+        return acc;
+      },
+      {} as Record<string, string>
+    );
+
+    throw new ValidationError("Invalid refresh data", fields);
+  }
+
+  return validationResult.data;
+}
 
 async function refreshHandler(request: NextRequest): Promise<Response> {
   const context = buildRequestContext(request);
 
   try {
-    const refreshToken = request.cookies.get("refreshToken")?.value;
+    const body = await readRefreshBody(request);
+
+    const refreshToken =
+      body?.refreshToken ?? request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
 
     if (!refreshToken) {
       throw new AuthenticationError("Refresh token not found");
     }
 
+    if (!body) {
+      assertValidCsrfToken(request, await resolveCsrfBindings(request));
+    }
+
     const userRepository = new UserRepositoryImpl();
     const sessionRepository = new SessionRepositoryImpl();
     const authEventRepository = new AuthEventRepositoryImpl();
     const tokenService = new JwtServiceImpl();
     const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
 
     const refreshTokenUseCase = new RefreshTokenUseCase(
       userRepository,
       sessionRepository,
       authEventRepository,
       tokenService,
-      revocationStore
+      revocationStore,
+      roleRepository,
+      membershipRepository,
+      {
+        emailProvider: env.REFRESH_REUSE_ALERT_EMAILS
+          ? new BrevoEmailProvider()
+          : undefined,
+        graceCache:
+          env.REFRESH_GRACE_PERIOD_SECONDS > 0
+            ? new RefreshGraceCache(
+                new EphemeralStoreImpl(),
+                env.REFRESH_GRACE_PERIOD_SECONDS
+              )
+            : undefined,
+      }
     );
 
     const result = await refreshTokenUseCase.execute({ refreshToken }, context);
 
+    if (body) {
+      return successResponse(
+        {
+          message: "Token refreshed successfully",
+          accessToken: result.accessToken,
+          refreshToken: result.refreshToken,
+        },
+        200
+      );
+    }
+
     const response = successResponse(
       {
         message: "Token refreshed successfully",
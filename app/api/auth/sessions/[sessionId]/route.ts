@@ -0,0 +1,60 @@
+import { type NextRequest } from "next/server";
+import { RevokeSessionUseCase } from "@/application/use-cases/revoke-session.use-case";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { clearAuthCookies } from "@/presentation/helpers/cookies";
+
+type SessionParams = { sessionId: string };
+
+async function revokeSessionHandler(
+  request: NextRequest,
+  authContext: AuthContext<SessionParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { sessionId } = await authContext.params!;
+
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const revokeSessionUseCase = new RevokeSessionUseCase(
+      sessionRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await revokeSessionUseCase.execute(
+      { userId: authContext.userId, sessionId },
+      context
+    );
+
+    const response = successResponse({ message: result.message }, 200);
+
+    if (sessionId === authContext.sessionId) {
+      clearAuthCookies(response);
+    }
+
+    return response;
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withAuth("user", { personalAccessToken: false, impersonation: false })(
+    revokeSessionHandler
+  )
+);
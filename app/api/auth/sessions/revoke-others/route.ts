@@ -0,0 +1,60 @@
+import { type NextRequest } from "next/server";
+import { RevokeOtherSessionsUseCase } from "@/application/use-cases/revoke-other-sessions.use-case";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+
+async function revokeOtherSessionsHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    if (!authContext.sessionId) {
+      throw new AuthenticationError("A session access token is required");
+    }
+
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const revokeOtherSessionsUseCase = new RevokeOtherSessionsUseCase(
+      sessionRepository,
+      authEventRepository,
+      revocationStore
+    );
+
+    const result = await revokeOtherSessionsUseCase.execute(
+      {
+        userId: authContext.userId,
+        currentSessionId: authContext.sessionId,
+      },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, sessionsRevoked: result.sessionsRevoked },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withAuth("user", { personalAccessToken: false, impersonation: false })(
+    revokeOtherSessionsHandler
+  )
+);
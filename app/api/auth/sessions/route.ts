@@ -0,0 +1,39 @@
+import { type NextRequest } from "next/server";
+import { ListSessionsUseCase } from "@/application/use-cases/list-sessions.use-case";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function listSessionsHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const sessionRepository = new SessionRepositoryImpl();
+
+    const listSessionsUseCase = new ListSessionsUseCase(sessionRepository);
+
+    const result = await listSessionsUseCase.execute({
+      userId: authContext.userId,
+      currentSessionId: authContext.sessionId,
+    });
+
+    return successResponse({ sessions: result.sessions }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(
+  withAuth("user", { personalAccessToken: false })(listSessionsHandler)
+);
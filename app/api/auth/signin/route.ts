@@ -3,6 +3,8 @@ import { SigninUseCase } from "@/application/use-cases/signin.use-case";
 import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
 import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
 import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
 import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
 import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
 import { withCors } from "@/presentation/middleware/cors";
@@ -41,6 +43,8 @@ async function signinHandler(request: NextRequest): Promise<Response> {
     const userRepository = new UserRepositoryImpl();
     const sessionRepository = new SessionRepositoryImpl();
     const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
     const emailProvider = new BrevoEmailProvider();
     const authEventRepository = new AuthEventRepositoryImpl();
 
@@ -49,6 +53,8 @@ async function signinHandler(request: NextRequest): Promise<Response> {
       sessionRepository,
       authEventRepository,
       tokenService,
+      revocationStore,
+      roleRepository,
       emailProvider
     );
 
@@ -64,8 +70,11 @@ async function signinHandler(request: NextRequest): Promise<Response> {
     if (result.requiresOtp) {
       return successResponse(
         {
-          message: "OTP sent to your email. Please verify to complete signin.",
+          message: result.otpSent
+            ? "OTP sent to your email. Please verify to complete signin."
+            : "Enter the code from your authenticator app to complete signin.",
           requiresOTP: true,
+          otpMethods: result.methods,
         },
         200
       );
@@ -1,10 +1,17 @@
 import { type NextRequest } from "next/server";
-import { v4 as uuidv4 } from "uuid";
 import { VerifyEmailUseCase } from "@/application/use-cases/verify-email.use-case";
+import {
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+} from "@/application/services/session-issuer";
+import { SessionLimiter } from "@/application/services/session-limiter";
+import { PermissionResolver } from "@/application/services/permission-resolver";
 import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
 import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
 import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
 import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
 import { withCors } from "@/presentation/middleware/cors";
 import {
   errorResponse,
@@ -14,7 +21,6 @@ import { buildRequestContext } from "@/presentation/helpers/request-context";
 import { setAuthCookies } from "@/presentation/helpers/cookies";
 import { VerifyEmailSchema } from "@/presentation/validation/schemas";
 import { ValidationError } from "@/domain/errors/validation.error";
-import { sha256Hash } from "@/infrastructure/crypto/hash";
 
 async function verifyEmailHandler(request: NextRequest): Promise<Response> {
   const context = buildRequestContext(request);
@@ -49,6 +55,8 @@ async function verifyEmailHandler(request: NextRequest): Promise<Response> {
     const authEventRepository = new AuthEventRepositoryImpl();
     const sessionRepository = new SessionRepositoryImpl();
     const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
 
     const verifyEmailUseCase = new VerifyEmailUseCase(
       userRepository,
@@ -60,36 +68,28 @@ async function verifyEmailHandler(request: NextRequest): Promise<Response> {
       context
     );
 
-    const sessionId = uuidv4();
-    const ttlSeconds = 7 * 24 * 60 * 60;
-
-    const [accessResult, refreshResult] = await Promise.all([
-      tokenService.generateAccessToken({
-        userId: result.user.id,
+    const session = await new SessionIssuer(
+      sessionRepository,
+      tokenService,
+      new SessionLimiter(
+        sessionRepository,
+        revocationStore,
+        authEventRepository
+      ),
+      new PermissionResolver(roleRepository)
+    ).issue(
+      {
+        id: result.user.id,
         email: result.user.email,
         role: result.user.role as "admin" | "user",
-        sessionId,
-        tokenVersion: result.user.tokenVersion,
-      }),
-      tokenService.generateRefreshToken({
-        userId: result.user.id,
-        sessionId,
+        roles: result.user.roles,
+        tier: result.user.tier,
         tokenVersion: result.user.tokenVersion,
-        ttlSeconds,
-      }),
-    ]);
-
-    const refreshTokenHash = sha256Hash(refreshResult.token);
-
-    await sessionRepository.create({
-      sessionId,
-      userId: result.user.id,
-      refreshTokenHash,
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent,
-      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
-      lastUsedAt: new Date(),
-    });
+      },
+      DEFAULT_SESSION_TTL_SECONDS,
+      context,
+      { methods: ["email"] }
+    );
 
     const response = successResponse(
       {
@@ -99,7 +99,7 @@ async function verifyEmailHandler(request: NextRequest): Promise<Response> {
       200
     );
 
-    setAuthCookies(response, accessResult.token, refreshResult.token, false);
+    setAuthCookies(response, session.accessToken, session.refreshToken, false);
 
     return response;
   } catch (error) {
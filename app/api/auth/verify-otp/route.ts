@@ -3,6 +3,8 @@ import { VerifyOtpUseCase } from "@/application/use-cases/verify-otp.use-case";
 import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
 import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
 import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
 import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
 import { withCors } from "@/presentation/middleware/cors";
 import { withRateLimit } from "@/presentation/middleware/rate-limit";
@@ -41,12 +43,16 @@ async function verifyOtpHandler(request: NextRequest): Promise<Response> {
     const sessionRepository = new SessionRepositoryImpl();
     const authEventRepository = new AuthEventRepositoryImpl();
     const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
 
     const verifyOtpUseCase = new VerifyOtpUseCase(
       userRepository,
       sessionRepository,
       authEventRepository,
-      tokenService
+      tokenService,
+      revocationStore,
+      roleRepository
     );
 
     const result = await verifyOtpUseCase.execute({ email, otp }, context);
@@ -0,0 +1,42 @@
+import { type NextRequest } from "next/server";
+import { StartPasskeyAuthenticationUseCase } from "@/application/use-cases/start-passkey-authentication.use-case";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function passkeyAuthenticationOptionsHandler(
+  request: NextRequest
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const startPasskeyAuthenticationUseCase =
+      new StartPasskeyAuthenticationUseCase(ephemeralStore);
+
+    const result = await startPasskeyAuthenticationUseCase.execute();
+
+    return successResponse(
+      {
+        challengeId: result.challengeId,
+        options: result.options,
+      },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(30, 60)(passkeyAuthenticationOptionsHandler)
+);
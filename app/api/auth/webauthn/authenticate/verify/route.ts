@@ -0,0 +1,107 @@
+import { type NextRequest } from "next/server";
+import { FinishPasskeyAuthenticationUseCase } from "@/application/use-cases/finish-passkey-authentication.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import type { AuthenticationResponseJSON } from "@/infrastructure/crypto/webauthn.service";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { setAuthCookies } from "@/presentation/helpers/cookies";
+import { PasskeyAuthenticationSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function passkeyAuthenticationVerifyHandler(
+  request: NextRequest
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = PasskeyAuthenticationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid passkey signin data", fields);
+    }
+
+    const {
+      challengeId,
+      response: assertion,
+      rememberMe,
+    } = validationResult.data;
+
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const finishPasskeyAuthenticationUseCase =
+      new FinishPasskeyAuthenticationUseCase(
+        userRepository,
+        sessionRepository,
+        credentialRepository,
+        authEventRepository,
+        tokenService,
+        revocationStore,
+        roleRepository,
+        ephemeralStore
+      );
+
+    const result = await finishPasskeyAuthenticationUseCase.execute(
+      {
+        challengeId,
+        response: assertion as unknown as AuthenticationResponseJSON,
+        rememberMe,
+      },
+      context
+    );
+
+    const response = successResponse(
+      {
+        message: "Signin successful",
+        user: result.user,
+      },
+      200
+    );
+
+    setAuthCookies(
+      response,
+      result.accessToken,
+      result.refreshToken,
+      rememberMe
+    );
+
+    return response;
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(10, 900)(passkeyAuthenticationVerifyHandler)
+);
@@ -0,0 +1,109 @@
+import { type NextRequest } from "next/server";
+import { RenamePasskeyUseCase } from "@/application/use-cases/rename-passkey.use-case";
+import { DeletePasskeyUseCase } from "@/application/use-cases/delete-passkey.use-case";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withAuth,
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+  type AuthContext,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { RenamePasskeySchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+type PasskeyParams = { id: string };
+
+async function renamePasskeyHandler(
+  request: NextRequest,
+  authContext: AuthContext<PasskeyParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await authContext.params!;
+    const body = await request.json();
+
+    const validationResult = RenamePasskeySchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid passkey name", fields);
+    }
+
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const renamePasskeyUseCase = new RenamePasskeyUseCase(
+      credentialRepository,
+      authEventRepository
+    );
+
+    const result = await renamePasskeyUseCase.execute(
+      {
+        userId: authContext.userId,
+        passkeyId: id,
+        name: validationResult.data.name,
+      },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function deletePasskeyHandler(
+  request: NextRequest,
+  authContext: AuthContext<PasskeyParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { id } = await authContext.params!;
+
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const deletePasskeyUseCase = new DeletePasskeyUseCase(
+      credentialRepository,
+      authEventRepository
+    );
+
+    const result = await deletePasskeyUseCase.execute(
+      { userId: authContext.userId, passkeyId: id },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const PATCH = withCors(
+  withAuth("user", { personalAccessToken: false })(renamePasskeyHandler)
+);
+export const DELETE = withCors(
+  withRecentAuth(15 * 60, STRONG_AUTH_METHODS)(deletePasskeyHandler)
+);
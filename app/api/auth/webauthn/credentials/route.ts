@@ -0,0 +1,36 @@
+import { type NextRequest } from "next/server";
+import { ListPasskeysUseCase } from "@/application/use-cases/list-passkeys.use-case";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function listPasskeysHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+
+    const listPasskeysUseCase = new ListPasskeysUseCase(credentialRepository);
+
+    const result = await listPasskeysUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    return successResponse({ passkeys: result.passkeys }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withAuth("user")(listPasskeysHandler));
@@ -0,0 +1,52 @@
+import { type NextRequest } from "next/server";
+import { StartPasskeyRegistrationUseCase } from "@/application/use-cases/start-passkey-registration.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withRecentAuth,
+  STRONG_AUTH_METHODS,
+} from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function passkeyRegistrationOptionsHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const userRepository = new UserRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const startPasskeyRegistrationUseCase = new StartPasskeyRegistrationUseCase(
+      userRepository,
+      credentialRepository,
+      ephemeralStore
+    );
+
+    const result = await startPasskeyRegistrationUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    return successResponse({ options: result.options }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRecentAuth(
+    15 * 60,
+    STRONG_AUTH_METHODS
+  )(passkeyRegistrationOptionsHandler)
+);
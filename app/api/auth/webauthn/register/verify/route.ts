@@ -0,0 +1,90 @@
+import { type NextRequest } from "next/server";
+import { FinishPasskeyRegistrationUseCase } from "@/application/use-cases/finish-passkey-registration.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { WebAuthnCredentialRepositoryImpl } from "@/infrastructure/database/webauthn-credential.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import type { RegistrationResponseJSON } from "@/infrastructure/crypto/webauthn.service";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { PasskeyRegistrationSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function passkeyRegistrationVerifyHandler(
+  request: NextRequest,
+  authContext: { userId: string }
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = PasskeyRegistrationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid passkey registration data", fields);
+    }
+
+    const { response: attestation, name } = validationResult.data;
+
+    const userRepository = new UserRepositoryImpl();
+    const credentialRepository = new WebAuthnCredentialRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const finishPasskeyRegistrationUseCase =
+      new FinishPasskeyRegistrationUseCase(
+        userRepository,
+        credentialRepository,
+        authEventRepository,
+        ephemeralStore
+      );
+
+    const result = await finishPasskeyRegistrationUseCase.execute(
+      {
+        userId: authContext.userId,
+        response: attestation as unknown as RegistrationResponseJSON,
+        name,
+      },
+      context
+    );
+
+    return successResponse(
+      {
+        message: "Passkey registered successfully",
+        passkey: result.passkey,
+      },
+      201
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    900
+  )(
+    withAuth("user", { personalAccessToken: false, impersonation: false })(
+      passkeyRegistrationVerifyHandler
+    )
+  )
+);
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { AuthorizeClientUseCase } from "@/application/use-cases/authorize-client.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import { authenticateRequest } from "@/presentation/middleware/auth";
+import { oauthErrorResponse } from "@/presentation/helpers/oauth";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { env } from "@/env";
+
+async function authorizeHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const maxAge = params.get("max_age");
+    const auth = await authenticateRequest(request);
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const authorizeClientUseCase = new AuthorizeClientUseCase(
+      oauthClientRepository,
+      sessionRepository,
+      authEventRepository,
+      ephemeralStore
+    );
+
+    const result = await authorizeClientUseCase.execute(
+      {
+        clientId: params.get("client_id") ?? "",
+        redirectUri: params.get("redirect_uri") ?? "",
+        responseType: params.get("response_type") ?? "",
+        scope: params.get("scope") ?? "",
+        state: params.get("state") ?? undefined,
+        nonce: params.get("nonce") ?? undefined,
+        codeChallenge: params.get("code_challenge") ?? undefined,
+        codeChallengeMethod: params.get("code_challenge_method") ?? undefined,
+        maxAge: maxAge !== null ? Number(maxAge) : undefined,
+        prompt: params.get("prompt") ?? undefined,
+        issuer: env.OIDC_ISSUER,
+        // Impersonated sessions cannot grant third-party access.
+        session:
+          auth && !auth.payload.act
+            ? { userId: auth.user.id, sessionId: auth.payload.sessionId }
+            : null,
+      },
+      context
+    );
+
+    if (result.status === "login_required") {
+      const returnTo = `${env.OIDC_ISSUER}/oauth/authorize?${params.toString()}`;
+      return NextResponse.redirect(
+        `${env.NEXT_PUBLIC_SITE_URL}/signin?returnTo=${encodeURIComponent(returnTo)}`,
+        302
+      );
+    }
+
+    return NextResponse.redirect(result.redirectUrl, 302);
+  } catch (error) {
+    return oauthErrorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withRateLimit(30, 60)(authorizeHandler));
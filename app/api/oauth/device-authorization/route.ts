@@ -0,0 +1,75 @@
+import { type NextRequest } from "next/server";
+import { StartDeviceAuthorizationUseCase } from "@/application/use-cases/start-device-authorization.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  oauthErrorResponse,
+  oauthJsonResponse,
+  readClientCredentials,
+  readFormBody,
+} from "@/presentation/helpers/oauth";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { DeviceAuthorizationRequestSchema } from "@/presentation/validation/schemas";
+import { OAuthError } from "@/domain/errors/oauth.error";
+import { env } from "@/env";
+
+async function deviceAuthorizationHandler(
+  request: NextRequest
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const form = await readFormBody(request);
+    const credentials = readClientCredentials(request, form);
+
+    const validationResult = DeviceAuthorizationRequestSchema.safeParse(form);
+    if (!validationResult.success) {
+      throw new OAuthError(
+        "invalid_request",
+        validationResult.error.errors[0]?.message ??
+          "Invalid device authorization request"
+      );
+    }
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const startDeviceAuthorizationUseCase = new StartDeviceAuthorizationUseCase(
+      oauthClientRepository,
+      authEventRepository,
+      ephemeralStore
+    );
+
+    const result = await startDeviceAuthorizationUseCase.execute(
+      {
+        ...credentials,
+        scope: validationResult.data.scope,
+        verificationUri: `${env.OAUTH_REDIRECT_BASE_URL}/device`,
+      },
+      context
+    );
+
+    return oauthJsonResponse(
+      {
+        device_code: result.deviceCode,
+        user_code: result.userCode,
+        verification_uri: result.verificationUri,
+        verification_uri_complete: result.verificationUriComplete,
+        expires_in: result.expiresIn,
+        interval: result.interval,
+      },
+      200
+    );
+  } catch (error) {
+    return oauthErrorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(withRateLimit(10, 60)(deviceAuthorizationHandler));
@@ -0,0 +1,89 @@
+import { type NextRequest } from "next/server";
+import { ConfirmDeviceAuthorizationUseCase } from "@/application/use-cases/confirm-device-authorization.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import { withCsrf } from "@/presentation/middleware/csrf";
+import { authenticateRequest } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { ConfirmDeviceAuthorizationSchema } from "@/presentation/validation/schemas";
+import { AuthenticationError } from "@/domain/errors/authentication.error";
+import { AuthorizationError } from "@/domain/errors/authorization.error";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function confirmDeviceHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      throw new AuthenticationError("Sign in to approve this device");
+    }
+
+    if (auth.payload.act) {
+      throw new AuthorizationError(
+        "Devices cannot be approved while impersonating a user"
+      );
+    }
+
+    const body = await request.json();
+
+    const validationResult = ConfirmDeviceAuthorizationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid device code", fields);
+    }
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const ephemeralStore = new EphemeralStoreImpl();
+
+    const confirmDeviceAuthorizationUseCase =
+      new ConfirmDeviceAuthorizationUseCase(
+        oauthClientRepository,
+        sessionRepository,
+        authEventRepository,
+        ephemeralStore
+      );
+
+    const result = await confirmDeviceAuthorizationUseCase.execute(
+      {
+        userId: auth.user.id,
+        sessionId: auth.payload.sessionId,
+        userCode: validationResult.data.userCode,
+        approve: validationResult.data.approve,
+      },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, clientName: result.clientName },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(10, 60)(withCsrf(confirmDeviceHandler))
+);
@@ -0,0 +1,89 @@
+import { type NextRequest } from "next/server";
+import { IntrospectTokenUseCase } from "@/application/use-cases/introspect-token.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  oauthErrorResponse,
+  oauthJsonResponse,
+  readClientCredentials,
+  readFormBody,
+} from "@/presentation/helpers/oauth";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { OAuthIntrospectionRequestSchema } from "@/presentation/validation/schemas";
+import { OAuthError } from "@/domain/errors/oauth.error";
+import { env } from "@/env";
+
+async function introspectHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const form = await readFormBody(request);
+    const credentials = readClientCredentials(request, form);
+
+    const validationResult = OAuthIntrospectionRequestSchema.safeParse(form);
+    if (!validationResult.success) {
+      throw new OAuthError(
+        "invalid_request",
+        validationResult.error.errors[0]?.message ??
+          "Invalid introspection request"
+      );
+    }
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const introspectTokenUseCase = new IntrospectTokenUseCase(
+      oauthClientRepository,
+      userRepository,
+      sessionRepository,
+      tokenService,
+      revocationStore
+    );
+
+    const result = await introspectTokenUseCase.execute({
+      ...credentials,
+      token: validationResult.data.token,
+      tokenTypeHint: validationResult.data.token_type_hint,
+    });
+
+    if (!result.active) {
+      return oauthJsonResponse({ active: false }, 200);
+    }
+
+    return oauthJsonResponse(
+      {
+        active: true,
+        token_type: result.tokenType,
+        iss: env.OIDC_ISSUER,
+        sub: result.sub,
+        ...(result.sessionId && { sid: result.sessionId }),
+        ...(result.clientId && { client_id: result.clientId }),
+        ...(result.scopes && { scope: result.scopes.join(" ") }),
+        jti: result.jti,
+        iat: result.iat,
+        exp: result.exp,
+        ...(result.email && { username: result.email, email: result.email }),
+        ...(result.role && { role: result.role }),
+        ...(result.act && { act: result.act }),
+        ...(result.authTime !== undefined && { auth_time: result.authTime }),
+        ...(result.amr && { amr: result.amr }),
+      },
+      200
+    );
+  } catch (error) {
+    return oauthErrorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(withRateLimit(300, 60)(introspectHandler));
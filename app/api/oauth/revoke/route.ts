@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { RevokeTokenUseCase } from "@/application/use-cases/revoke-token.use-case";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  oauthErrorResponse,
+  readClientCredentials,
+  readFormBody,
+} from "@/presentation/helpers/oauth";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { OAuthRevocationRequestSchema } from "@/presentation/validation/schemas";
+import { OAuthError } from "@/domain/errors/oauth.error";
+
+async function revokeHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const form = await readFormBody(request);
+    const credentials = readClientCredentials(request, form);
+
+    const validationResult = OAuthRevocationRequestSchema.safeParse(form);
+    if (!validationResult.success) {
+      throw new OAuthError(
+        "invalid_request",
+        validationResult.error.errors[0]?.message ??
+          "Invalid revocation request"
+      );
+    }
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+
+    const revokeTokenUseCase = new RevokeTokenUseCase(
+      oauthClientRepository,
+      sessionRepository,
+      authEventRepository,
+      tokenService,
+      revocationStore
+    );
+
+    await revokeTokenUseCase.execute(
+      {
+        ...credentials,
+        token: validationResult.data.token,
+        tokenTypeHint: validationResult.data.token_type_hint,
+      },
+      context
+    );
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return oauthErrorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(withRateLimit(60, 60)(revokeHandler));
@@ -0,0 +1,179 @@
+import { type NextRequest } from "next/server";
+import { ExchangeAuthorizationCodeUseCase } from "@/application/use-cases/exchange-authorization-code.use-case";
+import { ExchangeDeviceCodeUseCase } from "@/application/use-cases/exchange-device-code.use-case";
+import { IssueClientCredentialsTokenUseCase } from "@/application/use-cases/issue-client-credentials-token.use-case";
+import { RefreshClientTokenUseCase } from "@/application/use-cases/refresh-client-token.use-case";
+import { RefreshTokenUseCase } from "@/application/use-cases/refresh-token.use-case";
+import { RefreshGraceCache } from "@/application/services/refresh-grace-cache";
+import type { OAuthTokenOutput } from "@/application/dtos/oauth.dto";
+import { OAuthClientRepositoryImpl } from "@/infrastructure/database/oauth-client.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { SessionRepositoryImpl } from "@/infrastructure/database/session.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { EphemeralStoreImpl } from "@/infrastructure/redis/ephemeral.store.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  oauthErrorResponse,
+  oauthJsonResponse,
+  readClientCredentials,
+  readFormBody,
+} from "@/presentation/helpers/oauth";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { OAuthTokenRequestSchema } from "@/presentation/validation/schemas";
+import { OAuthError } from "@/domain/errors/oauth.error";
+import { env } from "@/env";
+
+const SUPPORTED_GRANT_TYPES = [
+  "authorization_code",
+  "refresh_token",
+  "client_credentials",
+  "urn:ietf:params:oauth:grant-type:device_code",
+];
+
+async function tokenHandler(request: NextRequest): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const form = await readFormBody(request);
+
+    if (!SUPPORTED_GRANT_TYPES.includes(form.grant_type ?? "")) {
+      throw new OAuthError(
+        "unsupported_grant_type",
+        "grant_type is not supported"
+      );
+    }
+
+    const validationResult = OAuthTokenRequestSchema.safeParse(form);
+    if (!validationResult.success) {
+      throw new OAuthError(
+        "invalid_request",
+        validationResult.error.errors[0]?.message ?? "Invalid token request"
+      );
+    }
+
+    const credentials = readClientCredentials(request, form);
+    const grant = validationResult.data;
+
+    const oauthClientRepository = new OAuthClientRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+    const sessionRepository = new SessionRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const tokenService = new JwtServiceImpl();
+    const revocationStore = new RevocationStoreImpl();
+    const roleRepository = new RoleRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+
+    let result: OAuthTokenOutput;
+
+    if (grant.grant_type === "authorization_code") {
+      const ephemeralStore = new EphemeralStoreImpl();
+
+      const exchangeAuthorizationCodeUseCase =
+        new ExchangeAuthorizationCodeUseCase(
+          oauthClientRepository,
+          userRepository,
+          sessionRepository,
+          authEventRepository,
+          tokenService,
+          revocationStore,
+          roleRepository,
+          ephemeralStore
+        );
+
+      result = await exchangeAuthorizationCodeUseCase.execute(
+        {
+          ...credentials,
+          code: grant.code,
+          redirectUri: grant.redirect_uri,
+          codeVerifier: grant.code_verifier,
+        },
+        context
+      );
+    } else if (grant.grant_type === "refresh_token") {
+      const refreshClientTokenUseCase = new RefreshClientTokenUseCase(
+        oauthClientRepository,
+        new RefreshTokenUseCase(
+          userRepository,
+          sessionRepository,
+          authEventRepository,
+          tokenService,
+          revocationStore,
+          roleRepository,
+          membershipRepository,
+          {
+            emailProvider: env.REFRESH_REUSE_ALERT_EMAILS
+              ? new BrevoEmailProvider()
+              : undefined,
+            graceCache:
+              env.REFRESH_GRACE_PERIOD_SECONDS > 0
+                ? new RefreshGraceCache(
+                    new EphemeralStoreImpl(),
+                    env.REFRESH_GRACE_PERIOD_SECONDS
+                  )
+                : undefined,
+          }
+        )
+      );
+
+      result = await refreshClientTokenUseCase.execute(
+        { ...credentials, refreshToken: grant.refresh_token },
+        context
+      );
+    } else if (grant.grant_type === "client_credentials") {
+      const issueClientCredentialsTokenUseCase =
+        new IssueClientCredentialsTokenUseCase(
+          oauthClientRepository,
+          authEventRepository,
+          tokenService
+        );
+
+      result = await issueClientCredentialsTokenUseCase.execute(
+        { ...credentials, scope: grant.scope },
+        context
+      );
+    } else {
+      const ephemeralStore = new EphemeralStoreImpl();
+
+      const exchangeDeviceCodeUseCase = new ExchangeDeviceCodeUseCase(
+        oauthClientRepository,
+        userRepository,
+        sessionRepository,
+        authEventRepository,
+        tokenService,
+        revocationStore,
+        roleRepository,
+        ephemeralStore
+      );
+
+      result = await exchangeDeviceCodeUseCase.execute(
+        { ...credentials, deviceCode: grant.device_code },
+        context
+      );
+    }
+
+    return oauthJsonResponse(
+      {
+        access_token: result.accessToken,
+        token_type: result.tokenType,
+        expires_in: result.expiresIn,
+        ...(result.scope && { scope: result.scope }),
+        ...(result.idToken && { id_token: result.idToken }),
+        ...(result.refreshToken && { refresh_token: result.refreshToken }),
+      },
+      200
+    );
+  } catch (error) {
+    return oauthErrorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(withRateLimit(30, 60)(tokenHandler));
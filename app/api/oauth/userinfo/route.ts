@@ -0,0 +1,60 @@
+import { type NextRequest } from "next/server";
+import { GetCurrentUserUseCase } from "@/application/use-cases/get-current-user.use-case";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+/**
+ * OIDC userinfo. Relying parties need the `openid` scope, and only see the
+ * email with the `email` scope.
+ */
+async function userInfoHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const userRepository = new UserRepositoryImpl();
+
+    const getCurrentUserUseCase = new GetCurrentUserUseCase(userRepository);
+
+    const result = await getCurrentUserUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    const scopes = authContext.oauthClient?.scopes;
+
+    return successResponse(
+      {
+        sub: result.id,
+        ...((!scopes || scopes.includes("email")) && {
+          email: result.email,
+          email_verified: result.isVerified,
+        }),
+      },
+      200
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+const USERINFO_CLIENT_SCOPES = { scopes: ["openid"] };
+
+export const GET = withCors(
+  withAuth("user", { oauthClient: USERINFO_CLIENT_SCOPES })(userInfoHandler)
+);
+export const POST = withCors(
+  withAuth("user", { csrf: false, oauthClient: USERINFO_CLIENT_SCOPES })(
+    userInfoHandler
+  )
+);
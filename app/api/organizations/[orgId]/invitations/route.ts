@@ -0,0 +1,88 @@
+import { type NextRequest } from "next/server";
+import { InviteToOrganizationUseCase } from "@/application/use-cases/invite-to-organization.use-case";
+import { OrganizationRepositoryImpl } from "@/infrastructure/database/organization.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { OrganizationInvitationRepositoryImpl } from "@/infrastructure/database/organization-invitation.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { BrevoEmailProvider } from "@/infrastructure/email/brevo.provider";
+import { withCors } from "@/presentation/middleware/cors";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  withOrgMembership,
+  type OrganizationAuthContext,
+} from "@/presentation/middleware/organization";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { InviteToOrganizationSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function inviteHandler(
+  request: NextRequest,
+  authContext: OrganizationAuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = InviteToOrganizationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid invitation", fields);
+    }
+
+    const organizationRepository = new OrganizationRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const invitationRepository = new OrganizationInvitationRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+    const emailProvider = new BrevoEmailProvider();
+
+    const inviteToOrganizationUseCase = new InviteToOrganizationUseCase(
+      organizationRepository,
+      membershipRepository,
+      invitationRepository,
+      userRepository,
+      authEventRepository,
+      emailProvider
+    );
+
+    const result = await inviteToOrganizationUseCase.execute(
+      {
+        actorUserId: authContext.userId,
+        organizationId: authContext.membership.organizationId,
+        ...validationResult.data,
+      },
+      context
+    );
+
+    return successResponse(
+      { message: result.message, expiresAt: result.expiresAt },
+      201
+    );
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(withOrgMembership("admin", { personalAccessToken: false })(inviteHandler))
+);
@@ -0,0 +1,53 @@
+import { type NextRequest } from "next/server";
+import { RemoveOrganizationMemberUseCase } from "@/application/use-cases/remove-organization-member.use-case";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withOrgMembership,
+  type OrganizationAuthContext,
+} from "@/presentation/middleware/organization";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+type MemberParams = { orgId: string; userId: string };
+
+async function removeMemberHandler(
+  request: NextRequest,
+  authContext: OrganizationAuthContext<MemberParams>
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const { orgId, userId } = await authContext.params!;
+
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const removeOrganizationMemberUseCase = new RemoveOrganizationMemberUseCase(
+      membershipRepository,
+      authEventRepository
+    );
+
+    const result = await removeOrganizationMemberUseCase.execute(
+      { actorUserId: authContext.userId, organizationId: orgId, userId },
+      context
+    );
+
+    return successResponse({ message: result.message }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const DELETE = withCors(
+  withOrgMembership("member", { personalAccessToken: false })(
+    removeMemberHandler
+  )
+);
@@ -0,0 +1,44 @@
+import { type NextRequest } from "next/server";
+import { ListOrganizationMembersUseCase } from "@/application/use-cases/list-organization-members.use-case";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import {
+  withOrgMembership,
+  type OrganizationAuthContext,
+} from "@/presentation/middleware/organization";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+
+async function listMembersHandler(
+  request: NextRequest,
+  authContext: OrganizationAuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+
+    const listOrganizationMembersUseCase = new ListOrganizationMembersUseCase(
+      membershipRepository,
+      userRepository
+    );
+
+    const result = await listOrganizationMembersUseCase.execute({
+      organizationId: authContext.membership.organizationId,
+    });
+
+    return successResponse({ members: result.members }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withOrgMembership("member")(listMembersHandler));
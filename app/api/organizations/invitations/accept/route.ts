@@ -0,0 +1,76 @@
+import { type NextRequest } from "next/server";
+import { AcceptOrganizationInvitationUseCase } from "@/application/use-cases/accept-organization-invitation.use-case";
+import { OrganizationRepositoryImpl } from "@/infrastructure/database/organization.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { OrganizationInvitationRepositoryImpl } from "@/infrastructure/database/organization-invitation.repository.impl";
+import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { AcceptOrganizationInvitationSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function acceptInvitationHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = AcceptOrganizationInvitationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid invitation", fields);
+    }
+
+    const organizationRepository = new OrganizationRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const invitationRepository = new OrganizationInvitationRepositoryImpl();
+    const userRepository = new UserRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const acceptOrganizationInvitationUseCase =
+      new AcceptOrganizationInvitationUseCase(
+        organizationRepository,
+        membershipRepository,
+        invitationRepository,
+        userRepository,
+        authEventRepository
+      );
+
+    const result = await acceptOrganizationInvitationUseCase.execute(
+      { userId: authContext.userId, token: validationResult.data.token },
+      context
+    );
+
+    return successResponse({ organization: result.organization }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(withAuth("user", { personalAccessToken: false })(acceptInvitationHandler))
+);
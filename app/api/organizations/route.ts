@@ -0,0 +1,99 @@
+import { type NextRequest } from "next/server";
+import { CreateOrganizationUseCase } from "@/application/use-cases/create-organization.use-case";
+import { ListOrganizationsUseCase } from "@/application/use-cases/list-organizations.use-case";
+import { OrganizationRepositoryImpl } from "@/infrastructure/database/organization.repository.impl";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { withCors } from "@/presentation/middleware/cors";
+import { withAuth, type AuthContext } from "@/presentation/middleware/auth";
+import { withRateLimit } from "@/presentation/middleware/rate-limit";
+import {
+  errorResponse,
+  successResponse,
+} from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import { CreateOrganizationSchema } from "@/presentation/validation/schemas";
+import { ValidationError } from "@/domain/errors/validation.error";
+
+async function listOrganizationsHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const organizationRepository = new OrganizationRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+
+    const listOrganizationsUseCase = new ListOrganizationsUseCase(
+      organizationRepository,
+      membershipRepository
+    );
+
+    const result = await listOrganizationsUseCase.execute({
+      userId: authContext.userId,
+    });
+
+    return successResponse({ organizations: result.organizations }, 200);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+async function createOrganizationHandler(
+  request: NextRequest,
+  authContext: AuthContext
+): Promise<Response> {
+  const context = buildRequestContext(request);
+
+  try {
+    const body = await request.json();
+
+    const validationResult = CreateOrganizationSchema.safeParse(body);
+    if (!validationResult.success) {
+      const fields = validationResult.error.errors.reduce(
+        (acc, err) => {
+          const path = err.path.join(".");
+          acc[path] = err.message;
+          return acc;
+        },
+        {} as Record<string, string>
+      );
+
+      throw new ValidationError("Invalid organization", fields);
+    }
+
+    const organizationRepository = new OrganizationRepositoryImpl();
+    const membershipRepository = new OrganizationMembershipRepositoryImpl();
+    const authEventRepository = new AuthEventRepositoryImpl();
+
+    const createOrganizationUseCase = new CreateOrganizationUseCase(
+      organizationRepository,
+      membershipRepository,
+      authEventRepository
+    );
+
+    const result = await createOrganizationUseCase.execute(
+      { userId: authContext.userId, name: validationResult.data.name },
+      context
+    );
+
+    return successResponse({ organization: result.organization }, 201);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error : new Error(String(error)),
+      context.requestId
+    );
+  }
+}
+
+export const GET = withCors(withAuth("user")(listOrganizationsHandler));
+export const POST = withCors(
+  withRateLimit(
+    10,
+    60
+  )(withAuth("user", { personalAccessToken: false })(createOrganizationHandler))
+);
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { useSearchParams } from "next/navigation";
+
+interface DeviceState {
+  status: "idle" | "submitting" | "success" | "error" | "signin_required";
+  message: string;
+}
+
+function getOrigin(): string {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hasWindow = typeof (globalThis as any).window !== "undefined";
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return hasWindow ? (globalThis as any).window.location.origin : "";
+}
+
+function getSigninUrl(): string {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hasWindow = typeof (globalThis as any).window !== "undefined";
+  const returnTo = hasWindow
+    ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (globalThis as any).window.location.href
+    : "";
+  return `https://www.ankurhalder.com/signin?returnTo=${encodeURIComponent(returnTo)}`;
+}
+
+export default function DeviceContent() {
+  const searchParams = useSearchParams();
+  const [userCode, setUserCode] = useState(searchParams.get("user_code") ?? "");
+  const [state, setState] = useState<DeviceState>({
+    status: "idle",
+    message: "",
+  });
+
+  const confirm = async (approve: boolean) => {
+    setState({ status: "submitting", message: "" });
+
+    try {
+      const originUrl = getOrigin();
+
+      const csrfResponse = await fetch(`${originUrl}/api/auth/csrf-token`, {
+        credentials: "include",
+      });
+      const { token } = (await csrfResponse.json()) as { token: string };
+
+      const response = await fetch(`${originUrl}/api/oauth/device/confirm`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": token,
+        },
+        body: JSON.stringify({ userCode, approve }),
+      });
+
+      const data: Record<string, unknown> = (await response.json()) as Record<
+        string,
+        unknown
+      >;
+
+      if (response.status === 401) {
+        setState({
+          status: "signin_required",
+          message: "Sign in first, then come back to approve this device.",
+        });
+        return;
+      }
+
+      if (!response.ok) {
+        setState({
+          status: "error",
+          message:
+            (data.error as string) ||
+            "Could not confirm this device. Please try again.",
+        });
+        return;
+      }
+
+      setState({ status: "success", message: data.message as string });
+    } catch (error: unknown) {
+      console.error("Device confirmation error:", error);
+      setState({
+        status: "error",
+        message: "An error occurred while confirming this device.",
+      });
+    }
+  };
+
+  if (state.status === "success") {
+    return (
+      <div style={styles.container}>
+        <div style={styles.card}>
+          <div style={styles.successIcon}>✓</div>
+          <h1 style={styles.heading}>All done</h1>
+          <p style={styles.text}>{state.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <h1 style={styles.heading}>Connect a device</h1>
+        <p style={styles.text}>
+          Enter the code shown on your device. Only approve it if you started
+          this sign-in yourself.
+        </p>
+
+        <input
+          style={styles.input}
+          value={userCode}
+          onChange={(event) =>
+            setUserCode((event.target as unknown as { value: string }).value)
+          }
+          placeholder="XXXX-XXXX"
+          autoComplete="off"
+          autoCapitalize="characters"
+          maxLength={9}
+        />
+
+        {state.message && <p style={styles.errorText}>{state.message}</p>}
+
+        {state.status === "signin_required" ? (
+          <div style={styles.actions}>
+            <a href={getSigninUrl()} style={styles.button}>
+              Sign In
+            </a>
+          </div>
+        ) : (
+          <div style={styles.actions}>
+            <button
+              style={styles.secondaryButton}
+              disabled={state.status === "submitting"}
+              onClick={() => confirm(false)}
+            >
+              Deny
+            </button>
+            <button
+              style={styles.button}
+              disabled={state.status === "submitting" || !userCode}
+              onClick={() => confirm(true)}
+            >
+              Approve
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles = {
+  container: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    minHeight: "100vh",
+    backgroundColor: "#f4f4f5",
+    fontFamily:
+      "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: "8px",
+    boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
+    padding: "40px",
+    textAlign: "center" as const,
+    maxWidth: "400px",
+    width: "90%",
+  },
+  heading: {
+    color: "#18181b",
+    fontSize: "24px",
+    fontWeight: "600",
+    margin: "0 0 16px 0",
+  },
+  text: {
+    color: "#71717a",
+    fontSize: "16px",
+    lineHeight: "1.6",
+    margin: "0 0 24px 0",
+  },
+  errorText: {
+    color: "#ef4444",
+    fontSize: "14px",
+    margin: "0 0 16px 0",
+  },
+  input: {
+    width: "100%",
+    boxSizing: "border-box" as const,
+    padding: "12px",
+    fontSize: "24px",
+    letterSpacing: "4px",
+    textAlign: "center" as const,
+    textTransform: "uppercase" as const,
+    border: "1px solid #e4e4e7",
+    borderRadius: "6px",
+    margin: "0 0 24px 0",
+  },
+  successIcon: {
+    width: "60px",
+    height: "60px",
+    backgroundColor: "#dcfce7",
+    color: "#22c55e",
+    fontSize: "32px",
+    borderRadius: "50%",
+    display: "flex" as const,
+    alignItems: "center" as const,
+    justifyContent: "center" as const,
+    margin: "0 auto 20px",
+    fontWeight: "bold",
+  },
+  actions: {
+    display: "flex",
+    gap: "12px",
+    justifyContent: "center" as const,
+  },
+  button: {
+    backgroundColor: "#7c3aed",
+    color: "#ffffff",
+    padding: "12px 24px",
+    borderRadius: "6px",
+    border: "none",
+    textDecoration: "none",
+    fontSize: "16px",
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+  secondaryButton: {
+    backgroundColor: "#f4f4f5",
+    color: "#18181b",
+    padding: "12px 24px",
+    borderRadius: "6px",
+    border: "1px solid #e4e4e7",
+    fontSize: "16px",
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+};
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import DeviceContent from "./content";
+
+export default function DevicePage() {
+  return (
+    <Suspense fallback={null}>
+      <DeviceContent />
+    </Suspense>
+  );
+}
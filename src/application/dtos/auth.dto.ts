@@ -30,10 +30,13 @@ export interface SigninOutputAuthenticated {
   refreshToken: string;
 }
 
+export type SecondFactorMethod = "email" | "totp" | "recovery_code";
+
 export interface SigninOutputOtpRequired {
   isAuthenticated: false;
   requiresOtp: true;
-  otpSent: true;
+  otpSent: boolean;
+  methods: SecondFactorMethod[];
   message: string;
 }
 
@@ -58,6 +61,12 @@ export interface VerifyOtpOutput {
 
 export interface RefreshTokenInput {
   refreshToken: string;
+
+  /**
+   * The OAuth client redeeming the token, or absent for a first-party
+   * refresh. Must match the client the session was issued to.
+   */
+  clientId?: string;
 }
 
 export interface RefreshTokenOutput {
@@ -0,0 +1,37 @@
+export interface OAuthTokenOutput {
+  accessToken: string;
+  tokenType: "Bearer";
+  expiresIn: number;
+  scope?: string;
+  idToken?: string;
+  refreshToken?: string;
+}
+
+export interface OAuthClientOutput {
+  clientId: string;
+  name: string;
+  confidential: boolean;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: string[];
+  createdAt: string;
+}
+
+export type IntrospectionOutput =
+  | { active: false }
+  | {
+      active: true;
+      tokenType: "access_token" | "refresh_token";
+      sub: string;
+      sessionId?: string;
+      clientId?: string;
+      scopes?: string[];
+      jti: string;
+      iat: number;
+      exp: number;
+      email?: string;
+      role?: "admin" | "user";
+      act?: { sub: string };
+      authTime?: number;
+      amr?: string[];
+    };
@@ -6,3 +6,86 @@ export interface CurrentUserOutput {
   isVerified: boolean;
   createdAt: string;
 }
+
+export interface PasskeyOutput {
+  id: string;
+  name: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface PersonalAccessTokenOutput {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface SessionOutput {
+  sessionId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  browser: string | null;
+  os: string | null;
+  device: "desktop" | "mobile" | "tablet" | "bot" | "unknown";
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+
+  /** Set while an admin is signed in as the user through impersonation. */
+  impersonated: boolean;
+}
+
+export interface AdminUserOutput {
+  id: string;
+  email: string;
+  role: "admin" | "user";
+  roles: string[];
+  tier: "free" | "pro";
+  isVerified: boolean;
+  mfaEnabled: boolean;
+  status: "active" | "suspended" | "banned";
+  statusReason: string | null;
+  suspendedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleOutput {
+  name: string;
+  description: string | null;
+  permissions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AuthEventOutput {
+  id: string;
+  eventType: string;
+  success: boolean;
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface OrganizationOutput {
+  id: string;
+  name: string;
+  role: "member" | "admin" | "owner";
+  createdAt: string;
+}
+
+export interface OrganizationMemberOutput {
+  userId: string;
+  email: string | null;
+  role: "member" | "admin" | "owner";
+  joinedAt: string;
+}
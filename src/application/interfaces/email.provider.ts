@@ -5,6 +5,19 @@ export interface IEmailProvider {
 
   sendPasswordResetEmail(to: string, token: string): Promise<void>;
 
+  sendMagicLinkEmail(to: string, token: string): Promise<void>;
+
+  /**
+   * Tells the account owner that something happened on their account that
+   * they should check, such as a replayed refresh token.
+   */
+  sendSecurityAlertEmail(to: string, alert: SecurityAlert): Promise<void>;
+
+  sendOrganizationInvitationEmail(
+    to: string,
+    invitation: OrganizationInvitation
+  ): Promise<void>;
+
   sendContactFormEmail(
     from: string,
     name: string,
@@ -12,3 +25,18 @@ export interface IEmailProvider {
     message: string
   ): Promise<void>;
 }
+
+export interface SecurityAlert {
+  summary: string;
+  ipAddress?: string;
+  userAgent?: string;
+  occurredAt: Date;
+}
+
+export interface OrganizationInvitation {
+  organizationName: string;
+  invitedBy: string;
+  role: string;
+  token: string;
+  expiresAt: Date;
+}
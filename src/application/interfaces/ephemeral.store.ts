@@ -0,0 +1,16 @@
+/**
+ * Port: Short-lived key/value storage for challenges, nonces and codes.
+ * Implemented by infrastructure/redis/ephemeral.store.impl.ts
+ */
+export interface IEphemeralStore {
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+
+  get<T>(key: string): Promise<T | null>;
+
+  /**
+   * Reads and deletes a value in one step, so it can be used at most once.
+   */
+  consume<T>(key: string): Promise<T | null>;
+
+  delete(key: string): Promise<void>;
+}
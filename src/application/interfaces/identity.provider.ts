@@ -0,0 +1,53 @@
+export interface ExternalIdentity {
+  provider: string;
+
+  subject: string;
+
+  email?: string;
+
+  emailVerified: boolean;
+
+  name?: string;
+}
+
+export interface AuthorizationUrlParams {
+  state: string;
+
+  nonce: string;
+
+  codeChallenge: string;
+
+  redirectUri: string;
+}
+
+export interface CodeExchangeParams {
+  code: string;
+
+  codeVerifier: string;
+
+  nonce: string;
+
+  redirectUri: string;
+}
+
+/**
+ * An external identity provider signing users in through the
+ * authorization-code flow with PKCE (RFC 7636).
+ */
+export interface IIdentityProvider {
+  readonly id: string;
+
+  buildAuthorizationUrl(params: AuthorizationUrlParams): string;
+
+  /**
+   * Exchanges an authorization code and returns the asserted identity.
+   * Rejects if the IdP refuses the code or its ID token fails validation.
+   */
+  exchangeCode(params: CodeExchangeParams): Promise<ExternalIdentity>;
+}
+
+export interface IIdentityProviderRegistry {
+  get(providerId: string): IIdentityProvider | null;
+
+  list(): string[];
+}
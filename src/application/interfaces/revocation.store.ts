@@ -7,6 +7,10 @@ export interface IRevocationStore {
 
   isSessionRevoked(sessionId: string): Promise<boolean>;
 
+  revokeTokenFamily(familyId: string, ttlSeconds: number): Promise<void>;
+
+  isTokenFamilyRevoked(familyId: string): Promise<boolean>;
+
   revokeAllUserSessions(userId: string, ttlSeconds: number): Promise<void>;
 
   getUserRevocationTimestamp(userId: string): Promise<number | null>;
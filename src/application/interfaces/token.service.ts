@@ -5,8 +5,55 @@ export interface AccessTokenPayload {
 
   role: "admin" | "user";
 
+  /**
+   * Permissions granted by the user's roles when the token was issued.
+   * Absent on tokens issued before permissions were introduced.
+   */
+  permissions?: string[];
+
+  /**
+   * The session's active organization, from the `org_id` claim. Absent when
+   * the user is not acting in an organization.
+   */
+  orgId?: string;
+
+  /**
+   * RFC 8693 actor claim, present when an admin is impersonating the user.
+   * `sub` is the admin's user ID.
+   */
+  act?: { sub: string };
+
+  /**
+   * When the user last actively authenticated, in seconds since the epoch
+   * (`auth_time`). Absent on tokens issued before it was recorded.
+   */
+  authTime?: number;
+
+  /**
+   * How the user authenticated at `authTime`, as RFC 8176 method references.
+   */
+  amr?: string[];
+
+  /**
+   * OAuth client the token was issued to (`client_id`). Absent on
+   * first-party tokens.
+   */
+  clientId?: string;
+
+  /**
+   * Scopes the user granted the OAuth client (`scope`). Present only with
+   * `clientId`.
+   */
+  scopes?: string[];
+
   sessionId: string;
 
+  /**
+   * Refresh token family of the session. Absent on tokens issued before
+   * families were tracked.
+   */
+  familyId?: string;
+
   jti: string;
 
   tv: number;
@@ -19,8 +66,16 @@ export interface AccessTokenPayload {
 export interface RefreshTokenPayload {
   sub: string;
 
+  /**
+   * Role at the time the session was issued. Absent on tokens issued before
+   * it was recorded.
+   */
+  role?: "admin" | "user";
+
   sessionId: string;
 
+  familyId?: string;
+
   jti: string;
 
   tv: number;
@@ -30,6 +85,24 @@ export interface RefreshTokenPayload {
   exp: number;
 }
 
+/**
+ * Claims of a `client_credentials` token. The subject is `client:<clientId>`
+ * so it can never be mistaken for a user ID, and there is no session.
+ */
+export interface MachineTokenPayload {
+  sub: string;
+
+  clientId: string;
+
+  scopes: string[];
+
+  jti: string;
+
+  iat: number;
+
+  exp: number;
+}
+
 export interface GeneratedToken {
   token: string;
 
@@ -41,19 +114,50 @@ export interface ITokenService {
     userId: string;
     email: string;
     role: "admin" | "user";
+    permissions: string[];
+    organizationId?: string;
+    impersonatorId?: string;
+    clientId?: string;
+    scopes?: string[];
+    authTime: Date;
+    amr: string[];
     sessionId: string;
+    familyId: string;
     tokenVersion: number;
   }): Promise<GeneratedToken>;
 
   generateRefreshToken(payload: {
     userId: string;
+    role: "admin" | "user";
     sessionId: string;
+    familyId: string;
     tokenVersion: number;
     ttlSeconds: number;
   }): Promise<GeneratedToken>;
 
+  /**
+   * Signs an OpenID Connect ID token for a relying party. Uses the access
+   * token key so relying parties can verify it from the published JWKS.
+   */
+  generateIdToken(payload: {
+    userId: string;
+    clientId: string;
+    email?: string;
+    emailVerified?: boolean;
+    nonce?: string;
+    authTime: Date;
+    amr: string[];
+  }): Promise<string>;
+
+  generateMachineToken(payload: {
+    clientId: string;
+    scopes: string[];
+  }): Promise<GeneratedToken>;
+
   verifyAccessToken(token: string): Promise<AccessTokenPayload | null>;
 
+  verifyMachineToken(token: string): Promise<MachineTokenPayload | null>;
+
   verifyRefreshToken(token: string): Promise<RefreshTokenPayload | null>;
 
   getJwksData(): Promise<JsonWebKeySet>;
@@ -0,0 +1,100 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type {
+  AccessTokenPayload,
+  ITokenService,
+  MachineTokenPayload,
+} from "@app/interfaces/token.service";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { TokenError } from "@domain/errors/token.error";
+import { getAccountRestrictionError } from "@app/services/account-status";
+
+export interface VerifiedAccessToken {
+  user: UserEntity;
+  payload: AccessTokenPayload;
+}
+
+/**
+ * The checks an access token must pass before it is honoured: signature,
+ * JTI, session, refresh token family and user-wide revocation, user
+ * existence, role, token version and account status. Shared by `withAuth`
+ * and token introspection so both always agree.
+ */
+export class AccessTokenVerifier {
+  constructor(
+    private readonly tokenService: ITokenService,
+    private readonly userRepository: IUserRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async verify(token: string): Promise<VerifiedAccessToken> {
+    const payload = await this.tokenService.verifyAccessToken(token);
+
+    if (
+      !payload ||
+      !payload.sub ||
+      !payload.jti ||
+      typeof payload.tv !== "number"
+    ) {
+      throw new AuthenticationError("Invalid token structure");
+    }
+
+    const [isRevoked, sessionRevoked, familyRevoked, userRevocationTs] =
+      await Promise.all([
+        this.revocationStore.isTokenRevoked(payload.jti),
+        this.revocationStore.isSessionRevoked(payload.sessionId),
+        payload.familyId
+          ? this.revocationStore.isTokenFamilyRevoked(payload.familyId)
+          : false,
+        this.revocationStore.getUserRevocationTimestamp(payload.sub),
+      ]);
+    if (
+      isRevoked ||
+      sessionRevoked ||
+      familyRevoked ||
+      (userRevocationTs !== null && payload.iat * 1000 < userRevocationTs)
+    ) {
+      throw new AuthenticationError("Token has been revoked");
+    }
+
+    const user = await this.userRepository.findById(payload.sub);
+
+    if (!user) {
+      throw new AuthenticationError("User not found");
+    }
+
+    if (user.role !== payload.role) {
+      throw new TokenError(
+        "role_drift",
+        "Your role has changed. Please sign in again."
+      );
+    }
+
+    if (user.tokenVersion !== payload.tv) {
+      throw new AuthenticationError("Token version mismatch");
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      throw restriction;
+    }
+
+    return { user, payload };
+  }
+
+  async verifyMachine(token: string): Promise<MachineTokenPayload> {
+    const payload = await this.tokenService.verifyMachineToken(token);
+
+    if (!payload) {
+      throw new AuthenticationError("Invalid token structure");
+    }
+
+    const isRevoked = await this.revocationStore.isTokenRevoked(payload.jti);
+    if (isRevoked) {
+      throw new AuthenticationError("Token has been revoked");
+    }
+
+    return payload;
+  }
+}
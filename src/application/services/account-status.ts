@@ -0,0 +1,31 @@
+import type { UserEntity } from "@domain/entities/user.entity";
+import { UserMethods } from "@domain/entities/user.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+
+/**
+ * @returns The error to raise when the account is suspended or banned, or
+ * null when it may be used.
+ */
+export function getAccountRestrictionError(
+  user: Pick<UserEntity, "status" | "statusReason" | "suspendedUntil">
+): AuthorizationError | null {
+  const status = UserMethods.getEffectiveStatus(user);
+
+  if (status === "banned") {
+    return new AuthorizationError(
+      "This account has been banned",
+      "ACCOUNT_BANNED"
+    );
+  }
+
+  if (status === "suspended") {
+    return new AuthorizationError(
+      user.suspendedUntil
+        ? `This account is suspended until ${user.suspendedUntil.toISOString()}`
+        : "This account is suspended",
+      "ACCOUNT_SUSPENDED"
+    );
+  }
+
+  return null;
+}
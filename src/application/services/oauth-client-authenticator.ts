@@ -0,0 +1,48 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { OAuthClientEntity } from "@domain/entities/oauth-client.entity";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { constantTimeEqual, sha256Hash } from "@infra/crypto/hash";
+
+export interface ClientCredentials {
+  clientId: string;
+  clientSecret?: string;
+}
+
+/**
+ * Authenticates a registered client at the token-facing endpoints.
+ * Confidential clients must present their secret; public clients must not.
+ */
+export class OAuthClientAuthenticator {
+  constructor(private readonly oauthClientRepository: IOAuthClientRepository) {}
+
+  async authenticate(
+    credentials: ClientCredentials
+  ): Promise<OAuthClientEntity> {
+    const client = await this.oauthClientRepository.findByClientId(
+      credentials.clientId
+    );
+
+    if (!client) {
+      throw new OAuthError("invalid_client", "Client authentication failed");
+    }
+
+    if (!client.clientSecretHash) {
+      if (credentials.clientSecret) {
+        throw new OAuthError("invalid_client", "Client authentication failed");
+      }
+      return client;
+    }
+
+    if (
+      !credentials.clientSecret ||
+      !constantTimeEqual(
+        sha256Hash(credentials.clientSecret),
+        client.clientSecretHash
+      )
+    ) {
+      throw new OAuthError("invalid_client", "Client authentication failed");
+    }
+
+    return client;
+  }
+}
@@ -0,0 +1,25 @@
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { UserEntity } from "@domain/entities/user.entity";
+import { BASE_ROLE_PERMISSIONS } from "@domain/entities/role.entity";
+
+/**
+ * Expands a user's built-in role and custom roles into the flat permission
+ * list carried in access tokens and checked by `withPermission`. Custom roles
+ * that no longer exist contribute nothing.
+ */
+export class PermissionResolver {
+  constructor(private readonly roleRepository: IRoleRepository) {}
+
+  async resolve(user: Pick<UserEntity, "role" | "roles">): Promise<string[]> {
+    const roles = await this.roleRepository.findByNames(user.roles ?? []);
+
+    const permissions = new Set(BASE_ROLE_PERMISSIONS[user.role]);
+    for (const role of roles) {
+      for (const permission of role.permissions) {
+        permissions.add(permission);
+      }
+    }
+
+    return [...permissions].sort();
+  }
+}
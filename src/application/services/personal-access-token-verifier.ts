@@ -0,0 +1,88 @@
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { PersonalAccessTokenEntity } from "@domain/entities/personal-access-token.entity";
+import { PersonalAccessTokenMethods } from "@domain/entities/personal-access-token.entity";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { sha256Hash } from "@infra/crypto/hash";
+
+/**
+ * Last-used timestamps are only rewritten once per interval so a busy script
+ * does not turn every request into a database write.
+ */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface VerifiedPersonalAccessToken {
+  user: UserEntity;
+  personalAccessToken: PersonalAccessTokenEntity;
+}
+
+export class PersonalAccessTokenVerifier {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async verify(
+    token: string,
+    ctx: RequestContext
+  ): Promise<VerifiedPersonalAccessToken> {
+    const personalAccessToken =
+      await this.personalAccessTokenRepository.findByTokenHash(
+        sha256Hash(token)
+      );
+
+    if (!personalAccessToken) {
+      throw new AuthenticationError("Invalid access token");
+    }
+
+    if (!PersonalAccessTokenMethods.isActive(personalAccessToken)) {
+      const reason = personalAccessToken.revokedAt ? "revoked" : "expired";
+
+      void this.authEventRepository.create({
+        eventType: "PERSONAL_ACCESS_TOKEN_REJECTED",
+        userId: personalAccessToken.userId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: reason,
+        metadata: {
+          tokenId: personalAccessToken.id,
+          tokenPrefix: personalAccessToken.tokenPrefix,
+        },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+
+      throw new AuthenticationError(
+        reason === "revoked"
+          ? "Access token has been revoked"
+          : "Access token has expired"
+      );
+    }
+
+    const user = await this.userRepository.findById(personalAccessToken.userId);
+
+    if (!user) {
+      throw new AuthenticationError("User not found");
+    }
+
+    const now = new Date();
+    if (
+      !personalAccessToken.lastUsedAt ||
+      now.getTime() - personalAccessToken.lastUsedAt.getTime() >
+        LAST_USED_WRITE_INTERVAL_MS
+    ) {
+      void this.personalAccessTokenRepository.updateLastUsed(
+        personalAccessToken.id,
+        now
+      );
+    }
+
+    return { user, personalAccessToken };
+  }
+}
@@ -0,0 +1,84 @@
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import { sealWithSecret, unsealWithSecret } from "@infra/crypto/seal";
+
+const PENDING_POLL_INTERVAL_MS = 100;
+const PENDING_POLL_ATTEMPTS = 10;
+
+export interface RotatedTokenPair {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+type GraceEntry = { status: "pending" } | { status: "ready"; sealed: string };
+
+export function refreshGraceKey(oldRefreshTokenHash: string): string {
+  return `refresh:grace:${oldRefreshTokenHash}`;
+}
+
+/**
+ * Remembers the token pair a refresh token was just rotated into, so a
+ * concurrent request presenting the same token (another browser tab) gets
+ * that pair back instead of being logged out. Entries live only for the
+ * grace period; after that a replay is treated as reuse.
+ *
+ * The pair is sealed with the old refresh token, so the cache alone never
+ * yields usable tokens.
+ */
+export class RefreshGraceCache {
+  constructor(
+    private readonly ephemeralStore: IEphemeralStore,
+    private readonly gracePeriodSeconds: number
+  ) {}
+
+  /**
+   * Claims the old token as being rotated, so concurrent requests wait for
+   * the result rather than racing into reuse detection.
+   */
+  async markPending(oldRefreshTokenHash: string): Promise<void> {
+    await this.ephemeralStore.set<GraceEntry>(
+      refreshGraceKey(oldRefreshTokenHash),
+      { status: "pending" },
+      this.gracePeriodSeconds
+    );
+  }
+
+  async save(
+    oldRefreshToken: string,
+    oldRefreshTokenHash: string,
+    pair: RotatedTokenPair
+  ): Promise<void> {
+    await this.ephemeralStore.set<GraceEntry>(
+      refreshGraceKey(oldRefreshTokenHash),
+      {
+        status: "ready",
+        sealed: sealWithSecret(JSON.stringify(pair), oldRefreshToken),
+      },
+      this.gracePeriodSeconds
+    );
+  }
+
+  async find(
+    oldRefreshToken: string,
+    oldRefreshTokenHash: string
+  ): Promise<RotatedTokenPair | null> {
+    const key = refreshGraceKey(oldRefreshTokenHash);
+    let entry = await this.ephemeralStore.get<GraceEntry>(key);
+
+    for (
+      let attempt = 0;
+      entry?.status === "pending" && attempt < PENDING_POLL_ATTEMPTS;
+      attempt++
+    ) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, PENDING_POLL_INTERVAL_MS)
+      );
+      entry = await this.ephemeralStore.get<GraceEntry>(key);
+    }
+
+    if (entry?.status !== "ready") return null;
+
+    const unsealed = unsealWithSecret(entry.sealed, oldRefreshToken);
+    return unsealed ? (JSON.parse(unsealed) as RotatedTokenPair) : null;
+  }
+}
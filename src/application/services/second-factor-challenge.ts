@@ -0,0 +1,111 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type {
+  RequestContext,
+  SecondFactorMethod,
+  SigninOutputOtpRequired,
+} from "@app/dtos/auth.dto";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import {
+  generateOtp,
+  encryptOtp,
+  OTP_EXPIRY_MS,
+} from "@infra/crypto/otp.service";
+import { checkOtpRateLimit } from "@infra/redis/otp-rate-limiter";
+
+/**
+ * Opens the pending second-factor challenge that `VerifyOtpUseCase`
+ * completes, for users whose first factor has already been checked. The
+ * first factor is stored with it so the session records both.
+ */
+export class SecondFactorChallenge {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly emailProvider: IEmailProvider
+  ) {}
+
+  async start(
+    user: UserEntity,
+    firstFactor: AuthMethod,
+    ctx: RequestContext
+  ): Promise<SigninOutputOtpRequired> {
+    const otpLimit = await checkOtpRateLimit(user.id);
+    if (!otpLimit.allowed) {
+      void this.authEventRepository.create({
+        eventType: "OTP_SENT",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: `otp_rate_limited:${otpLimit.retryAfterSeconds}s`,
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError(
+        `Too many OTP requests. Please try again in ${otpLimit.retryAfterSeconds} seconds.`
+      );
+    }
+
+    const plainOtp = generateOtp();
+    const encryptedOtp = encryptOtp(plainOtp);
+    const otpExpiry = new Date(Date.now() + OTP_EXPIRY_MS);
+
+    await this.userRepository.updateOtp(user.id, {
+      otpSecret: encryptedOtp,
+      otpExpiry,
+      otpAttempts: 0,
+      otpFirstFactor: firstFactor,
+    });
+
+    const fallbackMethods: SecondFactorMethod[] =
+      UserMethods.remainingRecoveryCodes(user) > 0 ? ["recovery_code"] : [];
+
+    // Users with an authenticator app are not emailed: the stored OTP still
+    // marks the pending challenge (expiry + attempts) that verify-otp checks.
+    if (UserMethods.hasTotp(user)) {
+      return {
+        isAuthenticated: false,
+        requiresOtp: true,
+        otpSent: false,
+        methods: ["totp", ...fallbackMethods],
+        message: "Enter the code from your authenticator app",
+      };
+    }
+
+    this.emailProvider
+      .sendOtpEmail(user.email, plainOtp)
+      .catch((error: unknown) => {
+        console.error(
+          `[SecondFactorChallenge] Failed to send OTP email to ${user.email}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      });
+
+    void this.authEventRepository.create({
+      eventType: "OTP_SENT",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      isAuthenticated: false,
+      requiresOtp: true,
+      otpSent: true,
+      methods: ["email", ...fallbackMethods],
+      message: "Verification code sent to your email",
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { SessionLimiter } from "@app/services/session-limiter";
+import type { PermissionResolver } from "@app/services/permission-resolver";
+import { sha256Hash } from "@infra/crypto/hash";
+import { resolveSessionPolicy } from "@infra/config/session-policies";
+
+export const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const REMEMBER_ME_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface IssuedSession {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface IssuedAccessToken {
+  sessionId: string;
+  accessToken: string;
+}
+
+export interface SessionAuthentication {
+  methods: AuthMethod[];
+
+  /**
+   * When the user last actively authenticated. Defaults to now; sessions
+   * derived from an existing one carry the original time forward.
+   */
+  authenticatedAt?: Date;
+}
+
+export interface SessionIssueOptions {
+  /** OAuth client the tokens are issued to. */
+  clientId?: string;
+
+  /** Scopes the user granted that client. */
+  scopes?: string[];
+}
+
+type IssuableUser = Pick<
+  UserEntity,
+  "id" | "email" | "role" | "roles" | "tier" | "tokenVersion"
+>;
+
+/**
+ * Creates a session and its access/refresh token pair for a user who has
+ * completed every step of sign-in.
+ */
+export class SessionIssuer {
+  constructor(
+    private readonly sessionRepository: ISessionRepository,
+    private readonly tokenService: ITokenService,
+    private readonly sessionLimiter: SessionLimiter,
+    private readonly permissionResolver: PermissionResolver
+  ) {}
+
+  async issue(
+    user: IssuableUser,
+    requestedTtlSeconds: number,
+    ctx: RequestContext,
+    authentication: SessionAuthentication,
+    options: SessionIssueOptions = {}
+  ): Promise<IssuedSession> {
+    await this.sessionLimiter.makeRoom(user, ctx);
+
+    const sessionId = uuidv4();
+    const ttlSeconds = Math.min(
+      requestedTtlSeconds,
+      resolveSessionPolicy(user).absoluteLifetimeSeconds
+    );
+    const authenticatedAt = authentication.authenticatedAt ?? new Date();
+
+    const [accessToken, refreshResult] = await Promise.all([
+      this.generateAccessToken(
+        user,
+        sessionId,
+        { ...authentication, authenticatedAt },
+        options
+      ),
+      this.tokenService.generateRefreshToken({
+        userId: user.id,
+        role: user.role,
+        sessionId,
+        familyId: sessionId,
+        tokenVersion: user.tokenVersion,
+        ttlSeconds,
+      }),
+    ]);
+
+    const refreshTokenHash = sha256Hash(refreshResult.token);
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    await this.sessionRepository.create({
+      sessionId,
+      userId: user.id,
+      refreshTokenHash,
+      familyId: sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      expiresAt,
+      authenticatedAt,
+      authMethods: authentication.methods,
+      clientId: options.clientId,
+      scopes: options.scopes,
+      lastUsedAt: new Date(),
+    });
+
+    return {
+      sessionId,
+      accessToken,
+      refreshToken: refreshResult.token,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Issues an access token with no session behind it, for OAuth grants that
+   * return no refresh token. Nothing is stored, so it does not count towards
+   * the user's session cap and simply lapses when the token expires.
+   */
+  async issueAccessToken(
+    user: IssuableUser,
+    authentication: SessionAuthentication,
+    options: SessionIssueOptions = {}
+  ): Promise<IssuedAccessToken> {
+    const sessionId = uuidv4();
+
+    const accessToken = await this.generateAccessToken(
+      user,
+      sessionId,
+      {
+        ...authentication,
+        authenticatedAt: authentication.authenticatedAt ?? new Date(),
+      },
+      options
+    );
+
+    return { sessionId, accessToken };
+  }
+
+  private async generateAccessToken(
+    user: IssuableUser,
+    sessionId: string,
+    authentication: Required<SessionAuthentication>,
+    options: SessionIssueOptions
+  ): Promise<string> {
+    const permissions = await this.permissionResolver.resolve(user);
+
+    const { token } = await this.tokenService.generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions,
+      authTime: authentication.authenticatedAt,
+      amr: authentication.methods,
+      clientId: options.clientId,
+      scopes: options.scopes,
+      sessionId,
+      familyId: sessionId,
+      tokenVersion: user.tokenVersion,
+    });
+
+    return token;
+  }
+}
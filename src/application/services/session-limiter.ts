@@ -0,0 +1,105 @@
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { SessionMethods } from "@domain/entities/session.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { resolveSessionLimit } from "@infra/config/session-limits";
+
+const SESSION_REVOCATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionLimitOptions {
+  /**
+   * Set when an existing session is being rotated rather than a new device
+   * signing in. Rotation is never rejected; it only evicts, and only under
+   * the evict_oldest action.
+   */
+  rotation?: boolean;
+}
+
+/**
+ * Keeps a user within their tier's concurrent session cap before a session
+ * is created, either by evicting the least recently used sessions or by
+ * refusing the new sign-in.
+ */
+export class SessionLimiter {
+  constructor(
+    private readonly sessionRepository: ISessionRepository,
+    private readonly revocationStore: IRevocationStore,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async makeRoom(
+    user: Pick<UserEntity, "id" | "email" | "tier">,
+    ctx: RequestContext,
+    options: SessionLimitOptions = {}
+  ): Promise<void> {
+    const limit = resolveSessionLimit(user);
+    if (!limit) return;
+
+    // Admin impersonation sessions are not the user's own devices.
+    const sessions = (
+      await this.sessionRepository.findByUserId(user.id)
+    ).filter((session) => !SessionMethods.isImpersonated(session));
+    const excess = sessions.length - limit.maxSessions + 1;
+    if (excess <= 0) return;
+
+    if (limit.action === "reject") {
+      if (options.rotation) return;
+
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "session_limit_reached",
+        metadata: {
+          activeSessions: sessions.length,
+          maxSessions: limit.maxSessions,
+        },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+
+      throw new ConflictError(
+        `Active session limit of ${limit.maxSessions} reached. Sign out of another device to continue.`
+      );
+    }
+
+    const evicted = [...sessions]
+      .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+      .slice(0, excess);
+
+    await Promise.all(
+      evicted.map(async (session) => {
+        await this.revocationStore.revokeSession(
+          session.sessionId,
+          SESSION_REVOCATION_TTL_SECONDS
+        );
+        await this.sessionRepository.delete(session.sessionId);
+
+        void this.authEventRepository.create({
+          eventType: "SESSION_REVOKED",
+          userId: user.id,
+          email: user.email,
+          sessionId: session.sessionId,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
+          timestamp: new Date(),
+          success: true,
+          metadata: {
+            reason: "session_limit_eviction",
+            maxSessions: limit.maxSessions,
+            lastUsedAt: session.lastUsedAt.toISOString(),
+          },
+          serviceId: "auth-service",
+          requestId: ctx.requestId,
+        });
+      })
+    );
+  }
+}
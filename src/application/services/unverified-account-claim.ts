@@ -0,0 +1,55 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { UserEntity } from "@domain/entities/user.entity";
+import { UserMethods } from "@domain/entities/user.entity";
+import { hashPassword } from "@infra/crypto/password.service";
+import { generateRandomToken } from "@infra/crypto/hash";
+
+/**
+ * Verifies an account on behalf of someone who has just proved control of
+ * its email address another way, such as a magic link or an IdP-verified
+ * email. Whoever registered the account never proved that, so the password
+ * they chose is replaced and their sessions are ended before the account is
+ * handed over.
+ */
+export class UnverifiedAccountClaim {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository
+  ) {}
+
+  /** @returns The user as updated, ready to issue a session for. */
+  async claim(user: UserEntity): Promise<UserEntity> {
+    // The new owner can set a real password through the reset flow.
+    const hashedPassword = await hashPassword(generateRandomToken(32));
+    const tokenVersion = UserMethods.incrementTokenVersion(user);
+
+    await this.userRepository.updatePassword(
+      user.id,
+      hashedPassword,
+      tokenVersion
+    );
+
+    await this.userRepository.updateVerification(user.id, {
+      isVerified: true,
+      verificationToken: null,
+      verificationTokenHash: null,
+      verificationTokenExpiry: null,
+    });
+
+    // The token version bump already rejects every outstanding token. A
+    // user-wide revocation timestamp is not set, as it would also reject the
+    // session about to be issued.
+    await this.sessionRepository.deleteAllForUser(user.id);
+
+    return {
+      ...user,
+      hashedPassword,
+      tokenVersion,
+      isVerified: true,
+      verificationToken: undefined,
+      verificationTokenHash: undefined,
+      verificationTokenExpiry: undefined,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+export type DeviceType = "desktop" | "mobile" | "tablet" | "bot" | "unknown";
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  device: DeviceType;
+}
+
+/**
+ * Ordered so that more specific products win: Edge and Opera also claim to
+ * be Chrome, and Chrome claims to be Safari.
+ */
+const BROWSERS: Array<[name: string, pattern: RegExp]> = [
+  ["Edge", /\bEdg(?:e|A|iOS)?\/([\d.]+)/],
+  ["Opera", /\b(?:OPR|Opera)\/([\d.]+)/],
+  ["Samsung Internet", /\bSamsungBrowser\/([\d.]+)/],
+  ["Firefox", /\b(?:Firefox|FxiOS)\/([\d.]+)/],
+  ["Chrome", /\b(?:Chrome|CriOS)\/([\d.]+)/],
+  ["Safari", /\bVersion\/([\d.]+).*\bSafari\//],
+];
+
+const OPERATING_SYSTEMS: Array<[name: string, pattern: RegExp]> = [
+  ["iOS", /\b(?:iPhone|iPad|iPod)\b/],
+  ["Android", /\bAndroid\b/],
+  ["ChromeOS", /\bCrOS\b/],
+  ["Windows", /\bWindows\b/],
+  ["macOS", /\bMac OS X\b/],
+  ["Linux", /\bLinux\b/],
+];
+
+function detectDevice(userAgent: string): DeviceType {
+  if (/bot|crawler|spider|curl|wget|python-requests/i.test(userAgent)) {
+    return "bot";
+  }
+  if (/\biPad\b|\bTablet\b|\bAndroid\b(?!.*\bMobile\b)/.test(userAgent)) {
+    return "tablet";
+  }
+  if (/\bMobile\b|\biPhone\b|\biPod\b/.test(userAgent)) return "mobile";
+  if (/\b(?:Windows|Macintosh|X11|CrOS)\b/.test(userAgent)) return "desktop";
+  return "unknown";
+}
+
+/**
+ * A deliberately small parser for showing people which of their devices a
+ * session belongs to. Good enough for mainstream browsers; anything else is
+ * reported as unknown rather than guessed.
+ */
+export function parseUserAgent(userAgent?: string): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, os: null, device: "unknown" };
+  }
+
+  let browser: string | null = null;
+  for (const [name, pattern] of BROWSERS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      browser = `${name} ${match[1]!.split(".")[0]}`;
+      break;
+    }
+  }
+
+  const os =
+    OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0] ??
+    null;
+
+  return { browser, os, device: detectDevice(userAgent) };
+}
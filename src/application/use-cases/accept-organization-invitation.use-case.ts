@@ -0,0 +1,117 @@
+import type { IOrganizationRepository } from "@domain/repositories/organization.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IOrganizationInvitationRepository } from "@domain/repositories/organization-invitation.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OrganizationOutput } from "@app/dtos/user.dto";
+import { OrganizationInvitationMethods } from "@domain/entities/organization-invitation.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { TokenError } from "@domain/errors/token.error";
+import { sha256Hash } from "@infra/crypto/hash";
+import { toOrganizationOutput } from "@app/use-cases/list-organizations.use-case";
+
+export interface AcceptOrganizationInvitationInput {
+  userId: string;
+  token: string;
+}
+
+export interface AcceptOrganizationInvitationOutput {
+  organization: OrganizationOutput;
+}
+
+/**
+ * Adds the signed-in user to the organization an invitation was sent for.
+ * The invitation must be addressed to the user's email.
+ */
+export class AcceptOrganizationInvitationUseCase {
+  constructor(
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly invitationRepository: IOrganizationInvitationRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: AcceptOrganizationInvitationInput,
+    ctx: RequestContext
+  ): Promise<AcceptOrganizationInvitationOutput> {
+    const invitation = await this.invitationRepository.findByTokenHash(
+      sha256Hash(input.token)
+    );
+
+    if (!invitation || invitation.acceptedAt) {
+      throw new TokenError(
+        "invalid_signature",
+        "Invalid or expired invitation link"
+      );
+    }
+
+    if (OrganizationInvitationMethods.isExpired(invitation)) {
+      throw new TokenError(
+        "expired",
+        "Invitation has expired. Please ask for a new one."
+      );
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      throw new AuthorizationError(
+        "This invitation was sent to a different email address"
+      );
+    }
+
+    const organization = await this.organizationRepository.findById(
+      invitation.organizationId
+    );
+    if (!organization) {
+      throw new NotFoundError("Organization not found");
+    }
+
+    // Checked before the invitation is used up, so it is not spent on a
+    // membership that already exists.
+    if (await this.membershipRepository.find(organization.id, user.id)) {
+      throw new ConflictError("You are already a member of this organization");
+    }
+
+    if (!(await this.invitationRepository.markAccepted(invitation.id))) {
+      throw new TokenError(
+        "invalid_signature",
+        "Invalid or expired invitation link"
+      );
+    }
+
+    const membership = await this.membershipRepository.create({
+      organizationId: organization.id,
+      userId: user.id,
+      role: invitation.role,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ORGANIZATION_INVITATION_ACCEPTED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        organizationId: organization.id,
+        invitationId: invitation.id,
+        invitedBy: invitation.invitedBy,
+        role: membership.role,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { organization: toOrganizationOutput(organization, membership) };
+  }
+}
@@ -0,0 +1,210 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import { OAuthError, type OAuthErrorCode } from "@domain/errors/oauth.error";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+
+export interface AuthorizeClientInput {
+  clientId: string;
+  redirectUri: string;
+  responseType: string;
+  scope: string;
+  state?: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  maxAge?: number;
+  prompt?: string;
+  issuer: string;
+
+  /**
+   * The signed-in user's session, when the browser presented a valid
+   * access token; null otherwise.
+   */
+  session: { userId: string; sessionId: string } | null;
+}
+
+export type AuthorizeClientOutput =
+  { status: "redirect"; redirectUrl: string } | { status: "login_required" };
+
+export interface AuthorizationCodeGrant {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scopes: string[];
+  nonce?: string;
+  codeChallenge: string;
+  authTime: number;
+  amr: AuthMethod[];
+}
+
+export const AUTHORIZATION_CODE_TTL_SECONDS = 60;
+
+export function authorizationCodeKey(code: string): string {
+  return `oidc:code:${sha256Hash(code)}`;
+}
+
+export class AuthorizeClientUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: AuthorizeClientInput,
+    ctx: RequestContext
+  ): Promise<AuthorizeClientOutput> {
+    const client = await this.oauthClientRepository.findByClientId(
+      input.clientId
+    );
+
+    // Errors before the redirect URI is trusted must not redirect back to it.
+    if (!client) {
+      throw new OAuthError("invalid_request", "Unknown client_id");
+    }
+
+    if (!OAuthClientMethods.allowsRedirectUri(client, input.redirectUri)) {
+      throw new OAuthError(
+        "invalid_request",
+        "redirect_uri is not registered for this client"
+      );
+    }
+
+    const redirectWithError = (
+      error: OAuthErrorCode,
+      description: string
+    ): AuthorizeClientOutput => ({
+      status: "redirect",
+      redirectUrl: this.buildRedirectUrl(input.redirectUri, {
+        error,
+        error_description: description,
+        state: input.state,
+      }),
+    });
+
+    if (!OAuthClientMethods.allowsGrant(client, "authorization_code")) {
+      return redirectWithError(
+        "unauthorized_client",
+        "Client is not allowed to use the authorization code flow"
+      );
+    }
+
+    if (input.responseType !== "code") {
+      return redirectWithError(
+        "unsupported_response_type",
+        "Only the authorization code flow is supported"
+      );
+    }
+
+    const scopes = input.scope.split(" ").filter(Boolean);
+
+    if (!scopes.includes("openid")) {
+      return redirectWithError("invalid_scope", "The openid scope is required");
+    }
+
+    if (!OAuthClientMethods.allowsScopes(client, scopes)) {
+      return redirectWithError(
+        "invalid_scope",
+        "One or more scopes are not allowed for this client"
+      );
+    }
+
+    if (!input.codeChallenge || input.codeChallengeMethod !== "S256") {
+      return redirectWithError(
+        "invalid_request",
+        "PKCE with code_challenge_method=S256 is required"
+      );
+    }
+
+    if (
+      input.maxAge !== undefined &&
+      (!Number.isInteger(input.maxAge) || input.maxAge < 0)
+    ) {
+      return redirectWithError(
+        "invalid_request",
+        "max_age must be a non-negative integer"
+      );
+    }
+
+    const session = input.session
+      ? await this.sessionRepository.findBySessionId(input.session.sessionId)
+      : null;
+
+    const authTime =
+      session && session.userId === input.session?.userId
+        ? (session.authenticatedAt ?? session.createdAt)
+        : null;
+
+    const needsLogin =
+      !session ||
+      !authTime ||
+      (input.maxAge !== undefined &&
+        Date.now() - authTime.getTime() > input.maxAge * 1000);
+
+    if (needsLogin) {
+      if (input.prompt === "none") {
+        return redirectWithError(
+          "login_required",
+          "The user must sign in again"
+        );
+      }
+      return { status: "login_required" };
+    }
+
+    const code = generateRandomToken(32);
+
+    await this.ephemeralStore.set<AuthorizationCodeGrant>(
+      authorizationCodeKey(code),
+      {
+        clientId: client.clientId,
+        userId: session.userId,
+        redirectUri: input.redirectUri,
+        scopes,
+        nonce: input.nonce,
+        codeChallenge: input.codeChallenge,
+        authTime: authTime.getTime(),
+        amr: session.authMethods ?? ["pwd"],
+      },
+      AUTHORIZATION_CODE_TTL_SECONDS
+    );
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_AUTHORIZATION_GRANTED",
+      userId: session.userId,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId: client.clientId, scopes },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      status: "redirect",
+      redirectUrl: this.buildRedirectUrl(input.redirectUri, {
+        code,
+        state: input.state,
+        iss: input.issuer,
+      }),
+    };
+  }
+
+  private buildRedirectUrl(
+    redirectUri: string,
+    params: Record<string, string | undefined>
+  ): string {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+}
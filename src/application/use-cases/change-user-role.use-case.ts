@@ -0,0 +1,95 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { UserEntity } from "@domain/entities/user.entity";
+import { UserMethods } from "@domain/entities/user.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+const USER_REVOCATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface ChangeUserRoleInput {
+  adminUserId: string;
+  userId: string;
+  role: UserEntity["role"];
+}
+
+export interface ChangeUserRoleOutput {
+  success: true;
+  message: string;
+  role: UserEntity["role"];
+  sessionsRevoked: number;
+}
+
+/**
+ * Promotes or demotes a user. The token version is bumped alongside the
+ * role and every session is revoked, so the user signs in again and picks
+ * up tokens carrying the new role.
+ */
+export class ChangeUserRoleUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: ChangeUserRoleInput,
+    ctx: RequestContext
+  ): Promise<ChangeUserRoleOutput> {
+    if (input.userId === input.adminUserId) {
+      throw new AuthorizationError("Admins cannot change their own role");
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.role === input.role) {
+      throw new ConflictError(`User already has the ${input.role} role`);
+    }
+
+    const newTokenVersion = UserMethods.incrementTokenVersion(user);
+    await this.userRepository.updateRole(user.id, input.role, newTokenVersion);
+
+    await this.revocationStore.revokeAllUserSessions(
+      user.id,
+      USER_REVOCATION_TTL_SECONDS
+    );
+
+    const sessionsRevoked = await this.sessionRepository.deleteAllForUser(
+      user.id
+    );
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_ROLE_CHANGED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        previousRole: user.role,
+        newRole: input.role,
+        sessionsDeleted: sessionsRevoked,
+        newTokenVersion,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: `User role changed to ${input.role}`,
+      role: input.role,
+      sessionsRevoked,
+    };
+  }
+}
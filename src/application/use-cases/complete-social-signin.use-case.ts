@@ -0,0 +1,312 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ILinkedIdentityRepository } from "@domain/repositories/linked-identity.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type {
+  ExternalIdentity,
+  IIdentityProviderRegistry,
+} from "@app/interfaces/identity.provider";
+import type {
+  RequestContext,
+  SigninOutputAuthenticated,
+  SigninOutputOtpRequired,
+} from "@app/dtos/auth.dto";
+import type { UserEntity } from "@domain/entities/user.entity";
+import { UserMethods } from "@domain/entities/user.entity";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { hashPassword } from "@infra/crypto/password.service";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+import { encryptOtp } from "@infra/crypto/otp.service";
+import {
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+  REMEMBER_ME_SESSION_TTL_SECONDS,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { SecondFactorChallenge } from "@app/services/second-factor-challenge";
+import { UnverifiedAccountClaim } from "@app/services/unverified-account-claim";
+import { socialSigninStateKey } from "@app/use-cases/start-social-signin.use-case";
+import type { SocialSigninState } from "@app/use-cases/start-social-signin.use-case";
+
+export interface CompleteSocialSigninInput {
+  provider: string;
+  code: string;
+  state: string;
+}
+
+export type CompleteSocialSigninOutput = (
+  SigninOutputAuthenticated | (SigninOutputOtpRequired & { email: string })
+) & { rememberMe: boolean };
+
+export class CompleteSocialSigninUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly identityRepository: ILinkedIdentityRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly emailProvider: IEmailProvider,
+    private readonly providerRegistry: IIdentityProviderRegistry,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: CompleteSocialSigninInput,
+    ctx: RequestContext
+  ): Promise<CompleteSocialSigninOutput> {
+    const pending = await this.ephemeralStore.consume<SocialSigninState>(
+      socialSigninStateKey(input.state)
+    );
+    const provider = this.providerRegistry.get(input.provider);
+
+    if (!pending || !provider || pending.provider !== provider.id) {
+      throw new AuthenticationError(
+        "Sign-in request expired or is invalid. Please try again."
+      );
+    }
+
+    const identity = await provider.exchangeCode({
+      code: input.code,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+      redirectUri: pending.redirectUri,
+    });
+
+    const user = await this.resolveUser(identity, ctx);
+
+    if (!user.isVerified) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "email_not_verified",
+        metadata: { method: "oauth", provider: identity.provider },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new ValidationError(
+        "Please verify your email address before signing in"
+      );
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        metadata: { method: "oauth", provider: identity.provider },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
+    const rememberMe = pending.rememberMe;
+
+    if (UserMethods.requiresSecondFactor(user)) {
+      const challenge = await new SecondFactorChallenge(
+        this.userRepository,
+        this.authEventRepository,
+        this.emailProvider
+      ).start(user, "fed", ctx);
+
+      return { ...challenge, email: user.email, rememberMe };
+    }
+
+    const ttlSeconds = rememberMe
+      ? REMEMBER_ME_SESSION_TTL_SECONDS
+      : DEFAULT_SESSION_TTL_SECONDS;
+
+    const session = await new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    ).issue(user, ttlSeconds, ctx, { methods: ["fed"] });
+
+    void this.authEventRepository.create({
+      eventType: "SIGNIN",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { rememberMe, method: "oauth", provider: identity.provider },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      isAuthenticated: true,
+      requiresOtp: false,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        tier: user.tier,
+      },
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+    };
+  }
+
+  /**
+   * Finds the user behind an external identity. An unknown identity is linked
+   * to the account with the same email only when the IdP has verified that
+   * email; otherwise a new account is created. Linking to an unverified
+   * account takes it over from whoever registered it.
+   */
+  private async resolveUser(
+    identity: ExternalIdentity,
+    ctx: RequestContext
+  ): Promise<UserEntity> {
+    const linked = await this.identityRepository.findByProviderSubject(
+      identity.provider,
+      identity.subject
+    );
+
+    if (linked) {
+      const user = await this.userRepository.findById(linked.userId);
+      if (!user) {
+        throw new AuthenticationError("Invalid credentials");
+      }
+      await this.identityRepository.updateLastUsed(linked.id, new Date());
+      return user;
+    }
+
+    if (!identity.email) {
+      throw new ValidationError(
+        `Your ${identity.provider} account does not share an email address`
+      );
+    }
+
+    const existing = await this.userRepository.findByEmail(identity.email);
+
+    if (existing && !identity.emailVerified) {
+      throw new ConflictError(
+        "An account with this email already exists. Sign in with your password to continue."
+      );
+    }
+
+    let user = existing ?? (await this.createUser(identity, ctx));
+
+    if (existing && !existing.isVerified) {
+      user = await new UnverifiedAccountClaim(
+        this.userRepository,
+        this.sessionRepository
+      ).claim(existing);
+    }
+
+    await this.identityRepository.create({
+      userId: user.id,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      lastUsedAt: new Date(),
+    });
+
+    void this.authEventRepository.create({
+      eventType: "IDENTITY_LINKED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        provider: identity.provider,
+        newUser: !existing,
+        credentialsReset: existing ? !existing.isVerified : false,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return user;
+  }
+
+  private async createUser(
+    identity: ExternalIdentity,
+    ctx: RequestContext
+  ): Promise<UserEntity> {
+    // Social accounts start without a usable password; one can be set later
+    // through the password reset flow.
+    const hashedPassword = await hashPassword(generateRandomToken(32));
+
+    const rawVerificationToken = identity.emailVerified
+      ? null
+      : generateRandomToken(32);
+
+    const user = await this.userRepository.create({
+      email: identity.email!,
+      hashedPassword,
+      role: "user",
+      isVerified: identity.emailVerified,
+      tokenVersion: 0,
+      tier: "free",
+      ...(rawVerificationToken && {
+        verificationToken: encryptOtp(rawVerificationToken),
+        verificationTokenHash: sha256Hash(rawVerificationToken),
+        verificationTokenExpiry: new Date(Date.now() + 60 * 60 * 1000),
+      }),
+    });
+
+    if (rawVerificationToken) {
+      this.emailProvider
+        .sendVerificationEmail(user.email, rawVerificationToken)
+        .catch((error: unknown) => {
+          console.error(
+            `[CompleteSocialSigninUseCase] Failed to send verification email to ${user.email}:`,
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        });
+    }
+
+    void this.authEventRepository.create({
+      eventType: "SIGNUP",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        method: "oauth",
+        provider: identity.provider,
+        emailVerified: identity.emailVerified,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return user;
+  }
+}
@@ -0,0 +1,103 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import {
+  deviceUserCodeKey,
+  saveDeviceAuthorization,
+  type DeviceAuthorization,
+} from "@app/use-cases/start-device-authorization.use-case";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { normalizeUserCode } from "@infra/crypto/user-code";
+
+export interface ConfirmDeviceAuthorizationInput {
+  userId: string;
+  sessionId: string;
+  userCode: string;
+  approve: boolean;
+}
+
+export interface ConfirmDeviceAuthorizationOutput {
+  success: true;
+  message: string;
+  clientName: string;
+}
+
+export class ConfirmDeviceAuthorizationUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: ConfirmDeviceAuthorizationInput,
+    ctx: RequestContext
+  ): Promise<ConfirmDeviceAuthorizationOutput> {
+    // Consuming the user code makes it single-use, even if the device
+    // authorization itself lives on until the device polls.
+    const deviceKey = await this.ephemeralStore.consume<string>(
+      deviceUserCodeKey(normalizeUserCode(input.userCode))
+    );
+
+    const authorization = deviceKey
+      ? await this.ephemeralStore.get<DeviceAuthorization>(deviceKey)
+      : null;
+
+    if (!deviceKey || !authorization || authorization.status !== "pending") {
+      throw new NotFoundError("Invalid or expired code");
+    }
+
+    const [client, session] = await Promise.all([
+      this.oauthClientRepository.findByClientId(authorization.clientId),
+      this.sessionRepository.findBySessionId(input.sessionId),
+    ]);
+
+    if (!client) {
+      throw new NotFoundError("Invalid or expired code");
+    }
+
+    await saveDeviceAuthorization(
+      this.ephemeralStore,
+      deviceKey,
+      input.approve
+        ? {
+            ...authorization,
+            status: "approved",
+            userId: input.userId,
+            authTime: (
+              session?.authenticatedAt ??
+              session?.createdAt ??
+              new Date()
+            ).getTime(),
+            amr: session?.authMethods ?? ["pwd"],
+          }
+        : { ...authorization, status: "denied" }
+    );
+
+    void this.authEventRepository.create({
+      eventType: input.approve
+        ? "DEVICE_AUTHORIZATION_APPROVED"
+        : "DEVICE_AUTHORIZATION_DENIED",
+      userId: input.userId,
+      sessionId: input.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId: client.clientId, scopes: authorization.scopes },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: input.approve
+        ? "Device approved. You can return to your device."
+        : "Device sign-in denied.",
+      clientName: client.name,
+    };
+  }
+}
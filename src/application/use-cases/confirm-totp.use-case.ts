@@ -0,0 +1,107 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { decryptOtp } from "@infra/crypto/otp.service";
+import { verifyTotp } from "@infra/crypto/totp.service";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "@infra/crypto/recovery-code.service";
+
+export interface ConfirmTotpInput {
+  userId: string;
+  code: string;
+}
+
+export interface ConfirmTotpOutput {
+  success: true;
+  message: string;
+  recoveryCodes: string[];
+}
+
+export class ConfirmTotpUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: ConfirmTotpInput,
+    ctx: RequestContext
+  ): Promise<ConfirmTotpOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (!user.totpPendingSecret) {
+      throw new ValidationError(
+        "No authenticator enrollment in progress. Please start enrollment again."
+      );
+    }
+
+    const secret = decryptOtp(user.totpPendingSecret);
+    const step = secret ? verifyTotp(input.code, secret) : null;
+
+    if (step === null) {
+      void this.authEventRepository.create({
+        eventType: "MFA_ENABLED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "totp_mismatch",
+        metadata: { method: "totp" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError("Invalid authenticator code");
+    }
+
+    await this.userRepository.enableTotp(user.id, user.totpPendingSecret);
+    await this.userRepository.recordTotpStep(user.id, step);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.userRepository.replaceRecoveryCodes(
+      user.id,
+      recoveryCodes.map(hashRecoveryCode)
+    );
+
+    void this.authEventRepository.create({
+      eventType: "MFA_ENABLED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { method: "totp" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "RECOVERY_CODES_GENERATED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { count: recoveryCodes.length, reason: "mfa_enrollment" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Authenticator app enabled",
+      recoveryCodes,
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { RequestContext, SigninOutput } from "@app/dtos/auth.dto";
+import { TokenError } from "@domain/errors/token.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import { sha256Hash } from "@infra/crypto/hash";
+import {
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+  REMEMBER_ME_SESSION_TTL_SECONDS,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { SecondFactorChallenge } from "@app/services/second-factor-challenge";
+import { UnverifiedAccountClaim } from "@app/services/unverified-account-claim";
+
+export interface ConsumeMagicLinkInput {
+  token: string;
+}
+
+export type ConsumeMagicLinkOutput = SigninOutput & { rememberMe: boolean };
+
+export class ConsumeMagicLinkUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly emailProvider: IEmailProvider
+  ) {}
+
+  async execute(
+    input: ConsumeMagicLinkInput,
+    ctx: RequestContext
+  ): Promise<ConsumeMagicLinkOutput> {
+    const tokenHash = sha256Hash(input.token);
+
+    let user = await this.userRepository.consumeMagicLinkToken(tokenHash);
+
+    if (!user) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "magic_link_not_found",
+        metadata: { method: "magic_link" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+
+      throw new TokenError(
+        "invalid_signature",
+        "Invalid or expired sign-in link"
+      );
+    }
+
+    if (user.magicLinkTokenExpiry && user.magicLinkTokenExpiry < new Date()) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "magic_link_expired",
+        metadata: { method: "magic_link" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+
+      throw new TokenError(
+        "expired",
+        "Sign-in link has expired. Please request a new one."
+      );
+    }
+
+    // Receiving the link proves ownership of the address, so it doubles as
+    // email verification for accounts that never completed it.
+    if (!user.isVerified) {
+      user = await new UnverifiedAccountClaim(
+        this.userRepository,
+        this.sessionRepository
+      ).claim(user);
+
+      void this.authEventRepository.create({
+        eventType: "EMAIL_VERIFIED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: true,
+        metadata: { method: "magic_link", credentialsReset: true },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        metadata: { method: "magic_link" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
+    const rememberMe = user.magicLinkRememberMe ?? false;
+
+    if (UserMethods.requiresSecondFactor(user)) {
+      const challenge = await new SecondFactorChallenge(
+        this.userRepository,
+        this.authEventRepository,
+        this.emailProvider
+      ).start(user, "email", ctx);
+
+      return { ...challenge, rememberMe };
+    }
+
+    const ttlSeconds = rememberMe
+      ? REMEMBER_ME_SESSION_TTL_SECONDS
+      : DEFAULT_SESSION_TTL_SECONDS;
+
+    const session = await new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    ).issue(user, ttlSeconds, ctx, { methods: ["email"] });
+
+    void this.authEventRepository.create({
+      eventType: "SIGNIN",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { rememberMe, method: "magic_link" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      isAuthenticated: true,
+      requiresOtp: false,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        tier: user.tier,
+      },
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { OAuthGrantType } from "@domain/entities/oauth-client.entity";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OAuthClientOutput } from "@app/dtos/oauth.dto";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+
+export interface CreateOAuthClientInput {
+  adminUserId: string;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: OAuthGrantType[];
+  confidential: boolean;
+}
+
+export interface CreateOAuthClientOutput {
+  client: OAuthClientOutput;
+
+  /**
+   * Returned only once, at creation. Only its hash is stored.
+   */
+  clientSecret?: string;
+}
+
+export class CreateOAuthClientUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: CreateOAuthClientInput,
+    ctx: RequestContext
+  ): Promise<CreateOAuthClientOutput> {
+    const clientSecret = input.confidential
+      ? generateRandomToken(32)
+      : undefined;
+
+    const client = await this.oauthClientRepository.create({
+      clientId: generateRandomToken(16),
+      clientSecretHash: clientSecret ? sha256Hash(clientSecret) : undefined,
+      name: input.name,
+      redirectUris: input.redirectUris,
+      allowedScopes: input.allowedScopes,
+      grantTypes: input.grantTypes,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_CLIENT_CREATED",
+      userId: input.adminUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId: client.clientId, name: client.name },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      client: {
+        clientId: client.clientId,
+        name: client.name,
+        confidential: input.confidential,
+        redirectUris: client.redirectUris,
+        allowedScopes: client.allowedScopes,
+        grantTypes: client.grantTypes,
+        createdAt: client.createdAt.toISOString(),
+      },
+      clientSecret,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import type { IOrganizationRepository } from "@domain/repositories/organization.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OrganizationOutput } from "@app/dtos/user.dto";
+import { toOrganizationOutput } from "@app/use-cases/list-organizations.use-case";
+
+export interface CreateOrganizationInput {
+  userId: string;
+  name: string;
+}
+
+export interface CreateOrganizationOutput {
+  organization: OrganizationOutput;
+}
+
+/**
+ * Creates an organization with the caller as its first owner.
+ */
+export class CreateOrganizationUseCase {
+  constructor(
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: CreateOrganizationInput,
+    ctx: RequestContext
+  ): Promise<CreateOrganizationOutput> {
+    const organization = await this.organizationRepository.create({
+      name: input.name,
+      createdBy: input.userId,
+    });
+
+    const membership = await this.membershipRepository.create({
+      organizationId: organization.id,
+      userId: input.userId,
+      role: "owner",
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ORGANIZATION_CREATED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { organizationId: organization.id, name: organization.name },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { organization: toOrganizationOutput(organization, membership) };
+  }
+}
@@ -0,0 +1,92 @@
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { PersonalAccessTokenOutput } from "@app/dtos/user.dto";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { sha256Hash } from "@infra/crypto/hash";
+import { generatePersonalAccessToken } from "@infra/crypto/personal-access-token";
+
+const MAX_ACTIVE_TOKENS_PER_USER = 20;
+
+export interface CreatePersonalAccessTokenInput {
+  userId: string;
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+export interface CreatePersonalAccessTokenOutput {
+  personalAccessToken: PersonalAccessTokenOutput;
+
+  /**
+   * Returned only once, at creation. Only its hash is stored.
+   */
+  token: string;
+}
+
+export class CreatePersonalAccessTokenUseCase {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: CreatePersonalAccessTokenInput,
+    ctx: RequestContext
+  ): Promise<CreatePersonalAccessTokenOutput> {
+    const activeCount =
+      await this.personalAccessTokenRepository.countActiveByUserId(
+        input.userId
+      );
+
+    if (activeCount >= MAX_ACTIVE_TOKENS_PER_USER) {
+      throw new ConflictError(
+        `You can have at most ${MAX_ACTIVE_TOKENS_PER_USER} active access tokens. Revoke one first.`
+      );
+    }
+
+    const { token, displayPrefix } = generatePersonalAccessToken();
+    const expiresAt = input.expiresInDays
+      ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const created = await this.personalAccessTokenRepository.create({
+      userId: input.userId,
+      name: input.name,
+      tokenHash: sha256Hash(token),
+      tokenPrefix: displayPrefix,
+      scopes: input.scopes,
+      expiresAt,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "PERSONAL_ACCESS_TOKEN_CREATED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        tokenId: created.id,
+        tokenPrefix: created.tokenPrefix,
+        scopes: created.scopes,
+        expiresAt: created.expiresAt?.toISOString() ?? null,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      personalAccessToken: {
+        id: created.id,
+        name: created.name,
+        tokenPrefix: created.tokenPrefix,
+        scopes: created.scopes,
+        createdAt: created.createdAt.toISOString(),
+        expiresAt: created.expiresAt?.toISOString() ?? null,
+        lastUsedAt: null,
+      },
+      token,
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { RoleOutput } from "@app/dtos/user.dto";
+import { RoleMethods } from "@domain/entities/role.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { toRoleOutput } from "@app/use-cases/list-roles.use-case";
+
+export interface CreateRoleInput {
+  adminUserId: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface CreateRoleOutput {
+  role: RoleOutput;
+}
+
+export class CreateRoleUseCase {
+  constructor(
+    private readonly roleRepository: IRoleRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: CreateRoleInput,
+    ctx: RequestContext
+  ): Promise<CreateRoleOutput> {
+    if (RoleMethods.isBaseRoleName(input.name)) {
+      throw new ConflictError(`${input.name} is a built-in role`);
+    }
+
+    const role = await this.roleRepository.create({
+      name: input.name,
+      description: input.description,
+      permissions: input.permissions,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ROLE_CREATED",
+      userId: input.adminUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { role: role.name, permissions: role.permissions },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { role: toRoleOutput(role) };
+  }
+}
@@ -0,0 +1,49 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface DeleteOAuthClientInput {
+  adminUserId: string;
+  clientId: string;
+}
+
+export interface DeleteOAuthClientOutput {
+  success: true;
+  message: string;
+}
+
+export class DeleteOAuthClientUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: DeleteOAuthClientInput,
+    ctx: RequestContext
+  ): Promise<DeleteOAuthClientOutput> {
+    const deleted = await this.oauthClientRepository.delete(input.clientId);
+
+    if (!deleted) {
+      throw new NotFoundError("Client not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_CLIENT_DELETED",
+      userId: input.adminUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId: input.clientId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Client deleted",
+    };
+  }
+}
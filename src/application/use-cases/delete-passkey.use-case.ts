@@ -0,0 +1,52 @@
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface DeletePasskeyInput {
+  userId: string;
+  passkeyId: string;
+}
+
+export interface DeletePasskeyOutput {
+  success: true;
+  message: string;
+}
+
+export class DeletePasskeyUseCase {
+  constructor(
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: DeletePasskeyInput,
+    ctx: RequestContext
+  ): Promise<DeletePasskeyOutput> {
+    const deleted = await this.credentialRepository.delete(
+      input.userId,
+      input.passkeyId
+    );
+
+    if (!deleted) {
+      throw new NotFoundError("Passkey not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "PASSKEY_REMOVED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { passkeyId: input.passkeyId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Passkey removed",
+    };
+  }
+}
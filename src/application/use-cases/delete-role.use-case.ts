@@ -0,0 +1,59 @@
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface DeleteRoleInput {
+  adminUserId: string;
+  name: string;
+}
+
+export interface DeleteRoleOutput {
+  success: true;
+  message: string;
+  usersUpdated: number;
+}
+
+/**
+ * Deletes a role definition and unassigns it from every user holding it.
+ */
+export class DeleteRoleUseCase {
+  constructor(
+    private readonly roleRepository: IRoleRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: DeleteRoleInput,
+    ctx: RequestContext
+  ): Promise<DeleteRoleOutput> {
+    const deleted = await this.roleRepository.delete(input.name);
+    if (!deleted) {
+      throw new NotFoundError("Role not found");
+    }
+
+    const usersUpdated = await this.userRepository.removeRoleFromAll(
+      input.name
+    );
+
+    void this.authEventRepository.create({
+      eventType: "ROLE_DELETED",
+      userId: input.adminUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { role: input.name, usersUpdated },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Role deleted",
+      usersUpdated,
+    };
+  }
+}
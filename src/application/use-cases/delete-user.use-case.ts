@@ -0,0 +1,90 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { ILinkedIdentityRepository } from "@domain/repositories/linked-identity.repository";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+const USER_REVOCATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface DeleteUserInput {
+  adminUserId: string;
+  userId: string;
+}
+
+export interface DeleteUserOutput {
+  success: true;
+  message: string;
+}
+
+/**
+ * Deletes a user along with their sessions and credentials. Audit events
+ * are kept.
+ */
+export class DeleteUserUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly identityRepository: ILinkedIdentityRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: DeleteUserInput,
+    ctx: RequestContext
+  ): Promise<DeleteUserOutput> {
+    if (input.userId === input.adminUserId) {
+      throw new AuthorizationError("Admins cannot delete their own account");
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    await this.revocationStore.revokeAllUserSessions(
+      user.id,
+      USER_REVOCATION_TTL_SECONDS
+    );
+
+    const [sessionsDeleted] = await Promise.all([
+      this.sessionRepository.deleteAllForUser(user.id),
+      this.identityRepository.deleteAllForUser(user.id),
+      this.credentialRepository.deleteAllForUser(user.id),
+      this.personalAccessTokenRepository.deleteAllForUser(user.id),
+      this.membershipRepository.deleteAllForUser(user.id),
+    ]);
+
+    await this.userRepository.delete(user.id);
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_USER_DELETED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        sessionsDeleted,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "User deleted",
+    };
+  }
+}
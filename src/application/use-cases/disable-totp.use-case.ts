@@ -0,0 +1,87 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import { decryptOtp } from "@infra/crypto/otp.service";
+import { verifyTotp } from "@infra/crypto/totp.service";
+
+export interface DisableTotpInput {
+  userId: string;
+  code: string;
+}
+
+export interface DisableTotpOutput {
+  success: true;
+  message: string;
+}
+
+export class DisableTotpUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: DisableTotpInput,
+    ctx: RequestContext
+  ): Promise<DisableTotpOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (!UserMethods.hasTotp(user)) {
+      throw new ValidationError("Authenticator app is not enabled");
+    }
+
+    const secret = decryptOtp(user.totpSecret!);
+    const step = secret ? verifyTotp(input.code, secret) : null;
+    const accepted =
+      step !== null &&
+      (await this.userRepository.recordTotpStep(user.id, step));
+
+    if (!accepted) {
+      void this.authEventRepository.create({
+        eventType: "MFA_DISABLED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "totp_mismatch",
+        metadata: { method: "totp" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError("Invalid authenticator code");
+    }
+
+    await this.userRepository.disableTotp(user.id);
+
+    if (!UserMethods.isAdmin(user)) {
+      await this.userRepository.clearRecoveryCodes(user.id);
+    }
+
+    void this.authEventRepository.create({
+      eventType: "MFA_DISABLED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { method: "totp" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Authenticator app disabled",
+    };
+  }
+}
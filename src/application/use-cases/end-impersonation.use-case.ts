@@ -0,0 +1,72 @@
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+const SESSION_REVOCATION_TTL_SECONDS = 15 * 60;
+
+export interface EndImpersonationInput {
+  adminUserId: string;
+  userId: string;
+}
+
+export interface EndImpersonationOutput {
+  success: true;
+  message: string;
+  sessionsEnded: number;
+}
+
+/**
+ * Immediately revokes every session the admin opened as the user, rather
+ * than waiting for them to expire.
+ */
+export class EndImpersonationUseCase {
+  constructor(
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: EndImpersonationInput,
+    ctx: RequestContext
+  ): Promise<EndImpersonationOutput> {
+    const sessions = (
+      await this.sessionRepository.findByUserId(input.userId)
+    ).filter((session) => session.impersonatorId === input.adminUserId);
+
+    if (sessions.length === 0) {
+      throw new NotFoundError("No active impersonation of this user");
+    }
+
+    for (const session of sessions) {
+      await this.revocationStore.revokeSession(
+        session.sessionId,
+        SESSION_REVOCATION_TTL_SECONDS
+      );
+      await this.sessionRepository.delete(session.sessionId);
+    }
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_IMPERSONATION_ENDED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        sessionIds: sessions.map((session) => session.sessionId),
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Impersonation ended",
+      sessionsEnded: sessions.length,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import { encryptOtp } from "@infra/crypto/otp.service";
+import { buildTotpUri, generateTotpSecret } from "@infra/crypto/totp.service";
+
+export interface EnrollTotpInput {
+  userId: string;
+}
+
+export interface EnrollTotpOutput {
+  secret: string;
+  otpauthUri: string;
+}
+
+export class EnrollTotpUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: EnrollTotpInput,
+    ctx: RequestContext
+  ): Promise<EnrollTotpOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (UserMethods.hasTotp(user)) {
+      throw new ConflictError(
+        "Authenticator app is already enabled. Disable it before enrolling again."
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.userRepository.updateTotpPendingSecret(
+      user.id,
+      encryptOtp(secret)
+    );
+
+    void this.authEventRepository.create({
+      eventType: "MFA_ENROLLMENT_STARTED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { method: "totp" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildTotpUri(secret, user.email),
+    };
+  }
+}
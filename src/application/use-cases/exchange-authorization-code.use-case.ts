@@ -0,0 +1,170 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OAuthTokenOutput } from "@app/dtos/oauth.dto";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import {
+  DEFAULT_SESSION_TTL_SECONDS,
+  SessionIssuer,
+  type IssuedAccessToken,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import {
+  authorizationCodeKey,
+  type AuthorizationCodeGrant,
+} from "@app/use-cases/authorize-client.use-case";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { ACCESS_TOKEN_TTL_SECONDS } from "@infra/crypto/jwt.service";
+import { verifyCodeChallenge } from "@infra/crypto/pkce";
+
+export interface ExchangeAuthorizationCodeInput extends ClientCredentials {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+}
+
+export class ExchangeAuthorizationCodeUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: ExchangeAuthorizationCodeInput,
+    ctx: RequestContext
+  ): Promise<OAuthTokenOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    const grant = await this.ephemeralStore.consume<AuthorizationCodeGrant>(
+      authorizationCodeKey(input.code)
+    );
+
+    if (
+      !grant ||
+      grant.clientId !== client.clientId ||
+      grant.redirectUri !== input.redirectUri
+    ) {
+      throw new OAuthError(
+        "invalid_grant",
+        "Authorization code is invalid or expired"
+      );
+    }
+
+    if (!verifyCodeChallenge(input.codeVerifier, grant.codeChallenge)) {
+      throw new OAuthError("invalid_grant", "PKCE verification failed");
+    }
+
+    const user = await this.userRepository.findById(grant.userId);
+
+    if (!user || !user.isVerified) {
+      throw new OAuthError(
+        "invalid_grant",
+        "Authorization code is invalid or expired"
+      );
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      throw new OAuthError("invalid_grant", restriction.message);
+    }
+
+    const authTime = new Date(grant.authTime);
+    const authentication = { methods: grant.amr, authenticatedAt: authTime };
+    const offlineAccess =
+      grant.scopes.includes("offline_access") &&
+      OAuthClientMethods.allowsGrant(client, "refresh_token");
+
+    const sessionIssuer = new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    );
+
+    const issueOptions = {
+      clientId: client.clientId,
+      scopes: grant.scopes,
+    };
+
+    // Only a refresh token needs a stored session; without one the access
+    // token stands alone and stays out of the user's session cap.
+    const session: IssuedAccessToken & { refreshToken?: string } = offlineAccess
+      ? await sessionIssuer.issue(
+          user,
+          DEFAULT_SESSION_TTL_SECONDS,
+          ctx,
+          authentication,
+          issueOptions
+        )
+      : await sessionIssuer.issueAccessToken(
+          user,
+          authentication,
+          issueOptions
+        );
+
+    const idToken = await this.tokenService.generateIdToken({
+      userId: user.id,
+      clientId: client.clientId,
+      nonce: grant.nonce,
+      authTime,
+      amr: grant.amr,
+      ...(grant.scopes.includes("email") && {
+        email: user.email,
+        emailVerified: user.isVerified,
+      }),
+    });
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_TOKEN_ISSUED",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        clientId: client.clientId,
+        grantType: "authorization_code",
+        scopes: grant.scopes,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      accessToken: session.accessToken,
+      tokenType: "Bearer",
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      scope: grant.scopes.join(" "),
+      idToken,
+      ...(session.refreshToken && {
+        refreshToken: session.refreshToken,
+      }),
+    };
+  }
+}
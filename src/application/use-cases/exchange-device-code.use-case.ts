@@ -0,0 +1,205 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OAuthTokenOutput } from "@app/dtos/oauth.dto";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import {
+  DEFAULT_SESSION_TTL_SECONDS,
+  SessionIssuer,
+  type IssuedAccessToken,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import {
+  deviceAuthorizationKey,
+  saveDeviceAuthorization,
+  type DeviceAuthorization,
+} from "@app/use-cases/start-device-authorization.use-case";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { ACCESS_TOKEN_TTL_SECONDS } from "@infra/crypto/jwt.service";
+
+export interface ExchangeDeviceCodeInput extends ClientCredentials {
+  deviceCode: string;
+}
+
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+/**
+ * The RFC 8628 device_code grant, polled by the device until the user
+ * approves or denies the request on the hosted verification page.
+ */
+export class ExchangeDeviceCodeUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: ExchangeDeviceCodeInput,
+    ctx: RequestContext
+  ): Promise<OAuthTokenOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    const deviceKey = deviceAuthorizationKey(input.deviceCode);
+    const authorization =
+      await this.ephemeralStore.get<DeviceAuthorization>(deviceKey);
+
+    if (!authorization) {
+      throw new OAuthError("expired_token", "The device code has expired");
+    }
+
+    if (authorization.clientId !== client.clientId) {
+      throw new OAuthError("invalid_grant", "Device code is invalid");
+    }
+
+    const now = Date.now();
+
+    if (authorization.status === "pending") {
+      const tooSoon =
+        authorization.lastPolledAt !== undefined &&
+        now - authorization.lastPolledAt < authorization.interval * 1000;
+
+      await saveDeviceAuthorization(this.ephemeralStore, deviceKey, {
+        ...authorization,
+        lastPolledAt: now,
+        interval: tooSoon
+          ? authorization.interval + SLOW_DOWN_INCREMENT_SECONDS
+          : authorization.interval,
+      });
+
+      if (tooSoon) {
+        throw new OAuthError("slow_down", "Polling too frequently");
+      }
+      throw new OAuthError(
+        "authorization_pending",
+        "The user has not yet approved this device"
+      );
+    }
+
+    // Consume so a code can only ever yield one token pair, even under
+    // concurrent polls.
+    const consumed =
+      await this.ephemeralStore.consume<DeviceAuthorization>(deviceKey);
+    if (!consumed) {
+      throw new OAuthError("expired_token", "The device code has expired");
+    }
+
+    if (consumed.status === "denied" || !consumed.userId) {
+      throw new OAuthError("access_denied", "The user denied the request");
+    }
+
+    const user = await this.userRepository.findById(consumed.userId);
+
+    if (!user || !user.isVerified) {
+      throw new OAuthError("invalid_grant", "Device code is invalid");
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      throw new OAuthError("invalid_grant", restriction.message);
+    }
+
+    const authTime = new Date(consumed.authTime ?? now);
+    const amr = consumed.amr ?? ["pwd"];
+    const authentication = { methods: amr, authenticatedAt: authTime };
+    // Devices are signed in once and meant to stay signed in, so they get a
+    // refresh token without having to ask for offline_access.
+    const offlineAccess = OAuthClientMethods.allowsGrant(
+      client,
+      "refresh_token"
+    );
+
+    const sessionIssuer = new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    );
+
+    const issueOptions = {
+      clientId: client.clientId,
+      scopes: consumed.scopes,
+    };
+
+    // As with the authorization code grant, only a refresh token needs a
+    // stored session.
+    const session: IssuedAccessToken & { refreshToken?: string } = offlineAccess
+      ? await sessionIssuer.issue(
+          user,
+          DEFAULT_SESSION_TTL_SECONDS,
+          ctx,
+          authentication,
+          issueOptions
+        )
+      : await sessionIssuer.issueAccessToken(
+          user,
+          authentication,
+          issueOptions
+        );
+
+    const idToken = consumed.scopes.includes("openid")
+      ? await this.tokenService.generateIdToken({
+          userId: user.id,
+          clientId: client.clientId,
+          authTime,
+          amr,
+          ...(consumed.scopes.includes("email") && {
+            email: user.email,
+            emailVerified: user.isVerified,
+          }),
+        })
+      : undefined;
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_TOKEN_ISSUED",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        clientId: client.clientId,
+        grantType: "device_code",
+        scopes: consumed.scopes,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      accessToken: session.accessToken,
+      tokenType: "Bearer",
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      scope: consumed.scopes.join(" "),
+      idToken,
+      ...(session.refreshToken && {
+        refreshToken: session.refreshToken,
+      }),
+    };
+  }
+}
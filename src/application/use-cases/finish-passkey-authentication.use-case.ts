@@ -0,0 +1,188 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type {
+  RequestContext,
+  SigninOutputAuthenticated,
+} from "@app/dtos/auth.dto";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { verifyAuthentication } from "@infra/crypto/webauthn.service";
+import type { AuthenticationResponseJSON } from "@infra/crypto/webauthn.service";
+import {
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+  REMEMBER_ME_SESSION_TTL_SECONDS,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { passkeyAuthenticationChallengeKey } from "@app/use-cases/start-passkey-authentication.use-case";
+
+export interface FinishPasskeyAuthenticationInput {
+  challengeId: string;
+  response: AuthenticationResponseJSON;
+  rememberMe?: boolean;
+}
+
+export class FinishPasskeyAuthenticationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: FinishPasskeyAuthenticationInput,
+    ctx: RequestContext
+  ): Promise<SigninOutputAuthenticated> {
+    const expectedChallenge = await this.ephemeralStore.consume<string>(
+      passkeyAuthenticationChallengeKey(input.challengeId)
+    );
+    if (!expectedChallenge) {
+      throw new AuthenticationError(
+        "Passkey sign-in has expired. Please try again."
+      );
+    }
+
+    const credential = await this.credentialRepository.findByCredentialId(
+      input.response.id
+    );
+    const user = credential
+      ? await this.userRepository.findById(credential.userId)
+      : null;
+
+    if (!credential || !user) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "passkey_not_found",
+        metadata: { method: "passkey" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError("Invalid credentials");
+    }
+
+    const newCounter = await verifyAuthentication(
+      input.response,
+      expectedChallenge,
+      credential
+    );
+
+    if (newCounter === null) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "passkey_assertion_invalid",
+        metadata: { method: "passkey", passkeyId: credential.id },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError("Invalid credentials");
+    }
+
+    if (!user.isVerified) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "email_not_verified",
+        metadata: { method: "passkey" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new ValidationError(
+        "Please verify your email address before signing in"
+      );
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        metadata: { method: "passkey" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
+    await this.credentialRepository.updateUsage(credential.credentialId, {
+      counter: newCounter,
+      lastUsedAt: new Date(),
+    });
+
+    const rememberMe = input.rememberMe ?? false;
+    const ttlSeconds = rememberMe
+      ? REMEMBER_ME_SESSION_TTL_SECONDS
+      : DEFAULT_SESSION_TTL_SECONDS;
+
+    const session = await new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    ).issue(user, ttlSeconds, ctx, { methods: ["hwk", "user"] });
+
+    void this.authEventRepository.create({
+      eventType: "SIGNIN",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { rememberMe, method: "passkey", passkeyId: credential.id },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      isAuthenticated: true,
+      requiresOtp: false,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        tier: user.tier,
+      },
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { PasskeyOutput } from "@app/dtos/user.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { verifyRegistration } from "@infra/crypto/webauthn.service";
+import type { RegistrationResponseJSON } from "@infra/crypto/webauthn.service";
+import { passkeyRegistrationChallengeKey } from "@app/use-cases/start-passkey-registration.use-case";
+
+const DEFAULT_PASSKEY_NAME = "Passkey";
+
+export interface FinishPasskeyRegistrationInput {
+  userId: string;
+  response: RegistrationResponseJSON;
+  name?: string;
+}
+
+export interface FinishPasskeyRegistrationOutput {
+  passkey: PasskeyOutput;
+}
+
+export class FinishPasskeyRegistrationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: FinishPasskeyRegistrationInput,
+    ctx: RequestContext
+  ): Promise<FinishPasskeyRegistrationOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const expectedChallenge = await this.ephemeralStore.consume<string>(
+      passkeyRegistrationChallengeKey(user.id)
+    );
+    if (!expectedChallenge) {
+      throw new ValidationError(
+        "Passkey registration has expired. Please start again."
+      );
+    }
+
+    const verified = await verifyRegistration(
+      input.response,
+      expectedChallenge
+    );
+
+    if (!verified) {
+      void this.authEventRepository.create({
+        eventType: "PASSKEY_REGISTERED",
+        userId: user.id,
+        email: user.email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "attestation_invalid",
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new ValidationError("Passkey could not be verified");
+    }
+
+    const credential = await this.credentialRepository.create({
+      userId: user.id,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      counter: verified.counter,
+      transports: verified.transports,
+      deviceType: verified.deviceType,
+      backedUp: verified.backedUp,
+      name: input.name ?? DEFAULT_PASSKEY_NAME,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "PASSKEY_REGISTERED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { passkeyId: credential.id, deviceType: credential.deviceType },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      passkey: {
+        id: credential.id,
+        name: credential.name,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        createdAt: credential.createdAt.toISOString(),
+        lastUsedAt: null,
+      },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+import { encryptOtp } from "@infra/crypto/otp.service";
+import { hashPassword } from "@infra/crypto/password.service";
+
+const USER_REVOCATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const RESET_TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForcePasswordResetInput {
+  adminUserId: string;
+  userId: string;
+}
+
+export interface ForcePasswordResetOutput {
+  success: true;
+  message: string;
+}
+
+/**
+ * Replaces the user's password with an unknown random one, signs them out
+ * everywhere and emails a reset link, so the old password stops working
+ * immediately.
+ */
+export class ForcePasswordResetUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore,
+    private readonly emailProvider: IEmailProvider
+  ) {}
+
+  async execute(
+    input: ForcePasswordResetInput,
+    ctx: RequestContext
+  ): Promise<ForcePasswordResetOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const newTokenVersion = UserMethods.incrementTokenVersion(user);
+    await this.userRepository.updatePassword(
+      user.id,
+      await hashPassword(generateRandomToken(32)),
+      newTokenVersion
+    );
+
+    await this.revocationStore.revokeAllUserSessions(
+      user.id,
+      USER_REVOCATION_TTL_SECONDS
+    );
+    const deletedCount = await this.sessionRepository.deleteAllForUser(user.id);
+
+    const rawResetToken = generateRandomToken(32);
+
+    await this.userRepository.updatePasswordResetToken(user.id, {
+      passwordResetToken: encryptOtp(rawResetToken),
+      passwordResetTokenHash: sha256Hash(rawResetToken),
+      passwordResetTokenExpiry: new Date(Date.now() + RESET_TOKEN_EXPIRY_MS),
+    });
+
+    this.emailProvider
+      .sendPasswordResetEmail(user.email, rawResetToken)
+      .catch((error: unknown) => {
+        console.error(
+          `[ForcePasswordResetUseCase] Failed to send reset email to ${user.email}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      });
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_PASSWORD_RESET_FORCED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        sessionsDeleted: deletedCount,
+        newTokenVersion,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Password reset forced and reset link sent",
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface ForceVerifyUserInput {
+  adminUserId: string;
+  userId: string;
+}
+
+export interface ForceVerifyUserOutput {
+  success: true;
+  message: string;
+}
+
+export class ForceVerifyUserUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: ForceVerifyUserInput,
+    ctx: RequestContext
+  ): Promise<ForceVerifyUserOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.isVerified) {
+      throw new ConflictError("User is already verified");
+    }
+
+    await this.userRepository.updateVerification(user.id, {
+      isVerified: true,
+      verificationToken: null,
+      verificationTokenHash: null,
+      verificationTokenExpiry: null,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_USER_VERIFIED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { adminUserId: input.adminUserId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "User marked as verified",
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type {
+  AdminUserOutput,
+  AuthEventOutput,
+  SessionOutput,
+} from "@app/dtos/user.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ListSessionsUseCase } from "@app/use-cases/list-sessions.use-case";
+import { toAdminUserOutput } from "@app/use-cases/list-users.use-case";
+
+const RECENT_EVENTS_LIMIT = 50;
+
+export interface GetUserDetailsInput {
+  userId: string;
+}
+
+export interface GetUserDetailsOutput {
+  user: AdminUserOutput;
+  sessions: SessionOutput[];
+  recentEvents: AuthEventOutput[];
+}
+
+export class GetUserDetailsUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(input: GetUserDetailsInput): Promise<GetUserDetailsOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const [{ sessions }, events] = await Promise.all([
+      new ListSessionsUseCase(this.sessionRepository).execute({
+        userId: user.id,
+      }),
+      this.authEventRepository.findByUserId(user.id, {
+        limit: RECENT_EVENTS_LIMIT,
+      }),
+    ]);
+
+    return {
+      user: toAdminUserOutput(user),
+      sessions,
+      recentEvents: events.map((event) => ({
+        id: event.id,
+        eventType: event.eventType,
+        success: event.success,
+        failureReason: event.failureReason ?? null,
+        ipAddress: event.ipAddress ?? null,
+        userAgent: event.userAgent ?? null,
+        timestamp: event.timestamp.toISOString(),
+        metadata: event.metadata ?? null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IntrospectionOutput } from "@app/dtos/oauth.dto";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import { SessionMethods } from "@domain/entities/session.entity";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import { AccessTokenVerifier } from "@app/services/access-token-verifier";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { TokenError } from "@domain/errors/token.error";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { sha256Hash } from "@infra/crypto/hash";
+import { resolveSessionPolicy } from "@infra/config/session-policies";
+
+export interface IntrospectTokenInput extends ClientCredentials {
+  token: string;
+  tokenTypeHint?: string;
+}
+
+const INACTIVE: IntrospectionOutput = { active: false };
+
+/**
+ * RFC 7662 token introspection. Any token that fails verification — bad
+ * signature, revoked, stale token version, suspended or banned account,
+ * unknown — is reported as `{ active: false }` without saying why.
+ */
+export class IntrospectTokenUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(input: IntrospectTokenInput): Promise<IntrospectionOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    if (!OAuthClientMethods.isConfidential(client)) {
+      throw new OAuthError(
+        "invalid_client",
+        "Introspection requires a confidential client"
+      );
+    }
+
+    if (input.tokenTypeHint === "refresh_token") {
+      const result = await this.introspectRefreshToken(input.token);
+      return result.active ? result : this.introspectAccessToken(input.token);
+    }
+
+    const result = await this.introspectAccessToken(input.token);
+    return result.active ? result : this.introspectRefreshToken(input.token);
+  }
+
+  private async introspectAccessToken(
+    token: string
+  ): Promise<IntrospectionOutput> {
+    const verifier = new AccessTokenVerifier(
+      this.tokenService,
+      this.userRepository,
+      this.revocationStore
+    );
+
+    try {
+      const { payload } = await verifier.verify(token);
+
+      return {
+        active: true,
+        tokenType: "access_token",
+        sub: payload.sub,
+        sessionId: payload.sessionId,
+        jti: payload.jti,
+        iat: payload.iat,
+        exp: payload.exp,
+        email: payload.email,
+        role: payload.role,
+        ...(payload.act && { act: payload.act }),
+        ...(payload.authTime !== undefined && { authTime: payload.authTime }),
+        ...(payload.amr && { amr: payload.amr }),
+        ...(payload.clientId && { clientId: payload.clientId }),
+        ...(payload.scopes && { scopes: payload.scopes }),
+      };
+    } catch (error) {
+      if (error instanceof TokenError || error instanceof AuthorizationError) {
+        return INACTIVE;
+      }
+      if (!(error instanceof AuthenticationError)) throw error;
+    }
+
+    try {
+      const payload = await verifier.verifyMachine(token);
+
+      return {
+        active: true,
+        tokenType: "access_token",
+        sub: payload.sub,
+        clientId: payload.clientId,
+        scopes: payload.scopes,
+        jti: payload.jti,
+        iat: payload.iat,
+        exp: payload.exp,
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationError) return INACTIVE;
+      throw error;
+    }
+  }
+
+  private async introspectRefreshToken(
+    token: string
+  ): Promise<IntrospectionOutput> {
+    const payload = await this.tokenService.verifyRefreshToken(token);
+    if (!payload) return INACTIVE;
+
+    const [session, sessionRevoked, familyRevoked, userRevocationTs, user] =
+      await Promise.all([
+        this.sessionRepository.findByRefreshTokenHash(sha256Hash(token)),
+        this.revocationStore.isSessionRevoked(payload.sessionId),
+        payload.familyId
+          ? this.revocationStore.isTokenFamilyRevoked(payload.familyId)
+          : false,
+        this.revocationStore.getUserRevocationTimestamp(payload.sub),
+        this.userRepository.findById(payload.sub),
+      ]);
+
+    if (
+      !session ||
+      sessionRevoked ||
+      familyRevoked ||
+      (userRevocationTs !== null && payload.iat * 1000 < userRevocationTs) ||
+      !user ||
+      !user.isVerified ||
+      (payload.role !== undefined && payload.role !== user.role) ||
+      user.tokenVersion !== payload.tv ||
+      getAccountRestrictionError(user) ||
+      SessionMethods.getPolicyViolation(session, resolveSessionPolicy(user))
+    ) {
+      return INACTIVE;
+    }
+
+    return {
+      active: true,
+      tokenType: "refresh_token",
+      sub: payload.sub,
+      sessionId: payload.sessionId,
+      jti: payload.jti,
+      iat: payload.iat,
+      exp: payload.exp,
+    };
+  }
+}
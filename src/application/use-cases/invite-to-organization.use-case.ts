@@ -0,0 +1,128 @@
+import type { IOrganizationRepository } from "@domain/repositories/organization.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IOrganizationInvitationRepository } from "@domain/repositories/organization-invitation.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import {
+  OrganizationMethods,
+  type OrganizationRole,
+} from "@domain/entities/organization.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface InviteToOrganizationInput {
+  actorUserId: string;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+}
+
+export interface InviteToOrganizationOutput {
+  success: true;
+  message: string;
+  expiresAt: string;
+}
+
+/**
+ * Emails a single-use invitation link. Only owners can invite owners.
+ */
+export class InviteToOrganizationUseCase {
+  constructor(
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly invitationRepository: IOrganizationInvitationRepository,
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly emailProvider: IEmailProvider
+  ) {}
+
+  async execute(
+    input: InviteToOrganizationInput,
+    ctx: RequestContext
+  ): Promise<InviteToOrganizationOutput> {
+    const [organization, actor, inviter] = await Promise.all([
+      this.organizationRepository.findById(input.organizationId),
+      this.membershipRepository.find(input.organizationId, input.actorUserId),
+      this.userRepository.findById(input.actorUserId),
+    ]);
+
+    if (!organization) {
+      throw new NotFoundError("Organization not found");
+    }
+
+    if (!actor || !OrganizationMethods.hasRole(actor.role, "admin")) {
+      throw new AuthorizationError(
+        "Insufficient organization role. Required: admin"
+      );
+    }
+
+    if (!OrganizationMethods.hasRole(actor.role, input.role)) {
+      throw new AuthorizationError(`Only owners can invite ${input.role}s`);
+    }
+
+    const email = input.email.toLowerCase().trim();
+
+    const invitee = await this.userRepository.findByEmail(email);
+    if (
+      invitee &&
+      (await this.membershipRepository.find(organization.id, invitee.id))
+    ) {
+      throw new ConflictError("This user is already a member");
+    }
+
+    const rawToken = generateRandomToken(32);
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+    await this.invitationRepository.create({
+      organizationId: organization.id,
+      email,
+      role: input.role,
+      tokenHash: sha256Hash(rawToken),
+      invitedBy: input.actorUserId,
+      expiresAt,
+    });
+
+    try {
+      await this.emailProvider.sendOrganizationInvitationEmail(email, {
+        organizationName: organization.name,
+        invitedBy: inviter?.email ?? "A team member",
+        role: input.role,
+        token: rawToken,
+        expiresAt,
+      });
+    } catch (emailError: unknown) {
+      console.error(
+        `[InviteToOrganizationUseCase] Failed to send invitation email to ${email}:`,
+        emailError instanceof Error ? emailError.message : "Unknown error"
+      );
+    }
+
+    void this.authEventRepository.create({
+      eventType: "ORGANIZATION_INVITATION_SENT",
+      userId: input.actorUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        organizationId: organization.id,
+        invitedEmail: email,
+        role: input.role,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: `Invitation sent to ${email}`,
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OAuthTokenOutput } from "@app/dtos/oauth.dto";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { MACHINE_TOKEN_TTL_SECONDS } from "@infra/crypto/jwt.service";
+
+export interface IssueClientCredentialsTokenInput extends ClientCredentials {
+  scope?: string;
+}
+
+/**
+ * The `client_credentials` grant: a short-lived machine token for
+ * service-to-service calls, with no user, session or refresh token.
+ */
+export class IssueClientCredentialsTokenUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService
+  ) {}
+
+  async execute(
+    input: IssueClientCredentialsTokenInput,
+    ctx: RequestContext
+  ): Promise<OAuthTokenOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    if (
+      !OAuthClientMethods.isConfidential(client) ||
+      !OAuthClientMethods.allowsGrant(client, "client_credentials")
+    ) {
+      throw new OAuthError(
+        "unauthorized_client",
+        "Client is not allowed to use the client_credentials grant"
+      );
+    }
+
+    const scopes = input.scope
+      ? input.scope.split(" ").filter(Boolean)
+      : client.allowedScopes;
+
+    if (!OAuthClientMethods.allowsScopes(client, scopes)) {
+      throw new OAuthError(
+        "invalid_scope",
+        "One or more scopes are not allowed for this client"
+      );
+    }
+
+    const { token, jti } = await this.tokenService.generateMachineToken({
+      clientId: client.clientId,
+      scopes,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "OAUTH_TOKEN_ISSUED",
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        clientId: client.clientId,
+        grantType: "client_credentials",
+        scopes,
+        jti,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      accessToken: token,
+      tokenType: "Bearer",
+      expiresIn: MACHINE_TOKEN_TTL_SECONDS,
+      scope: scopes.join(" "),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import type { ILinkedIdentityRepository } from "@domain/repositories/linked-identity.repository";
+
+export interface ListLinkedIdentitiesInput {
+  userId: string;
+}
+
+export interface ListLinkedIdentitiesOutput {
+  identities: Array<{
+    id: string;
+    provider: string;
+    email: string | null;
+    createdAt: string;
+    lastUsedAt: string | null;
+  }>;
+}
+
+export class ListLinkedIdentitiesUseCase {
+  constructor(private readonly identityRepository: ILinkedIdentityRepository) {}
+
+  async execute(
+    input: ListLinkedIdentitiesInput
+  ): Promise<ListLinkedIdentitiesOutput> {
+    const identities = await this.identityRepository.findByUserId(input.userId);
+
+    return {
+      identities: identities.map((identity) => ({
+        id: identity.id,
+        provider: identity.provider,
+        email: identity.email ?? null,
+        createdAt: identity.createdAt.toISOString(),
+        lastUsedAt: identity.lastUsedAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
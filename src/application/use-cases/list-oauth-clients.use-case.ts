@@ -0,0 +1,27 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { OAuthClientOutput } from "@app/dtos/oauth.dto";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+
+export interface ListOAuthClientsOutput {
+  clients: OAuthClientOutput[];
+}
+
+export class ListOAuthClientsUseCase {
+  constructor(private readonly oauthClientRepository: IOAuthClientRepository) {}
+
+  async execute(): Promise<ListOAuthClientsOutput> {
+    const clients = await this.oauthClientRepository.findAll();
+
+    return {
+      clients: clients.map((client) => ({
+        clientId: client.clientId,
+        name: client.name,
+        confidential: OAuthClientMethods.isConfidential(client),
+        redirectUris: client.redirectUris,
+        allowedScopes: client.allowedScopes,
+        grantTypes: client.grantTypes,
+        createdAt: client.createdAt.toISOString(),
+      })),
+    };
+  }
+}
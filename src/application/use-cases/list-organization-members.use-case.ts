@@ -0,0 +1,40 @@
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { OrganizationMemberOutput } from "@app/dtos/user.dto";
+
+export interface ListOrganizationMembersInput {
+  organizationId: string;
+}
+
+export interface ListOrganizationMembersOutput {
+  members: OrganizationMemberOutput[];
+}
+
+export class ListOrganizationMembersUseCase {
+  constructor(
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly userRepository: IUserRepository
+  ) {}
+
+  async execute(
+    input: ListOrganizationMembersInput
+  ): Promise<ListOrganizationMembersOutput> {
+    const memberships = await this.membershipRepository.findByOrganizationId(
+      input.organizationId
+    );
+
+    const members = await Promise.all(
+      memberships.map(async (membership) => {
+        const user = await this.userRepository.findById(membership.userId);
+        return {
+          userId: membership.userId,
+          email: user?.email ?? null,
+          role: membership.role,
+          joinedAt: membership.createdAt.toISOString(),
+        };
+      })
+    );
+
+    return { members };
+  }
+}
@@ -0,0 +1,53 @@
+import type { IOrganizationRepository } from "@domain/repositories/organization.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { OrganizationEntity } from "@domain/entities/organization.entity";
+import type { OrganizationMembershipEntity } from "@domain/entities/organization-membership.entity";
+import type { OrganizationOutput } from "@app/dtos/user.dto";
+
+export interface ListOrganizationsInput {
+  userId: string;
+}
+
+export interface ListOrganizationsOutput {
+  organizations: OrganizationOutput[];
+}
+
+export function toOrganizationOutput(
+  organization: OrganizationEntity,
+  membership: OrganizationMembershipEntity
+): OrganizationOutput {
+  return {
+    id: organization.id,
+    name: organization.name,
+    role: membership.role,
+    createdAt: organization.createdAt.toISOString(),
+  };
+}
+
+export class ListOrganizationsUseCase {
+  constructor(
+    private readonly organizationRepository: IOrganizationRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository
+  ) {}
+
+  async execute(
+    input: ListOrganizationsInput
+  ): Promise<ListOrganizationsOutput> {
+    const memberships = await this.membershipRepository.findByUserId(
+      input.userId
+    );
+    const organizations = await this.organizationRepository.findByIds(
+      memberships.map((membership) => membership.organizationId)
+    );
+    const byId = new Map(organizations.map((org) => [org.id, org]));
+
+    return {
+      organizations: memberships.flatMap((membership) => {
+        const organization = byId.get(membership.organizationId);
+        return organization
+          ? [toOrganizationOutput(organization, membership)]
+          : [];
+      }),
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { PasskeyOutput } from "@app/dtos/user.dto";
+
+export interface ListPasskeysInput {
+  userId: string;
+}
+
+export interface ListPasskeysOutput {
+  passkeys: PasskeyOutput[];
+}
+
+export class ListPasskeysUseCase {
+  constructor(
+    private readonly credentialRepository: IWebAuthnCredentialRepository
+  ) {}
+
+  async execute(input: ListPasskeysInput): Promise<ListPasskeysOutput> {
+    const credentials = await this.credentialRepository.findByUserId(
+      input.userId
+    );
+
+    return {
+      passkeys: credentials.map((credential) => ({
+        id: credential.id,
+        name: credential.name,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        createdAt: credential.createdAt.toISOString(),
+        lastUsedAt: credential.lastUsedAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
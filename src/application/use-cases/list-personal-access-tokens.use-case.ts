@@ -0,0 +1,36 @@
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { PersonalAccessTokenOutput } from "@app/dtos/user.dto";
+
+export interface ListPersonalAccessTokensInput {
+  userId: string;
+}
+
+export interface ListPersonalAccessTokensOutput {
+  personalAccessTokens: PersonalAccessTokenOutput[];
+}
+
+export class ListPersonalAccessTokensUseCase {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository
+  ) {}
+
+  async execute(
+    input: ListPersonalAccessTokensInput
+  ): Promise<ListPersonalAccessTokensOutput> {
+    const tokens = await this.personalAccessTokenRepository.findActiveByUserId(
+      input.userId
+    );
+
+    return {
+      personalAccessTokens: tokens.map((token) => ({
+        id: token.id,
+        name: token.name,
+        tokenPrefix: token.tokenPrefix,
+        scopes: token.scopes,
+        createdAt: token.createdAt.toISOString(),
+        expiresAt: token.expiresAt?.toISOString() ?? null,
+        lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
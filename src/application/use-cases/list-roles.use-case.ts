@@ -0,0 +1,27 @@
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { RoleEntity } from "@domain/entities/role.entity";
+import type { RoleOutput } from "@app/dtos/user.dto";
+
+export interface ListRolesOutput {
+  roles: RoleOutput[];
+}
+
+export function toRoleOutput(role: RoleEntity): RoleOutput {
+  return {
+    name: role.name,
+    description: role.description ?? null,
+    permissions: role.permissions,
+    createdAt: role.createdAt.toISOString(),
+    updatedAt: role.updatedAt.toISOString(),
+  };
+}
+
+export class ListRolesUseCase {
+  constructor(private readonly roleRepository: IRoleRepository) {}
+
+  async execute(): Promise<ListRolesOutput> {
+    const roles = await this.roleRepository.findAll();
+
+    return { roles: roles.map(toRoleOutput) };
+  }
+}
@@ -0,0 +1,41 @@
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { SessionOutput } from "@app/dtos/user.dto";
+import { SessionMethods } from "@domain/entities/session.entity";
+import { parseUserAgent } from "@app/services/user-agent-parser";
+
+export interface ListSessionsInput {
+  userId: string;
+  currentSessionId?: string;
+}
+
+export interface ListSessionsOutput {
+  sessions: SessionOutput[];
+}
+
+export class ListSessionsUseCase {
+  constructor(private readonly sessionRepository: ISessionRepository) {}
+
+  async execute(input: ListSessionsInput): Promise<ListSessionsOutput> {
+    const sessions = await this.sessionRepository.findByUserId(input.userId);
+
+    return {
+      sessions: sessions
+        .map((session) => ({
+          sessionId: session.sessionId,
+          ipAddress: session.ipAddress ?? null,
+          userAgent: session.userAgent ?? null,
+          ...parseUserAgent(session.userAgent),
+          createdAt: session.createdAt.toISOString(),
+          lastUsedAt: session.lastUsedAt.toISOString(),
+          expiresAt: session.expiresAt.toISOString(),
+          current: session.sessionId === input.currentSessionId,
+          impersonated: SessionMethods.isImpersonated(session),
+        }))
+        .sort(
+          (a, b) =>
+            Number(b.current) - Number(a.current) ||
+            b.lastUsedAt.localeCompare(a.lastUsedAt)
+        ),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import type {
+  IUserRepository,
+  UserSearchQuery,
+} from "@domain/repositories/user.repository";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { AdminUserOutput } from "@app/dtos/user.dto";
+import { UserMethods } from "@domain/entities/user.entity";
+
+export type ListUsersInput = UserSearchQuery;
+
+export interface ListUsersOutput {
+  users: AdminUserOutput[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export function toAdminUserOutput(user: UserEntity): AdminUserOutput {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    roles: user.roles ?? [],
+    tier: user.tier,
+    isVerified: user.isVerified,
+    mfaEnabled: UserMethods.hasTotp(user),
+    status: UserMethods.getEffectiveStatus(user),
+    statusReason: user.statusReason ?? null,
+    suspendedUntil: user.suspendedUntil?.toISOString() ?? null,
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+export class ListUsersUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  async execute(input: ListUsersInput): Promise<ListUsersOutput> {
+    const { users, total } = await this.userRepository.search(input);
+
+    return {
+      users: users.map(toAdminUserOutput),
+      total,
+      limit: input.limit,
+      offset: input.offset,
+    };
+  }
+}
@@ -0,0 +1,296 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { UserMethods, type UserEntity } from "@domain/entities/user.entity";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { verifyPassword } from "@infra/crypto/password.service";
+import {
+  decryptOtp,
+  verifyOtp,
+  OTP_MAX_ATTEMPTS,
+} from "@infra/crypto/otp.service";
+import { verifyTotp } from "@infra/crypto/totp.service";
+import { verifyAuthentication } from "@infra/crypto/webauthn.service";
+import type { AuthenticationResponseJSON } from "@infra/crypto/webauthn.service";
+import {
+  reauthenticationCodeKey,
+  reauthenticationPasskeyKey,
+  type ReauthenticationCode,
+} from "@app/use-cases/start-reauthentication.use-case";
+
+export type ReauthenticateInput = {
+  userId: string;
+  sessionId: string;
+} & (
+  | {
+      method?: "password";
+      password: string;
+      totpCode?: string;
+      emailCode?: string;
+    }
+  | { method: "passkey"; response: AuthenticationResponseJSON }
+  | { method: "email"; emailCode: string }
+);
+
+export interface ReauthenticateOutput {
+  accessToken: string;
+  authenticatedAt: string;
+  authMethods: AuthMethod[];
+}
+
+/**
+ * Step-up authentication for the current session. The user confirms their
+ * password (plus an authenticator code if they have one, or optionally an
+ * emailed code), a passkey, or an emailed code alone, and the session's
+ * `auth_time` and `amr` are replaced. Refreshes carry the new values forward.
+ * Passkey and emailed-code challenges come from `StartReauthenticationUseCase`.
+ */
+export class ReauthenticateUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly roleRepository: IRoleRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: ReauthenticateInput,
+    ctx: RequestContext
+  ): Promise<ReauthenticateOutput> {
+    const [user, session] = await Promise.all([
+      this.userRepository.findById(input.userId),
+      this.sessionRepository.findBySessionId(input.sessionId),
+    ]);
+
+    if (!user || !session || session.userId !== user.id) {
+      throw new AuthenticationError("Session not found");
+    }
+
+    let authMethods: AuthMethod[];
+    switch (input.method) {
+      case "passkey":
+        authMethods = await this.verifyPasskey(
+          user,
+          session.sessionId,
+          input.response,
+          ctx
+        );
+        break;
+
+      case "email":
+        await this.verifyEmailCode(
+          user,
+          session.sessionId,
+          input.emailCode,
+          ctx
+        );
+        authMethods = ["email"];
+        break;
+
+      default:
+        authMethods = await this.verifyPassword(
+          user,
+          session.sessionId,
+          input,
+          ctx
+        );
+    }
+
+    const authenticatedAt = new Date();
+
+    await this.sessionRepository.updateAuthentication(
+      session.sessionId,
+      authenticatedAt,
+      authMethods
+    );
+
+    const permissions = await new PermissionResolver(
+      this.roleRepository
+    ).resolve(user);
+
+    const { token: accessToken } = await this.tokenService.generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions,
+      organizationId: session.activeOrganizationId,
+      authTime: authenticatedAt,
+      amr: authMethods,
+      impersonatorId: session.impersonatorId,
+      sessionId: session.sessionId,
+      familyId: session.familyId ?? session.sessionId,
+      tokenVersion: user.tokenVersion,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "REAUTHENTICATED",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { authMethods },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      accessToken,
+      authenticatedAt: authenticatedAt.toISOString(),
+      authMethods,
+    };
+  }
+
+  private async verifyPassword(
+    user: UserEntity,
+    sessionId: string,
+    input: { password: string; totpCode?: string; emailCode?: string },
+    ctx: RequestContext
+  ): Promise<AuthMethod[]> {
+    const { valid } = await verifyPassword(input.password, user.hashedPassword);
+    if (!valid) {
+      this.recordFailure(user, sessionId, "invalid_password", ctx);
+      throw new AuthenticationError("Invalid credentials");
+    }
+
+    if (UserMethods.hasTotp(user)) {
+      if (!input.totpCode) {
+        throw new ValidationError("Authenticator code is required", {
+          totpCode: "Enter the code from your authenticator app",
+        });
+      }
+
+      const secret = decryptOtp(user.totpSecret!);
+      const step = secret ? verifyTotp(input.totpCode, secret) : null;
+      const accepted =
+        step !== null &&
+        (await this.userRepository.recordTotpStep(user.id, step));
+
+      if (!accepted) {
+        this.recordFailure(user, sessionId, "totp_mismatch", ctx);
+        throw new AuthenticationError("Invalid authenticator code");
+      }
+
+      return ["pwd", "otp", "mfa"];
+    }
+
+    // Without an authenticator app, an emailed code is the second factor,
+    // as it is at sign-in.
+    if (input.emailCode) {
+      await this.verifyEmailCode(user, sessionId, input.emailCode, ctx);
+      return ["pwd", "otp", "mfa"];
+    }
+
+    return ["pwd"];
+  }
+
+  private async verifyPasskey(
+    user: UserEntity,
+    sessionId: string,
+    response: AuthenticationResponseJSON,
+    ctx: RequestContext
+  ): Promise<AuthMethod[]> {
+    const expectedChallenge = await this.ephemeralStore.consume<string>(
+      reauthenticationPasskeyKey(sessionId)
+    );
+    if (!expectedChallenge) {
+      throw new AuthenticationError(
+        "Passkey confirmation has expired. Please try again."
+      );
+    }
+
+    const credential = await this.credentialRepository.findByCredentialId(
+      response.id
+    );
+    if (!credential || credential.userId !== user.id) {
+      this.recordFailure(user, sessionId, "passkey_not_found", ctx);
+      throw new AuthenticationError("Invalid credentials");
+    }
+
+    const newCounter = await verifyAuthentication(
+      response,
+      expectedChallenge,
+      credential
+    );
+    if (newCounter === null) {
+      this.recordFailure(user, sessionId, "passkey_assertion_invalid", ctx);
+      throw new AuthenticationError("Invalid credentials");
+    }
+
+    await this.credentialRepository.updateUsage(credential.credentialId, {
+      counter: newCounter,
+      lastUsedAt: new Date(),
+    });
+
+    return ["hwk", "user"];
+  }
+
+  private async verifyEmailCode(
+    user: UserEntity,
+    sessionId: string,
+    code: string,
+    ctx: RequestContext
+  ): Promise<void> {
+    const key = reauthenticationCodeKey(sessionId);
+    const pending = await this.ephemeralStore.get<ReauthenticationCode>(key);
+    const now = Date.now();
+
+    if (!pending || pending.expiresAt <= now) {
+      throw new AuthenticationError(
+        "No verification code found. Please request a new one."
+      );
+    }
+
+    if (!verifyOtp(code, pending.otpSecret)) {
+      const attempts = pending.attempts + 1;
+      if (attempts >= OTP_MAX_ATTEMPTS) {
+        await this.ephemeralStore.delete(key);
+      } else {
+        await this.ephemeralStore.set<ReauthenticationCode>(
+          key,
+          { ...pending, attempts },
+          Math.ceil((pending.expiresAt - now) / 1000)
+        );
+      }
+
+      this.recordFailure(user, sessionId, "otp_mismatch", ctx);
+      throw new AuthenticationError("Invalid verification code");
+    }
+
+    await this.ephemeralStore.delete(key);
+  }
+
+  private recordFailure(
+    user: Pick<UserEntity, "id" | "email">,
+    sessionId: string,
+    reason: string,
+    ctx: RequestContext
+  ): void {
+    void this.authEventRepository.create({
+      eventType: "REAUTHENTICATED",
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: false,
+      failureReason: reason,
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { OAuthTokenOutput } from "@app/dtos/oauth.dto";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import type { RefreshTokenUseCase } from "@app/use-cases/refresh-token.use-case";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { TokenError } from "@domain/errors/token.error";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { ACCESS_TOKEN_TTL_SECONDS } from "@infra/crypto/jwt.service";
+
+export interface RefreshClientTokenInput extends ClientCredentials {
+  refreshToken: string;
+}
+
+/**
+ * The `refresh_token` grant at the OIDC token endpoint: authenticates the
+ * client, then rotates the session exactly like a first-party refresh. The
+ * token must have been issued to the same client.
+ */
+export class RefreshClientTokenUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly refreshTokenUseCase: RefreshTokenUseCase
+  ) {}
+
+  async execute(
+    input: RefreshClientTokenInput,
+    ctx: RequestContext
+  ): Promise<OAuthTokenOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    if (!OAuthClientMethods.allowsGrant(client, "refresh_token")) {
+      throw new OAuthError(
+        "unauthorized_client",
+        "Client is not allowed to use refresh tokens"
+      );
+    }
+
+    try {
+      const result = await this.refreshTokenUseCase.execute(
+        { refreshToken: input.refreshToken, clientId: client.clientId },
+        ctx
+      );
+
+      return {
+        accessToken: result.accessToken,
+        tokenType: "Bearer",
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        refreshToken: result.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof TokenError || error instanceof AuthorizationError) {
+        throw new OAuthError("invalid_grant", error.message);
+      }
+      throw error;
+    }
+  }
+}
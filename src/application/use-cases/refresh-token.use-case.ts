@@ -3,16 +3,40 @@ import type { IUserRepository } from "@domain/repositories/user.repository";
 import type { ISessionRepository } from "@domain/repositories/session.repository";
 import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
 import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
 import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type {
+  RefreshGraceCache,
+  RotatedTokenPair,
+} from "@app/services/refresh-grace-cache";
 import type {
   RefreshTokenInput,
   RefreshTokenOutput,
   RequestContext,
 } from "@app/dtos/auth.dto";
+import { SessionMethods } from "@domain/entities/session.entity";
 import { TokenError } from "@domain/errors/token.error";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
 import { sha256Hash } from "@infra/crypto/hash";
+import { resolveSessionPolicy } from "@infra/config/session-policies";
+
+export interface RefreshTokenOptions {
+  /**
+   * When set, the account owner is emailed if refresh token reuse is
+   * detected.
+   */
+  emailProvider?: IEmailProvider;
 
-const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+  /**
+   * When set, a token replayed within the grace period of its rotation gets
+   * the pair it was rotated into instead of an error.
+   */
+  graceCache?: RefreshGraceCache;
+}
 
 export class RefreshTokenUseCase {
   constructor(
@@ -20,7 +44,10 @@ export class RefreshTokenUseCase {
     private readonly sessionRepository: ISessionRepository,
     private readonly authEventRepository: IAuthEventRepository,
     private readonly tokenService: ITokenService,
-    private readonly revocationStore: IRevocationStore
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly options: RefreshTokenOptions = {}
   ) {}
 
   async execute(
@@ -33,6 +60,21 @@ export class RefreshTokenUseCase {
       await this.sessionRepository.findAndDeleteByRefreshTokenHash(tokenHash);
 
     if (!oldSession) {
+      const rotated = await this.findRotatedWithinGracePeriod(
+        input,
+        tokenHash,
+        ctx
+      );
+      if (rotated) {
+        return {
+          success: true,
+          accessToken: rotated.accessToken,
+          refreshToken: rotated.refreshToken,
+        };
+      }
+
+      await this.detectRefreshTokenReuse(input.refreshToken, ctx);
+
       void this.authEventRepository.create({
         eventType: "TOKEN_REFRESH_FAILED",
         ipAddress: ctx.ipAddress,
@@ -46,6 +88,28 @@ export class RefreshTokenUseCase {
       throw new TokenError("invalid_signature", "Invalid refresh token");
     }
 
+    if (oldSession.clientId !== input.clientId) {
+      void this.authEventRepository.create({
+        eventType: "TOKEN_REFRESH_FAILED",
+        userId: oldSession.userId,
+        sessionId: oldSession.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "client_mismatch",
+        metadata: {
+          sessionClientId: oldSession.clientId ?? null,
+          requestClientId: input.clientId ?? null,
+        },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new TokenError("invalid_signature", "Invalid refresh token");
+    }
+
+    await this.options.graceCache?.markPending(tokenHash);
+
     const refreshPayload = await this.tokenService.verifyRefreshToken(
       input.refreshToken
     );
@@ -66,12 +130,17 @@ export class RefreshTokenUseCase {
       throw new TokenError("invalid_signature", "Invalid refresh token");
     }
 
-    const [sessionRevoked, userRevocationTs] = await Promise.all([
-      this.revocationStore.isSessionRevoked(refreshPayload.sessionId),
-      this.revocationStore.getUserRevocationTimestamp(refreshPayload.sub),
-    ]);
+    const familyId = oldSession.familyId ?? oldSession.sessionId;
+
+    const [sessionRevoked, familyRevoked, userRevocationTs] = await Promise.all(
+      [
+        this.revocationStore.isSessionRevoked(refreshPayload.sessionId),
+        this.revocationStore.isTokenFamilyRevoked(familyId),
+        this.revocationStore.getUserRevocationTimestamp(refreshPayload.sub),
+      ]
+    );
 
-    if (sessionRevoked) {
+    if (sessionRevoked || familyRevoked) {
       throw new TokenError("revoked", "Session has been revoked");
     }
 
@@ -92,29 +161,133 @@ export class RefreshTokenUseCase {
       throw new TokenError("user_not_verified", "User is not verified");
     }
 
+    if (refreshPayload.role && refreshPayload.role !== user.role) {
+      void this.authEventRepository.create({
+        eventType: "TOKEN_REFRESH_FAILED",
+        userId: user.id,
+        email: user.email,
+        sessionId: oldSession.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "role_drift",
+        metadata: { tokenRole: refreshPayload.role, currentRole: user.role },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new TokenError(
+        "role_drift",
+        "Your role has changed. Please sign in again."
+      );
+    }
+
     if (refreshPayload.tv !== user.tokenVersion) {
       throw new TokenError("version_mismatch", "Token version mismatch");
     }
 
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "TOKEN_REFRESH_FAILED",
+        userId: user.id,
+        email: user.email,
+        sessionId: oldSession.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
+    const policy = resolveSessionPolicy(user);
+    const endReason = SessionMethods.getPolicyViolation(oldSession, policy);
+
+    if (endReason) {
+      void this.authEventRepository.create({
+        eventType: "SESSION_EXPIRED",
+        userId: user.id,
+        email: user.email,
+        sessionId: oldSession.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: endReason,
+        metadata: {
+          familyId,
+          signedInAt: oldSession.createdAt.toISOString(),
+          lastUsedAt: oldSession.lastUsedAt.toISOString(),
+        },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new TokenError(
+        "expired",
+        endReason === "idle_timeout"
+          ? "Session ended after a period of inactivity"
+          : "Session reached its maximum lifetime"
+      );
+    }
+
+    await new SessionLimiter(
+      this.sessionRepository,
+      this.revocationStore,
+      this.authEventRepository
+    ).makeRoom(user, ctx, { rotation: true });
+
     const newSessionId = uuidv4();
 
-    const remainingMs = oldSession.expiresAt.getTime() - Date.now();
-    const remainingSeconds = Math.max(
-      Math.ceil(remainingMs / 1000),
-      DEFAULT_SESSION_TTL_SECONDS
+    const expiresAt = new Date(
+      Math.min(
+        oldSession.expiresAt.getTime(),
+        SessionMethods.getAbsoluteExpiry(oldSession, policy).getTime()
+      )
+    );
+    const remainingSeconds = Math.ceil(
+      (expiresAt.getTime() - Date.now()) / 1000
     );
+    const permissions = await new PermissionResolver(
+      this.roleRepository
+    ).resolve(user);
+
+    // Drop the active organization if the user has since left it.
+    const activeOrganizationId =
+      oldSession.activeOrganizationId &&
+      (await this.membershipRepository.find(
+        oldSession.activeOrganizationId,
+        user.id
+      ))
+        ? oldSession.activeOrganizationId
+        : undefined;
+
+    const authenticatedAt = oldSession.authenticatedAt ?? oldSession.createdAt;
 
     const [newAccessResult, newRefreshResult] = await Promise.all([
       this.tokenService.generateAccessToken({
         userId: user.id,
         email: user.email,
         role: user.role,
+        permissions,
+        organizationId: activeOrganizationId,
+        authTime: authenticatedAt,
+        amr: oldSession.authMethods ?? [],
+        impersonatorId: oldSession.impersonatorId,
+        clientId: oldSession.clientId,
+        scopes: oldSession.scopes,
         sessionId: newSessionId,
+        familyId,
         tokenVersion: user.tokenVersion,
       }),
       this.tokenService.generateRefreshToken({
         userId: user.id,
+        role: user.role,
         sessionId: newSessionId,
+        familyId,
         tokenVersion: user.tokenVersion,
         ttlSeconds: remainingSeconds,
       }),
@@ -126,12 +299,26 @@ export class RefreshTokenUseCase {
       sessionId: newSessionId,
       userId: user.id,
       refreshTokenHash: newRefreshTokenHash,
+      familyId,
       ipAddress: ctx.ipAddress,
       userAgent: ctx.userAgent,
-      expiresAt: new Date(Date.now() + remainingSeconds * 1000),
+      expiresAt,
+      authenticatedAt,
+      authMethods: oldSession.authMethods,
+      activeOrganizationId,
+      impersonatorId: oldSession.impersonatorId,
+      clientId: oldSession.clientId,
+      scopes: oldSession.scopes,
+      createdAt: oldSession.createdAt,
       lastUsedAt: new Date(),
     });
 
+    await this.options.graceCache?.save(input.refreshToken, tokenHash, {
+      sessionId: newSessionId,
+      accessToken: newAccessResult.token,
+      refreshToken: newRefreshResult.token,
+    });
+
     void this.authEventRepository.create({
       eventType: "TOKEN_REFRESH",
       userId: user.id,
@@ -144,6 +331,7 @@ export class RefreshTokenUseCase {
       metadata: {
         oldSessionId: oldSession.sessionId,
         newSessionId,
+        familyId,
       },
       serviceId: "auth-service",
       requestId: ctx.requestId,
@@ -155,4 +343,125 @@ export class RefreshTokenUseCase {
       refreshToken: newRefreshResult.token,
     };
   }
+
+  /**
+   * Returns the pair a just-rotated token was exchanged for, provided that
+   * pair is still the current one for a family that has not been revoked
+   * and the same client is redeeming it.
+   */
+  private async findRotatedWithinGracePeriod(
+    input: RefreshTokenInput,
+    tokenHash: string,
+    ctx: RequestContext
+  ): Promise<RotatedTokenPair | null> {
+    if (!this.options.graceCache) return null;
+
+    const rotated = await this.options.graceCache.find(
+      input.refreshToken,
+      tokenHash
+    );
+    if (!rotated) return null;
+
+    const session = await this.sessionRepository.findBySessionId(
+      rotated.sessionId
+    );
+    if (
+      !session ||
+      session.clientId !== input.clientId ||
+      session.refreshTokenHash !== sha256Hash(rotated.refreshToken) ||
+      (await this.revocationStore.isTokenFamilyRevoked(
+        session.familyId ?? session.sessionId
+      ))
+    ) {
+      return null;
+    }
+
+    void this.authEventRepository.create({
+      eventType: "TOKEN_REFRESH",
+      userId: session.userId,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        newSessionId: session.sessionId,
+        familyId: session.familyId,
+        gracePeriodReplay: true,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return rotated;
+  }
+
+  /**
+   * A refresh token with a valid signature but no session was either already
+   * rotated or belongs to a session that has ended. If its family still has a
+   * live session, someone else holds the current token: end the family.
+   */
+  private async detectRefreshTokenReuse(
+    refreshToken: string,
+    ctx: RequestContext
+  ): Promise<void> {
+    const payload = await this.tokenService.verifyRefreshToken(refreshToken);
+    if (!payload?.familyId) return;
+
+    const liveSession = await this.sessionRepository.findByFamilyId(
+      payload.familyId
+    );
+    if (!liveSession) return;
+
+    const remainingSeconds = Math.max(
+      Math.ceil((liveSession.expiresAt.getTime() - Date.now()) / 1000),
+      1
+    );
+
+    await this.revocationStore.revokeTokenFamily(
+      payload.familyId,
+      remainingSeconds
+    );
+    await this.sessionRepository.deleteByFamilyId(payload.familyId);
+
+    void this.authEventRepository.create({
+      eventType: "SUSPICIOUS_ACTIVITY",
+      userId: payload.sub,
+      sessionId: liveSession.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: false,
+      failureReason: "refresh_token_reuse",
+      metadata: {
+        familyId: payload.familyId,
+        replayedSessionId: payload.sessionId,
+        revokedSessionId: liveSession.sessionId,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    if (this.options.emailProvider) {
+      const user = await this.userRepository.findById(payload.sub);
+      if (user) {
+        void this.options.emailProvider
+          .sendSecurityAlertEmail(user.email, {
+            summary:
+              "A sign-in token that had already been used was presented again, so we signed that session out everywhere as a precaution.",
+            ipAddress: ctx.ipAddress,
+            userAgent: ctx.userAgent,
+            occurredAt: new Date(),
+          })
+          .catch((emailError: unknown) => {
+            console.error(
+              `[RefreshTokenUseCase] Failed to send security alert to ${user.email}:`,
+              emailError instanceof Error ? emailError.message : "Unknown error"
+            );
+          });
+      }
+    }
+
+    throw new TokenError("revoked", "Refresh token reuse detected");
+  }
 }
@@ -0,0 +1,63 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import { UserMethods } from "@domain/entities/user.entity";
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "@infra/crypto/recovery-code.service";
+
+export interface RegenerateRecoveryCodesInput {
+  userId: string;
+}
+
+export interface RegenerateRecoveryCodesOutput {
+  recoveryCodes: string[];
+}
+
+export class RegenerateRecoveryCodesUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: RegenerateRecoveryCodesInput,
+    ctx: RequestContext
+  ): Promise<RegenerateRecoveryCodesOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (!UserMethods.requiresSecondFactor(user)) {
+      throw new ValidationError(
+        "Enable two-factor authentication before generating recovery codes"
+      );
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await this.userRepository.replaceRecoveryCodes(
+      user.id,
+      recoveryCodes.map(hashRecoveryCode)
+    );
+
+    void this.authEventRepository.create({
+      eventType: "RECOVERY_CODES_GENERATED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { count: recoveryCodes.length, reason: "regenerated" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { recoveryCodes };
+  }
+}
@@ -0,0 +1,89 @@
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { OrganizationMethods } from "@domain/entities/organization.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface RemoveOrganizationMemberInput {
+  actorUserId: string;
+  organizationId: string;
+  userId: string;
+}
+
+export interface RemoveOrganizationMemberOutput {
+  success: true;
+  message: string;
+}
+
+/**
+ * Removes a member, or lets a member leave. Admins can remove members and
+ * other admins; only owners can remove owners. The last owner cannot leave.
+ */
+export class RemoveOrganizationMemberUseCase {
+  constructor(
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: RemoveOrganizationMemberInput,
+    ctx: RequestContext
+  ): Promise<RemoveOrganizationMemberOutput> {
+    const [actor, target] = await Promise.all([
+      this.membershipRepository.find(input.organizationId, input.actorUserId),
+      this.membershipRepository.find(input.organizationId, input.userId),
+    ]);
+
+    if (!actor) {
+      throw new AuthorizationError("Not a member of this organization");
+    }
+
+    if (!target) {
+      throw new NotFoundError("Member not found");
+    }
+
+    if (input.userId !== input.actorUserId) {
+      const required = target.role === "owner" ? "owner" : "admin";
+      if (!OrganizationMethods.hasRole(actor.role, required)) {
+        throw new AuthorizationError(
+          `Insufficient organization role. Required: ${required}`
+        );
+      }
+    }
+
+    if (
+      target.role === "owner" &&
+      (await this.membershipRepository.countOwners(input.organizationId)) <= 1
+    ) {
+      throw new ConflictError("An organization must keep at least one owner");
+    }
+
+    await this.membershipRepository.delete(input.organizationId, input.userId);
+
+    void this.authEventRepository.create({
+      eventType: "ORGANIZATION_MEMBER_REMOVED",
+      userId: input.actorUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        organizationId: input.organizationId,
+        memberUserId: input.userId,
+        role: target.role,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message:
+        input.userId === input.actorUserId
+          ? "Left organization"
+          : "Member removed",
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface RenamePasskeyInput {
+  userId: string;
+  passkeyId: string;
+  name: string;
+}
+
+export interface RenamePasskeyOutput {
+  success: true;
+  message: string;
+}
+
+export class RenamePasskeyUseCase {
+  constructor(
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: RenamePasskeyInput,
+    ctx: RequestContext
+  ): Promise<RenamePasskeyOutput> {
+    const renamed = await this.credentialRepository.rename(
+      input.userId,
+      input.passkeyId,
+      input.name
+    );
+
+    if (!renamed) {
+      throw new NotFoundError("Passkey not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "PASSKEY_RENAMED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { passkeyId: input.passkeyId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Passkey renamed",
+    };
+  }
+}
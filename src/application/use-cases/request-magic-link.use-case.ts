@@ -0,0 +1,96 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+import { encryptOtp } from "@infra/crypto/otp.service";
+
+export interface RequestMagicLinkInput {
+  email: string;
+  rememberMe?: boolean;
+}
+
+export interface RequestMagicLinkOutput {
+  success: true;
+  message: string;
+}
+
+const MAGIC_LINK_EXPIRY_MS = 15 * 60 * 1000;
+
+export class RequestMagicLinkUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly emailProvider: IEmailProvider
+  ) {}
+
+  async execute(
+    input: RequestMagicLinkInput,
+    ctx: RequestContext
+  ): Promise<RequestMagicLinkOutput> {
+    const email = input.email.toLowerCase().trim();
+
+    const genericResponse: RequestMagicLinkOutput = {
+      success: true,
+      message:
+        "If an account exists with this email, a sign-in link has been sent.",
+    };
+
+    const user = await this.userRepository.findByEmail(email);
+
+    if (!user) {
+      void this.authEventRepository.create({
+        eventType: "MAGIC_LINK_REQUESTED",
+        email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: "user_not_found",
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+
+      return genericResponse;
+    }
+
+    const rawToken = generateRandomToken(32);
+
+    const tokenHash = sha256Hash(rawToken);
+
+    const encryptedToken = encryptOtp(rawToken);
+
+    const tokenExpiry = new Date(Date.now() + MAGIC_LINK_EXPIRY_MS);
+
+    await this.userRepository.updateMagicLinkToken(user.id, {
+      magicLinkToken: encryptedToken,
+      magicLinkTokenHash: tokenHash,
+      magicLinkTokenExpiry: tokenExpiry,
+      magicLinkRememberMe: input.rememberMe ?? false,
+    });
+
+    this.emailProvider
+      .sendMagicLinkEmail(user.email, rawToken)
+      .catch((error: unknown) => {
+        console.error(
+          `[RequestMagicLinkUseCase] Failed to send magic link to ${user.email}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      });
+
+    void this.authEventRepository.create({
+      eventType: "MAGIC_LINK_REQUESTED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { rememberMe: input.rememberMe ?? false },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return genericResponse;
+  }
+}
@@ -0,0 +1,71 @@
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+
+const SESSION_REVOCATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface RevokeOtherSessionsInput {
+  userId: string;
+  currentSessionId: string;
+}
+
+export interface RevokeOtherSessionsOutput {
+  success: true;
+  message: string;
+  sessionsRevoked: number;
+}
+
+/**
+ * Signs out every device except the one making the request. Unlike global
+ * logout, the token version is left alone so the current session survives.
+ */
+export class RevokeOtherSessionsUseCase {
+  constructor(
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: RevokeOtherSessionsInput,
+    ctx: RequestContext
+  ): Promise<RevokeOtherSessionsOutput> {
+    const sessions = await this.sessionRepository.findByUserId(input.userId);
+    const others = sessions.filter(
+      (session) => session.sessionId !== input.currentSessionId
+    );
+
+    await Promise.all(
+      others.map(async (session) => {
+        await this.revocationStore.revokeSession(
+          session.sessionId,
+          SESSION_REVOCATION_TTL_SECONDS
+        );
+        await this.sessionRepository.delete(session.sessionId);
+      })
+    );
+
+    void this.authEventRepository.create({
+      eventType: "SESSION_REVOKED",
+      userId: input.userId,
+      sessionId: input.currentSessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        reason: "other_devices_signed_out",
+        revokedSessionIds: others.map((session) => session.sessionId),
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Signed out of all other devices",
+      sessionsRevoked: others.length,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface RevokePersonalAccessTokenInput {
+  userId: string;
+  tokenId: string;
+}
+
+export interface RevokePersonalAccessTokenOutput {
+  success: true;
+  message: string;
+}
+
+export class RevokePersonalAccessTokenUseCase {
+  constructor(
+    private readonly personalAccessTokenRepository: IPersonalAccessTokenRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: RevokePersonalAccessTokenInput,
+    ctx: RequestContext
+  ): Promise<RevokePersonalAccessTokenOutput> {
+    const revoked = await this.personalAccessTokenRepository.revoke(
+      input.userId,
+      input.tokenId
+    );
+
+    if (!revoked) {
+      throw new NotFoundError("Access token not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "PERSONAL_ACCESS_TOKEN_REVOKED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { tokenId: revoked.id, tokenPrefix: revoked.tokenPrefix },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Access token revoked",
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+const SESSION_REVOCATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface RevokeSessionInput {
+  userId: string;
+  sessionId: string;
+}
+
+export interface RevokeSessionOutput {
+  success: true;
+  message: string;
+}
+
+export class RevokeSessionUseCase {
+  constructor(
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: RevokeSessionInput,
+    ctx: RequestContext
+  ): Promise<RevokeSessionOutput> {
+    const session = await this.sessionRepository.findBySessionId(
+      input.sessionId
+    );
+
+    if (!session || session.userId !== input.userId) {
+      throw new NotFoundError("Session not found");
+    }
+
+    await this.revocationStore.revokeSession(
+      session.sessionId,
+      SESSION_REVOCATION_TTL_SECONDS
+    );
+    await this.sessionRepository.delete(session.sessionId);
+
+    void this.authEventRepository.create({
+      eventType: "SESSION_REVOKED",
+      userId: input.userId,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { reason: "user_revoked" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Session revoked",
+    };
+  }
+}
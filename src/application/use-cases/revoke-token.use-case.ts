@@ -0,0 +1,184 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import { sha256Hash } from "@infra/crypto/hash";
+
+export interface RevokeTokenInput extends ClientCredentials {
+  token: string;
+  tokenTypeHint?: string;
+}
+
+/**
+ * RFC 7009 token revocation. Unknown, expired or already-revoked tokens are
+ * not an error: the caller's goal (the token no longer works) is met. Only
+ * tokens issued to the calling client are revoked.
+ */
+export class RevokeTokenUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(input: RevokeTokenInput, ctx: RequestContext): Promise<void> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    if (input.tokenTypeHint === "refresh_token") {
+      if (await this.revokeRefreshToken(input.token, client.clientId, ctx)) {
+        return;
+      }
+      await this.revokeAccessToken(input.token, client.clientId, ctx);
+      return;
+    }
+
+    if (await this.revokeAccessToken(input.token, client.clientId, ctx)) {
+      return;
+    }
+    await this.revokeRefreshToken(input.token, client.clientId, ctx);
+  }
+
+  private async revokeAccessToken(
+    token: string,
+    clientId: string,
+    ctx: RequestContext
+  ): Promise<boolean> {
+    const payload =
+      (await this.tokenService.verifyAccessToken(token)) ??
+      (await this.tokenService.verifyMachineToken(token));
+    if (!payload) return false;
+
+    // A machine token's `client:<id>` subject is not a user, so it stays out
+    // of `userId` and its client is recorded in the metadata instead.
+    const isUserToken = "sessionId" in payload;
+    const owner = isUserToken
+      ? {
+          userId: payload.sub,
+          email: payload.email,
+          sessionId: payload.sessionId,
+        }
+      : {};
+    const tokenMetadata = isUserToken
+      ? {}
+      : { machineClientId: payload.clientId };
+
+    if (payload.clientId !== clientId) {
+      this.recordForeignToken(
+        owner,
+        clientId,
+        "access_token",
+        ctx,
+        tokenMetadata
+      );
+      return true;
+    }
+
+    const remainingSeconds = payload.exp - Math.floor(Date.now() / 1000);
+    if (remainingSeconds > 0) {
+      await this.revocationStore.revokeToken(payload.jti, remainingSeconds);
+    }
+
+    void this.authEventRepository.create({
+      eventType: "TOKEN_REVOKED",
+      ...owner,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        clientId,
+        tokenType: "access_token",
+        jti: payload.jti,
+        ...tokenMetadata,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return true;
+  }
+
+  /**
+   * Ends the whole refresh token family, so access tokens already issued
+   * from it stop working too.
+   */
+  private async revokeRefreshToken(
+    token: string,
+    clientId: string,
+    ctx: RequestContext
+  ): Promise<boolean> {
+    const session = await this.sessionRepository.findByRefreshTokenHash(
+      sha256Hash(token)
+    );
+    if (!session) return false;
+
+    if (session.clientId !== clientId) {
+      this.recordForeignToken(
+        { userId: session.userId, sessionId: session.sessionId },
+        clientId,
+        "refresh_token",
+        ctx
+      );
+      return true;
+    }
+
+    const familyId = session.familyId ?? session.sessionId;
+    const remainingSeconds = Math.max(
+      Math.ceil((session.expiresAt.getTime() - Date.now()) / 1000),
+      1
+    );
+
+    await this.revocationStore.revokeTokenFamily(familyId, remainingSeconds);
+    await this.sessionRepository.deleteByFamilyId(familyId);
+
+    void this.authEventRepository.create({
+      eventType: "TOKEN_REVOKED",
+      userId: session.userId,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId, tokenType: "refresh_token", familyId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return true;
+  }
+
+  /**
+   * A client may only revoke tokens issued to it. Anything else is left
+   * alone and still answered with success, as RFC 7009 §2.1 allows.
+   */
+  private recordForeignToken(
+    owner: { userId?: string; email?: string; sessionId?: string },
+    clientId: string,
+    tokenType: "access_token" | "refresh_token",
+    ctx: RequestContext,
+    tokenMetadata: Record<string, unknown> = {}
+  ): void {
+    void this.authEventRepository.create({
+      eventType: "TOKEN_REVOKED",
+      ...owner,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: false,
+      failureReason: "client_mismatch",
+      metadata: { clientId, tokenType, ...tokenMetadata },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+  }
+}
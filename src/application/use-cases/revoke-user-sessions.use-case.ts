@@ -0,0 +1,76 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { UserMethods } from "@domain/entities/user.entity";
+
+const USER_REVOCATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface RevokeUserSessionsInput {
+  adminUserId: string;
+  userId: string;
+}
+
+export interface RevokeUserSessionsOutput {
+  success: true;
+  message: string;
+  sessionsRevoked: number;
+}
+
+/**
+ * Admin counterpart of global logout: bumps the user's token version and
+ * revokes every session, audited against the acting admin.
+ */
+export class RevokeUserSessionsUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: RevokeUserSessionsInput,
+    ctx: RequestContext
+  ): Promise<RevokeUserSessionsOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const newTokenVersion = UserMethods.incrementTokenVersion(user);
+    await this.userRepository.updateTokenVersion(user.id, newTokenVersion);
+
+    await this.revocationStore.revokeAllUserSessions(
+      user.id,
+      USER_REVOCATION_TTL_SECONDS
+    );
+
+    const deletedCount = await this.sessionRepository.deleteAllForUser(user.id);
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_SESSIONS_REVOKED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        sessionsDeleted: deletedCount,
+        newTokenVersion,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "All of the user's sessions have been revoked",
+      sessionsRevoked: deletedCount,
+    };
+  }
+}
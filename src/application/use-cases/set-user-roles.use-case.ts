@@ -0,0 +1,76 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+
+export interface SetUserRolesInput {
+  adminUserId: string;
+  userId: string;
+  roles: string[];
+}
+
+export interface SetUserRolesOutput {
+  success: true;
+  message: string;
+  roles: string[];
+}
+
+/**
+ * Replaces the custom roles a user holds. Only roles that exist in the roles
+ * collection can be assigned.
+ */
+export class SetUserRolesUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly roleRepository: IRoleRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: SetUserRolesInput,
+    ctx: RequestContext
+  ): Promise<SetUserRolesOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const names = [...new Set(input.roles)].sort();
+    const found = await this.roleRepository.findByNames(names);
+    const unknown = names.filter(
+      (name) => !found.some((role) => role.name === name)
+    );
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown roles: ${unknown.join(", ")}`, {
+        roles: "Every role must exist",
+      });
+    }
+
+    await this.userRepository.updateRoles(user.id, names);
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_USER_ROLES_CHANGED",
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        previousRoles: user.roles ?? [],
+        roles: names,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "User roles updated",
+      roles: names,
+    };
+  }
+}
@@ -1,8 +1,9 @@
-import { v4 as uuidv4 } from "uuid";
 import type { IUserRepository } from "@domain/repositories/user.repository";
 import type { ISessionRepository } from "@domain/repositories/session.repository";
 import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
 import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
 import type { IEmailProvider } from "@app/interfaces/email.provider";
 import type {
   SigninInput,
@@ -13,17 +14,15 @@ import { AuthenticationError } from "@domain/errors/authentication.error";
 import { ValidationError } from "@domain/errors/validation.error";
 import { UserMethods } from "@domain/entities/user.entity";
 import { verifyPassword, hashPassword } from "@infra/crypto/password.service";
-import { sha256Hash } from "@infra/crypto/hash";
 import {
-  generateOtp,
-  encryptOtp,
-  OTP_EXPIRY_MS,
-} from "@infra/crypto/otp.service";
-import { checkOtpRateLimit } from "@infra/redis/otp-rate-limiter";
-
-const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
-
-const REMEMBER_ME_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+  REMEMBER_ME_SESSION_TTL_SECONDS,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { SecondFactorChallenge } from "@app/services/second-factor-challenge";
 
 export class SigninUseCase {
   constructor(
@@ -31,6 +30,8 @@ export class SigninUseCase {
     private readonly sessionRepository: ISessionRepository,
     private readonly authEventRepository: IAuthEventRepository,
     private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository,
     private readonly emailProvider: IEmailProvider
   ) {}
 
@@ -96,6 +97,23 @@ export class SigninUseCase {
       throw new AuthenticationError("Invalid credentials");
     }
 
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
     if (needsRehash) {
       hashPassword(input.password)
         .then((newHash) => this.userRepository.updatePassword(user.id, newHash))
@@ -107,129 +125,49 @@ export class SigninUseCase {
         });
     }
 
-    if (UserMethods.isAdmin(user)) {
-      return this.handleAdminSignin(user, ctx);
+    if (UserMethods.requiresSecondFactor(user)) {
+      return new SecondFactorChallenge(
+        this.userRepository,
+        this.authEventRepository,
+        this.emailProvider
+      ).start(user, "pwd", ctx);
     }
 
     return this.handleStandardSignin(user, input.rememberMe ?? false, ctx);
   }
 
-  private async handleAdminSignin(
-    user: {
-      id: string;
-      email: string;
-      role: "admin" | "user";
-      tier: "free" | "pro";
-    },
-    ctx: RequestContext
-  ): Promise<SigninOutput> {
-    const otpLimit = await checkOtpRateLimit(user.id);
-    if (!otpLimit.allowed) {
-      void this.authEventRepository.create({
-        eventType: "OTP_SENT",
-        userId: user.id,
-        email: user.email,
-        ipAddress: ctx.ipAddress,
-        userAgent: ctx.userAgent,
-        timestamp: new Date(),
-        success: false,
-        failureReason: `otp_rate_limited:${otpLimit.retryAfterSeconds}s`,
-        serviceId: "auth-service",
-        requestId: ctx.requestId,
-      });
-      throw new AuthenticationError(
-        `Too many OTP requests. Please try again in ${otpLimit.retryAfterSeconds} seconds.`
-      );
-    }
-
-    const plainOtp = generateOtp();
-    const encryptedOtp = encryptOtp(plainOtp);
-    const otpExpiry = new Date(Date.now() + OTP_EXPIRY_MS);
-
-    await this.userRepository.updateOtp(user.id, {
-      otpSecret: encryptedOtp,
-      otpExpiry,
-      otpAttempts: 0,
-    });
-
-    this.emailProvider
-      .sendOtpEmail(user.email, plainOtp)
-      .catch((error: unknown) => {
-        console.error(
-          `[SigninUseCase] Failed to send OTP email to ${user.email}:`,
-          error instanceof Error ? error.message : "Unknown error"
-        );
-      });
-
-    void this.authEventRepository.create({
-      eventType: "OTP_SENT",
-      userId: user.id,
-      email: user.email,
-      ipAddress: ctx.ipAddress,
-      userAgent: ctx.userAgent,
-      timestamp: new Date(),
-      success: true,
-      serviceId: "auth-service",
-      requestId: ctx.requestId,
-    });
-
-    return {
-      isAuthenticated: false,
-      requiresOtp: true,
-      otpSent: true,
-      message: "Verification code sent to your email",
-    };
-  }
-
   private async handleStandardSignin(
     user: {
       id: string;
       email: string;
       role: "admin" | "user";
+      roles?: string[];
       tier: "free" | "pro";
       tokenVersion: number;
     },
     rememberMe: boolean,
     ctx: RequestContext
   ): Promise<SigninOutput> {
-    const sessionId = uuidv4();
     const ttlSeconds = rememberMe
       ? REMEMBER_ME_SESSION_TTL_SECONDS
       : DEFAULT_SESSION_TTL_SECONDS;
 
-    const [accessResult, refreshResult] = await Promise.all([
-      this.tokenService.generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-        sessionId,
-        tokenVersion: user.tokenVersion,
-      }),
-      this.tokenService.generateRefreshToken({
-        userId: user.id,
-        sessionId,
-        tokenVersion: user.tokenVersion,
-        ttlSeconds,
-      }),
-    ]);
-
-    const refreshTokenHash = sha256Hash(refreshResult.token);
-
-    await this.sessionRepository.create({
-      sessionId,
-      userId: user.id,
-      refreshTokenHash,
-      ipAddress: ctx.ipAddress,
-      userAgent: ctx.userAgent,
-      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
-      lastUsedAt: new Date(),
-    });
+    const session = await new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    ).issue(user, ttlSeconds, ctx, { methods: ["pwd"] });
 
     void this.authEventRepository.create({
       eventType: "SIGNIN",
       userId: user.id,
       email: user.email,
-      sessionId,
+      sessionId: session.sessionId,
       ipAddress: ctx.ipAddress,
       userAgent: ctx.userAgent,
       timestamp: new Date(),
@@ -248,8 +186,8 @@ export class SigninUseCase {
         role: user.role,
         tier: user.tier,
       },
-      accessToken: accessResult.token,
-      refreshToken: refreshResult.token,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
     };
   }
 }
@@ -0,0 +1,152 @@
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import { OAuthClientMethods } from "@domain/entities/oauth-client.entity";
+import {
+  OAuthClientAuthenticator,
+  type ClientCredentials,
+} from "@app/services/oauth-client-authenticator";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+import { formatUserCode, generateUserCode } from "@infra/crypto/user-code";
+
+export interface StartDeviceAuthorizationInput extends ClientCredentials {
+  scope?: string;
+  verificationUri: string;
+}
+
+export interface StartDeviceAuthorizationOutput {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface DeviceAuthorization {
+  clientId: string;
+  scopes: string[];
+  userCode: string;
+  status: "pending" | "approved" | "denied";
+  userId?: string;
+  authTime?: number;
+  amr?: AuthMethod[];
+
+  /**
+   * Minimum seconds between polls; raised each time the client polls too
+   * fast (RFC 8628 §3.5 `slow_down`).
+   */
+  interval: number;
+  lastPolledAt?: number;
+  expiresAt: number;
+}
+
+export const DEVICE_CODE_TTL_SECONDS = 10 * 60;
+export const DEVICE_POLL_INTERVAL_SECONDS = 5;
+
+export function deviceAuthorizationKey(deviceCode: string): string {
+  return `device:code:${sha256Hash(deviceCode)}`;
+}
+
+export function deviceUserCodeKey(userCode: string): string {
+  return `device:user:${userCode}`;
+}
+
+/**
+ * Rewrites a device authorization without extending its lifetime.
+ */
+export async function saveDeviceAuthorization(
+  ephemeralStore: IEphemeralStore,
+  key: string,
+  authorization: DeviceAuthorization
+): Promise<void> {
+  const remainingSeconds = Math.ceil(
+    (authorization.expiresAt - Date.now()) / 1000
+  );
+  if (remainingSeconds <= 0) return;
+  await ephemeralStore.set(key, authorization, remainingSeconds);
+}
+
+export class StartDeviceAuthorizationUseCase {
+  constructor(
+    private readonly oauthClientRepository: IOAuthClientRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: StartDeviceAuthorizationInput,
+    ctx: RequestContext
+  ): Promise<StartDeviceAuthorizationOutput> {
+    const client = await new OAuthClientAuthenticator(
+      this.oauthClientRepository
+    ).authenticate(input);
+
+    if (!OAuthClientMethods.allowsGrant(client, "device_code")) {
+      throw new OAuthError(
+        "unauthorized_client",
+        "Client is not allowed to use the device authorization grant"
+      );
+    }
+
+    const scopes = input.scope
+      ? input.scope.split(" ").filter(Boolean)
+      : ["openid"];
+
+    if (!OAuthClientMethods.allowsScopes(client, scopes)) {
+      throw new OAuthError(
+        "invalid_scope",
+        "One or more scopes are not allowed for this client"
+      );
+    }
+
+    const deviceCode = generateRandomToken(32);
+    const userCode = generateUserCode();
+    const deviceKey = deviceAuthorizationKey(deviceCode);
+
+    await Promise.all([
+      this.ephemeralStore.set<DeviceAuthorization>(
+        deviceKey,
+        {
+          clientId: client.clientId,
+          scopes,
+          userCode,
+          status: "pending",
+          interval: DEVICE_POLL_INTERVAL_SECONDS,
+          expiresAt: Date.now() + DEVICE_CODE_TTL_SECONDS * 1000,
+        },
+        DEVICE_CODE_TTL_SECONDS
+      ),
+      this.ephemeralStore.set<string>(
+        deviceUserCodeKey(userCode),
+        deviceKey,
+        DEVICE_CODE_TTL_SECONDS
+      ),
+    ]);
+
+    void this.authEventRepository.create({
+      eventType: "DEVICE_AUTHORIZATION_STARTED",
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { clientId: client.clientId, scopes },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    const displayCode = formatUserCode(userCode);
+
+    return {
+      deviceCode,
+      userCode: displayCode,
+      verificationUri: input.verificationUri,
+      verificationUriComplete: `${input.verificationUri}?user_code=${encodeURIComponent(displayCode)}`,
+      expiresIn: DEVICE_CODE_TTL_SECONDS,
+      interval: DEVICE_POLL_INTERVAL_SECONDS,
+    };
+  }
+}
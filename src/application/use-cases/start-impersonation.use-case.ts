@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from "uuid";
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { getAccountRestrictionError } from "@app/services/account-status";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { generateRandomToken, sha256Hash } from "@infra/crypto/hash";
+
+/**
+ * Matches the access token lifetime; impersonated sessions cannot be
+ * refreshed.
+ */
+const IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+export interface StartImpersonationInput {
+  adminUserId: string;
+  adminSessionId: string;
+  userId: string;
+}
+
+export interface StartImpersonationOutput {
+  accessToken: string;
+  sessionId: string;
+  expiresAt: string;
+}
+
+/**
+ * Mints a short-lived session as another user for support. The access token
+ * carries an `act` claim naming the admin, and no refresh token is issued.
+ * The route requires the admin to have re-authenticated recently.
+ */
+export class StartImpersonationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly roleRepository: IRoleRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService
+  ) {}
+
+  async execute(
+    input: StartImpersonationInput,
+    ctx: RequestContext
+  ): Promise<StartImpersonationOutput> {
+    if (input.userId === input.adminUserId) {
+      throw new AuthorizationError("Admins cannot impersonate themselves");
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.role === "admin") {
+      throw new AuthorizationError("Admins cannot be impersonated");
+    }
+
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      throw restriction;
+    }
+
+    const sessionId = uuidv4();
+    const startedAt = new Date();
+    const expiresAt = new Date(
+      startedAt.getTime() + IMPERSONATION_TTL_SECONDS * 1000
+    );
+
+    await this.sessionRepository.create({
+      sessionId,
+      userId: user.id,
+      refreshTokenHash: sha256Hash(generateRandomToken(32)),
+      familyId: sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      expiresAt,
+      authenticatedAt: startedAt,
+      authMethods: [],
+      impersonatorId: input.adminUserId,
+      lastUsedAt: startedAt,
+    });
+
+    const permissions = await new PermissionResolver(
+      this.roleRepository
+    ).resolve(user);
+
+    const { token: accessToken } = await this.tokenService.generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions,
+      impersonatorId: input.adminUserId,
+      authTime: startedAt,
+      amr: [],
+      sessionId,
+      familyId: sessionId,
+      tokenVersion: user.tokenVersion,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ADMIN_IMPERSONATION_STARTED",
+      userId: user.id,
+      email: user.email,
+      sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        adminSessionId: input.adminSessionId,
+        expiresAt: expiresAt.toISOString(),
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      accessToken,
+      sessionId,
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import { generateRandomToken } from "@infra/crypto/hash";
+import {
+  createAuthenticationOptions,
+  WEBAUTHN_CHALLENGE_TTL_SECONDS,
+} from "@infra/crypto/webauthn.service";
+import type { PublicKeyCredentialRequestOptionsJSON } from "@infra/crypto/webauthn.service";
+
+export interface StartPasskeyAuthenticationOutput {
+  challengeId: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+}
+
+export function passkeyAuthenticationChallengeKey(challengeId: string): string {
+  return `webauthn:authentication:${challengeId}`;
+}
+
+/**
+ * Passkeys are registered as discoverable credentials, so the ceremony does
+ * not need an email and never reveals whether an account exists.
+ */
+export class StartPasskeyAuthenticationUseCase {
+  constructor(private readonly ephemeralStore: IEphemeralStore) {}
+
+  async execute(): Promise<StartPasskeyAuthenticationOutput> {
+    const options = await createAuthenticationOptions([]);
+    const challengeId = generateRandomToken(16);
+
+    await this.ephemeralStore.set(
+      passkeyAuthenticationChallengeKey(challengeId),
+      options.challenge,
+      WEBAUTHN_CHALLENGE_TTL_SECONDS
+    );
+
+    return { challengeId, options };
+  }
+}
@@ -0,0 +1,53 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import {
+  createRegistrationOptions,
+  WEBAUTHN_CHALLENGE_TTL_SECONDS,
+} from "@infra/crypto/webauthn.service";
+import type { PublicKeyCredentialCreationOptionsJSON } from "@infra/crypto/webauthn.service";
+
+export interface StartPasskeyRegistrationInput {
+  userId: string;
+}
+
+export interface StartPasskeyRegistrationOutput {
+  options: PublicKeyCredentialCreationOptionsJSON;
+}
+
+export function passkeyRegistrationChallengeKey(userId: string): string {
+  return `webauthn:registration:${userId}`;
+}
+
+export class StartPasskeyRegistrationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: StartPasskeyRegistrationInput
+  ): Promise<StartPasskeyRegistrationOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const existing = await this.credentialRepository.findByUserId(user.id);
+
+    const options = await createRegistrationOptions(
+      { id: user.id, email: user.email },
+      existing
+    );
+
+    await this.ephemeralStore.set(
+      passkeyRegistrationChallengeKey(user.id),
+      options.challenge,
+      WEBAUTHN_CHALLENGE_TTL_SECONDS
+    );
+
+    return { options };
+  }
+}
@@ -0,0 +1,147 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { ValidationError } from "@domain/errors/validation.error";
+import {
+  generateOtp,
+  encryptOtp,
+  OTP_EXPIRY_MS,
+} from "@infra/crypto/otp.service";
+import {
+  createAuthenticationOptions,
+  WEBAUTHN_CHALLENGE_TTL_SECONDS,
+} from "@infra/crypto/webauthn.service";
+import type { PublicKeyCredentialRequestOptionsJSON } from "@infra/crypto/webauthn.service";
+import { checkOtpRateLimit } from "@infra/redis/otp-rate-limiter";
+
+export interface StartReauthenticationInput {
+  userId: string;
+  sessionId: string;
+  method: "passkey" | "email";
+}
+
+export type StartReauthenticationOutput =
+  | { method: "passkey"; options: PublicKeyCredentialRequestOptionsJSON }
+  | { method: "email"; otpSent: true };
+
+/** An emailed step-up code, kept apart from the sign-in OTP on the user. */
+export interface ReauthenticationCode {
+  otpSecret: string;
+  attempts: number;
+  expiresAt: number;
+}
+
+export function reauthenticationPasskeyKey(sessionId: string): string {
+  return `reauthentication:passkey:${sessionId}`;
+}
+
+export function reauthenticationCodeKey(sessionId: string): string {
+  return `reauthentication:email:${sessionId}`;
+}
+
+/**
+ * Opens a passkey or emailed-code challenge for `ReauthenticateUseCase`,
+ * so accounts without a password can step up too. Challenges belong to
+ * the session that asked for them.
+ */
+export class StartReauthenticationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly credentialRepository: IWebAuthnCredentialRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly emailProvider: IEmailProvider,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: StartReauthenticationInput,
+    ctx: RequestContext
+  ): Promise<StartReauthenticationOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (input.method === "passkey") {
+      const credentials = await this.credentialRepository.findByUserId(user.id);
+      if (credentials.length === 0) {
+        throw new ValidationError(
+          "No passkeys are registered for this account"
+        );
+      }
+
+      const options = await createAuthenticationOptions(credentials);
+
+      await this.ephemeralStore.set(
+        reauthenticationPasskeyKey(input.sessionId),
+        options.challenge,
+        WEBAUTHN_CHALLENGE_TTL_SECONDS
+      );
+
+      return { method: "passkey", options };
+    }
+
+    const otpLimit = await checkOtpRateLimit(user.id);
+    if (!otpLimit.allowed) {
+      void this.authEventRepository.create({
+        eventType: "OTP_SENT",
+        userId: user.id,
+        email: user.email,
+        sessionId: input.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: `otp_rate_limited:${otpLimit.retryAfterSeconds}s`,
+        metadata: { purpose: "reauthentication" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw new AuthenticationError(
+        `Too many OTP requests. Please try again in ${otpLimit.retryAfterSeconds} seconds.`
+      );
+    }
+
+    const plainOtp = generateOtp();
+
+    await this.ephemeralStore.set<ReauthenticationCode>(
+      reauthenticationCodeKey(input.sessionId),
+      {
+        otpSecret: encryptOtp(plainOtp),
+        attempts: 0,
+        expiresAt: Date.now() + OTP_EXPIRY_MS,
+      },
+      OTP_EXPIRY_MS / 1000
+    );
+
+    this.emailProvider
+      .sendOtpEmail(user.email, plainOtp)
+      .catch((error: unknown) => {
+        console.error(
+          `[StartReauthenticationUseCase] Failed to send OTP email to ${user.email}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      });
+
+    void this.authEventRepository.create({
+      eventType: "OTP_SENT",
+      userId: user.id,
+      email: user.email,
+      sessionId: input.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { purpose: "reauthentication" },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { method: "email", otpSent: true };
+  }
+}
@@ -0,0 +1,70 @@
+import type { IIdentityProviderRegistry } from "@app/interfaces/identity.provider";
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { generateRandomToken } from "@infra/crypto/hash";
+import { computeCodeChallenge, generateCodeVerifier } from "@infra/crypto/pkce";
+
+export interface StartSocialSigninInput {
+  provider: string;
+  redirectUri: string;
+  rememberMe?: boolean;
+}
+
+export interface StartSocialSigninOutput {
+  authorizationUrl: string;
+}
+
+export interface SocialSigninState {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  rememberMe: boolean;
+}
+
+export const SOCIAL_SIGNIN_STATE_TTL_SECONDS = 10 * 60;
+
+export function socialSigninStateKey(state: string): string {
+  return `oauth:state:${state}`;
+}
+
+export class StartSocialSigninUseCase {
+  constructor(
+    private readonly providerRegistry: IIdentityProviderRegistry,
+    private readonly ephemeralStore: IEphemeralStore
+  ) {}
+
+  async execute(
+    input: StartSocialSigninInput
+  ): Promise<StartSocialSigninOutput> {
+    const provider = this.providerRegistry.get(input.provider);
+    if (!provider) {
+      throw new NotFoundError("Unknown identity provider");
+    }
+
+    const state = generateRandomToken(32);
+    const nonce = generateRandomToken(16);
+    const codeVerifier = generateCodeVerifier();
+
+    await this.ephemeralStore.set<SocialSigninState>(
+      socialSigninStateKey(state),
+      {
+        provider: provider.id,
+        codeVerifier,
+        nonce,
+        redirectUri: input.redirectUri,
+        rememberMe: input.rememberMe ?? false,
+      },
+      SOCIAL_SIGNIN_STATE_TTL_SECONDS
+    );
+
+    return {
+      authorizationUrl: provider.buildAuthorizationUrl({
+        state,
+        nonce,
+        codeChallenge: computeCodeChallenge(codeVerifier),
+        redirectUri: input.redirectUri,
+      }),
+    };
+  }
+}
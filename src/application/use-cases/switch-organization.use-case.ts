@@ -0,0 +1,101 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { ITokenService } from "@app/interfaces/token.service";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { PermissionResolver } from "@app/services/permission-resolver";
+
+export interface SwitchOrganizationInput {
+  userId: string;
+  sessionId: string;
+  organizationId: string | null;
+}
+
+export interface SwitchOrganizationOutput {
+  accessToken: string;
+  organizationId: string | null;
+}
+
+/**
+ * Sets the session's active organization and issues an access token with
+ * the matching `org_id` claim. Refreshes carry it forward while the user
+ * remains a member. Passing null returns to acting as an individual. An
+ * impersonation session keeps its `act` claim.
+ */
+export class SwitchOrganizationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly membershipRepository: IOrganizationMembershipRepository,
+    private readonly roleRepository: IRoleRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly tokenService: ITokenService
+  ) {}
+
+  async execute(
+    input: SwitchOrganizationInput,
+    ctx: RequestContext
+  ): Promise<SwitchOrganizationOutput> {
+    const [user, session] = await Promise.all([
+      this.userRepository.findById(input.userId),
+      this.sessionRepository.findBySessionId(input.sessionId),
+    ]);
+
+    if (!user || !session || session.userId !== user.id) {
+      throw new AuthenticationError("Session not found");
+    }
+
+    if (
+      input.organizationId &&
+      !(await this.membershipRepository.find(input.organizationId, user.id))
+    ) {
+      throw new AuthorizationError("Not a member of this organization");
+    }
+
+    await this.sessionRepository.updateActiveOrganization(
+      session.sessionId,
+      input.organizationId
+    );
+
+    const permissions = await new PermissionResolver(
+      this.roleRepository
+    ).resolve(user);
+
+    const { token: accessToken } = await this.tokenService.generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      permissions,
+      organizationId: input.organizationId ?? undefined,
+      authTime: session.authenticatedAt ?? session.createdAt,
+      amr: session.authMethods ?? [],
+      impersonatorId: session.impersonatorId,
+      sessionId: session.sessionId,
+      familyId: session.familyId ?? session.sessionId,
+      tokenVersion: user.tokenVersion,
+    });
+
+    void this.authEventRepository.create({
+      eventType: "ORGANIZATION_SWITCHED",
+      userId: user.id,
+      email: user.email,
+      sessionId: session.sessionId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        organizationId: input.organizationId,
+        previousOrganizationId: session.activeOrganizationId ?? null,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { accessToken, organizationId: input.organizationId };
+  }
+}
@@ -0,0 +1,52 @@
+import type { ILinkedIdentityRepository } from "@domain/repositories/linked-identity.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+export interface UnlinkIdentityInput {
+  userId: string;
+  identityId: string;
+}
+
+export interface UnlinkIdentityOutput {
+  success: true;
+  message: string;
+}
+
+export class UnlinkIdentityUseCase {
+  constructor(
+    private readonly identityRepository: ILinkedIdentityRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: UnlinkIdentityInput,
+    ctx: RequestContext
+  ): Promise<UnlinkIdentityOutput> {
+    const deleted = await this.identityRepository.delete(
+      input.userId,
+      input.identityId
+    );
+
+    if (!deleted) {
+      throw new NotFoundError("Linked account not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "IDENTITY_UNLINKED",
+      userId: input.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: { identityId: input.identityId },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message: "Account unlinked",
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { RoleOutput } from "@app/dtos/user.dto";
+import { NotFoundError } from "@domain/errors/not-found.error";
+import { toRoleOutput } from "@app/use-cases/list-roles.use-case";
+
+export interface UpdateRoleInput {
+  adminUserId: string;
+  name: string;
+  description?: string;
+  permissions?: string[];
+}
+
+export interface UpdateRoleOutput {
+  role: RoleOutput;
+}
+
+/**
+ * Changes a role's definition. Holders pick up the new permissions on their
+ * next request; the `permissions` claim follows at the next token refresh.
+ */
+export class UpdateRoleUseCase {
+  constructor(
+    private readonly roleRepository: IRoleRepository,
+    private readonly authEventRepository: IAuthEventRepository
+  ) {}
+
+  async execute(
+    input: UpdateRoleInput,
+    ctx: RequestContext
+  ): Promise<UpdateRoleOutput> {
+    const previous = await this.roleRepository.findByName(input.name);
+    if (!previous) {
+      throw new NotFoundError("Role not found");
+    }
+
+    const role = await this.roleRepository.update(input.name, {
+      description: input.description,
+      permissions: input.permissions,
+    });
+    if (!role) {
+      throw new NotFoundError("Role not found");
+    }
+
+    void this.authEventRepository.create({
+      eventType: "ROLE_UPDATED",
+      userId: input.adminUserId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        role: role.name,
+        previousPermissions: previous.permissions,
+        permissions: role.permissions,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return { role: toRoleOutput(role) };
+  }
+}
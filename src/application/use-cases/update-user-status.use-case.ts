@@ -0,0 +1,109 @@
+import type { IUserRepository } from "@domain/repositories/user.repository";
+import type { ISessionRepository } from "@domain/repositories/session.repository";
+import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
+import type { RequestContext } from "@app/dtos/auth.dto";
+import type { AccountStatus } from "@domain/entities/user.entity";
+import type { AuthEventType } from "@domain/entities/auth-event.entity";
+import { AuthorizationError } from "@domain/errors/authorization.error";
+import { NotFoundError } from "@domain/errors/not-found.error";
+
+const USER_REVOCATION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const STATUS_EVENTS: Record<AccountStatus, AuthEventType> = {
+  active: "ADMIN_USER_REINSTATED",
+  suspended: "ADMIN_USER_SUSPENDED",
+  banned: "ADMIN_USER_BANNED",
+};
+
+export interface UpdateUserStatusInput {
+  adminUserId: string;
+  userId: string;
+  status: AccountStatus;
+  reason?: string;
+  suspendedUntil?: Date;
+}
+
+export interface UpdateUserStatusOutput {
+  success: true;
+  message: string;
+  status: AccountStatus;
+  suspendedUntil: string | null;
+  sessionsRevoked: number;
+}
+
+/**
+ * Suspends, bans or reinstates a user. Restricting an account revokes every
+ * session at once rather than waiting for access tokens to expire.
+ */
+export class UpdateUserStatusUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository,
+    private readonly authEventRepository: IAuthEventRepository,
+    private readonly revocationStore: IRevocationStore
+  ) {}
+
+  async execute(
+    input: UpdateUserStatusInput,
+    ctx: RequestContext
+  ): Promise<UpdateUserStatusOutput> {
+    if (input.userId === input.adminUserId) {
+      throw new AuthorizationError("Admins cannot change their own status");
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const suspendedUntil =
+      input.status === "suspended" ? input.suspendedUntil : undefined;
+
+    await this.userRepository.updateStatus(user.id, {
+      status: input.status,
+      statusReason: input.status === "active" ? undefined : input.reason,
+      suspendedUntil,
+    });
+
+    let sessionsRevoked = 0;
+
+    if (input.status !== "active") {
+      await this.revocationStore.revokeAllUserSessions(
+        user.id,
+        USER_REVOCATION_TTL_SECONDS
+      );
+      sessionsRevoked = await this.sessionRepository.deleteAllForUser(user.id);
+    }
+
+    void this.authEventRepository.create({
+      eventType: STATUS_EVENTS[input.status],
+      userId: user.id,
+      email: user.email,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      timestamp: new Date(),
+      success: true,
+      metadata: {
+        adminUserId: input.adminUserId,
+        previousStatus: user.status ?? "active",
+        reason: input.reason,
+        suspendedUntil: suspendedUntil?.toISOString(),
+        sessionsDeleted: sessionsRevoked,
+      },
+      serviceId: "auth-service",
+      requestId: ctx.requestId,
+    });
+
+    return {
+      success: true,
+      message:
+        input.status === "active"
+          ? "User has been reinstated"
+          : `User has been ${input.status}`,
+      status: input.status,
+      suspendedUntil: suspendedUntil?.toISOString() ?? null,
+      sessionsRevoked,
+    };
+  }
+}
@@ -15,6 +15,8 @@ export interface VerifyEmailOutput {
     id: string;
     email: string;
     role: string;
+    roles: string[];
+    tier: "free" | "pro";
     isVerified: boolean;
     tokenVersion: number;
   };
@@ -109,6 +111,8 @@ export class VerifyEmailUseCase {
         id: user.id,
         email: user.email,
         role: user.role,
+        roles: user.roles ?? [],
+        tier: user.tier,
         isVerified: true,
         tokenVersion: user.tokenVersion,
       },
@@ -1,27 +1,42 @@
-import { v4 as uuidv4 } from "uuid";
 import type { IUserRepository } from "@domain/repositories/user.repository";
 import type { ISessionRepository } from "@domain/repositories/session.repository";
 import type { IAuthEventRepository } from "@domain/repositories/auth-event.repository";
 import type { ITokenService } from "@app/interfaces/token.service";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { IRevocationStore } from "@app/interfaces/revocation.store";
 import type {
   VerifyOtpInput,
   VerifyOtpOutput,
   RequestContext,
+  SecondFactorMethod,
 } from "@app/dtos/auth.dto";
 import { AuthenticationError } from "@domain/errors/authentication.error";
 import { UserMethods } from "@domain/entities/user.entity";
-import { verifyOtp } from "@infra/crypto/otp.service";
-import { sha256Hash } from "@infra/crypto/hash";
+import type { UserEntity } from "@domain/entities/user.entity";
+import type { AuthMethod } from "@domain/entities/session.entity";
+import { verifyOtp, decryptOtp } from "@infra/crypto/otp.service";
+import { verifyTotp, TOTP_DIGITS } from "@infra/crypto/totp.service";
+import {
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+} from "@infra/crypto/recovery-code.service";
 import { resetOtpRateLimit } from "@infra/redis/otp-rate-limiter";
-
-const ADMIN_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+import {
+  SessionIssuer,
+  DEFAULT_SESSION_TTL_SECONDS,
+} from "@app/services/session-issuer";
+import { SessionLimiter } from "@app/services/session-limiter";
+import { PermissionResolver } from "@app/services/permission-resolver";
+import { getAccountRestrictionError } from "@app/services/account-status";
 
 export class VerifyOtpUseCase {
   constructor(
     private readonly userRepository: IUserRepository,
     private readonly sessionRepository: ISessionRepository,
     private readonly authEventRepository: IAuthEventRepository,
-    private readonly tokenService: ITokenService
+    private readonly tokenService: ITokenService,
+    private readonly revocationStore: IRevocationStore,
+    private readonly roleRepository: IRoleRepository
   ) {}
 
   async execute(
@@ -35,6 +50,24 @@ export class VerifyOtpUseCase {
       throw new AuthenticationError("Invalid credentials");
     }
 
+    const restriction = getAccountRestrictionError(user);
+    if (restriction) {
+      void this.authEventRepository.create({
+        eventType: "SIGNIN_FAILED",
+        userId: user.id,
+        email: email,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: false,
+        failureReason: restriction.code.toLowerCase(),
+        metadata: { method: "otp" },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+      throw restriction;
+    }
+
     const precondition = UserMethods.validateOtpAttempt(user);
 
     switch (precondition.status) {
@@ -83,9 +116,9 @@ export class VerifyOtpUseCase {
         break;
     }
 
-    const otpMatches = verifyOtp(input.otp, user.otpSecret!);
+    const method = await this.matchSecondFactor(input.otp, user);
 
-    if (!otpMatches) {
+    if (!method) {
       await this.userRepository.updateOtp(user.id, {
         otpSecret: user.otpSecret!,
         otpExpiry: user.otpExpiry!,
@@ -116,49 +149,51 @@ export class VerifyOtpUseCase {
 
     await resetOtpRateLimit(user.id);
 
-    const sessionId = uuidv4();
-
-    const [accessResult, refreshResult] = await Promise.all([
-      this.tokenService.generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-        sessionId,
-        tokenVersion: user.tokenVersion,
-      }),
-      this.tokenService.generateRefreshToken({
-        userId: user.id,
-        sessionId,
-        tokenVersion: user.tokenVersion,
-        ttlSeconds: ADMIN_SESSION_TTL_SECONDS,
-      }),
-    ]);
-
-    const refreshTokenHash = sha256Hash(refreshResult.token);
-
-    await this.sessionRepository.create({
-      sessionId,
-      userId: user.id,
-      refreshTokenHash,
-      ipAddress: ctx.ipAddress,
-      userAgent: ctx.userAgent,
-      expiresAt: new Date(Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000),
-      lastUsedAt: new Date(),
+    const session = await new SessionIssuer(
+      this.sessionRepository,
+      this.tokenService,
+      new SessionLimiter(
+        this.sessionRepository,
+        this.revocationStore,
+        this.authEventRepository
+      ),
+      new PermissionResolver(this.roleRepository)
+    ).issue(user, DEFAULT_SESSION_TTL_SECONDS, ctx, {
+      methods: this.authMethods(user, method),
     });
 
     void this.authEventRepository.create({
       eventType: "OTP_VERIFIED",
       userId: user.id,
       email,
-      sessionId,
+      sessionId: session.sessionId,
       ipAddress: ctx.ipAddress,
       userAgent: ctx.userAgent,
       timestamp: new Date(),
       success: true,
+      metadata: { method },
       serviceId: "auth-service",
       requestId: ctx.requestId,
     });
 
+    if (method === "recovery_code") {
+      void this.authEventRepository.create({
+        eventType: "RECOVERY_CODE_USED",
+        userId: user.id,
+        email,
+        sessionId: session.sessionId,
+        ipAddress: ctx.ipAddress,
+        userAgent: ctx.userAgent,
+        timestamp: new Date(),
+        success: true,
+        metadata: {
+          remaining: UserMethods.remainingRecoveryCodes(user) - 1,
+        },
+        serviceId: "auth-service",
+        requestId: ctx.requestId,
+      });
+    }
+
     return {
       isAuthenticated: true,
       user: {
@@ -167,8 +202,51 @@ export class VerifyOtpUseCase {
         role: user.role,
         tier: user.tier,
       },
-      accessToken: accessResult.token,
-      refreshToken: refreshResult.token,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
     };
   }
+
+  /**
+   * The first factor that opened the challenge, then the second. A
+   * single-use recovery code is not counted as `mfa`, so it cannot satisfy
+   * strong step-up checks. Challenges opened before the first factor was
+   * recorded are treated as password sign-ins.
+   */
+  private authMethods(
+    user: UserEntity,
+    method: SecondFactorMethod
+  ): AuthMethod[] {
+    const firstFactor = user.otpFirstFactor ?? "pwd";
+    return method === "recovery_code"
+      ? [firstFactor, "otp"]
+      : [firstFactor, "otp", "mfa"];
+  }
+
+  private async matchSecondFactor(
+    code: string,
+    user: UserEntity
+  ): Promise<SecondFactorMethod | null> {
+    if (isRecoveryCodeFormat(code)) {
+      const consumed = await this.userRepository.consumeRecoveryCode(
+        user.id,
+        hashRecoveryCode(code)
+      );
+      return consumed ? "recovery_code" : null;
+    }
+
+    if (UserMethods.hasTotp(user) && code.length === TOTP_DIGITS) {
+      const secret = decryptOtp(user.totpSecret!);
+      const step = secret ? verifyTotp(code, secret) : null;
+
+      if (step !== null) {
+        const fresh = await this.userRepository.recordTotpStep(user.id, step);
+        return fresh ? "totp" : null;
+      }
+
+      return null;
+    }
+
+    return verifyOtp(code, user.otpSecret!) ? "email" : null;
+  }
 }
@@ -2,9 +2,31 @@ export type AuthEventType =
   | "SIGNUP"
   | "SIGNIN"
   | "SIGNIN_FAILED"
+  | "REAUTHENTICATED"
   | "OTP_SENT"
   | "OTP_VERIFIED"
   | "OTP_FAILED"
+  | "MFA_ENROLLMENT_STARTED"
+  | "MFA_ENABLED"
+  | "MFA_DISABLED"
+  | "MAGIC_LINK_REQUESTED"
+  | "IDENTITY_LINKED"
+  | "IDENTITY_UNLINKED"
+  | "RECOVERY_CODE_USED"
+  | "RECOVERY_CODES_GENERATED"
+  | "PASSKEY_REGISTERED"
+  | "PASSKEY_RENAMED"
+  | "PASSKEY_REMOVED"
+  | "OAUTH_CLIENT_CREATED"
+  | "OAUTH_CLIENT_DELETED"
+  | "OAUTH_AUTHORIZATION_GRANTED"
+  | "OAUTH_TOKEN_ISSUED"
+  | "DEVICE_AUTHORIZATION_STARTED"
+  | "DEVICE_AUTHORIZATION_APPROVED"
+  | "DEVICE_AUTHORIZATION_DENIED"
+  | "PERSONAL_ACCESS_TOKEN_CREATED"
+  | "PERSONAL_ACCESS_TOKEN_REVOKED"
+  | "PERSONAL_ACCESS_TOKEN_REJECTED"
   | "TOKEN_REFRESH"
   | "TOKEN_REFRESH_FAILED"
   | "LOGOUT"
@@ -19,6 +41,26 @@ export type AuthEventType =
   | "RATE_LIMITED"
   | "TOKEN_REVOKED"
   | "SESSION_REVOKED"
+  | "SESSION_EXPIRED"
+  | "ADMIN_USER_VERIFIED"
+  | "ADMIN_PASSWORD_RESET_FORCED"
+  | "ADMIN_SESSIONS_REVOKED"
+  | "ADMIN_USER_DELETED"
+  | "ADMIN_USER_SUSPENDED"
+  | "ADMIN_USER_BANNED"
+  | "ADMIN_USER_REINSTATED"
+  | "ADMIN_ROLE_CHANGED"
+  | "ADMIN_USER_ROLES_CHANGED"
+  | "ADMIN_IMPERSONATION_STARTED"
+  | "ADMIN_IMPERSONATION_ENDED"
+  | "ROLE_CREATED"
+  | "ROLE_UPDATED"
+  | "ROLE_DELETED"
+  | "ORGANIZATION_CREATED"
+  | "ORGANIZATION_INVITATION_SENT"
+  | "ORGANIZATION_INVITATION_ACCEPTED"
+  | "ORGANIZATION_MEMBER_REMOVED"
+  | "ORGANIZATION_SWITCHED"
   | "SUSPICIOUS_ACTIVITY";
 
 export interface AuthEventEntity {
@@ -0,0 +1,15 @@
+export interface LinkedIdentityEntity {
+  readonly id: string;
+
+  userId: string;
+
+  provider: string;
+
+  subject: string;
+
+  email?: string;
+
+  readonly createdAt: Date;
+
+  lastUsedAt?: Date;
+}
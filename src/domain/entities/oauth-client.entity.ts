@@ -0,0 +1,46 @@
+export type OAuthGrantType =
+  "authorization_code" | "refresh_token" | "device_code" | "client_credentials";
+
+export interface OAuthClientEntity {
+  readonly id: string;
+
+  clientId: string;
+
+  /**
+   * SHA-256 of the client secret. Absent for public clients (SPAs, native
+   * apps), which authenticate with PKCE alone.
+   */
+  clientSecretHash?: string;
+
+  name: string;
+
+  redirectUris: string[];
+
+  /**
+   * OIDC scopes (`openid`, `email`, `offline_access`) for user-facing grants,
+   * and service scopes such as `jobs:run` for `client_credentials`.
+   */
+  allowedScopes: string[];
+
+  grantTypes: OAuthGrantType[];
+
+  readonly createdAt: Date;
+}
+
+export const OAuthClientMethods = {
+  isConfidential(client: OAuthClientEntity): boolean {
+    return !!client.clientSecretHash;
+  },
+
+  allowsRedirectUri(client: OAuthClientEntity, redirectUri: string): boolean {
+    return client.redirectUris.includes(redirectUri);
+  },
+
+  allowsScopes(client: OAuthClientEntity, scopes: string[]): boolean {
+    return scopes.every((scope) => client.allowedScopes.includes(scope));
+  },
+
+  allowsGrant(client: OAuthClientEntity, grantType: OAuthGrantType): boolean {
+    return client.grantTypes.includes(grantType);
+  },
+} as const;
@@ -0,0 +1,34 @@
+import type { OrganizationRole } from "./organization.entity";
+
+export interface OrganizationInvitationEntity {
+  readonly id: string;
+
+  organizationId: string;
+
+  /**
+   * Lowercased address the invitation was sent to. Only the account with
+   * this email can accept it.
+   */
+  email: string;
+
+  role: OrganizationRole;
+
+  /**
+   * SHA-256 of the token in the emailed link.
+   */
+  tokenHash: string;
+
+  invitedBy: string;
+
+  expiresAt: Date;
+
+  acceptedAt?: Date;
+
+  readonly createdAt: Date;
+}
+
+export const OrganizationInvitationMethods = {
+  isExpired(invitation: OrganizationInvitationEntity): boolean {
+    return invitation.expiresAt < new Date();
+  },
+} as const;
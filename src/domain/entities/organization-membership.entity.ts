@@ -0,0 +1,13 @@
+import type { OrganizationRole } from "./organization.entity";
+
+export interface OrganizationMembershipEntity {
+  readonly id: string;
+
+  organizationId: string;
+
+  userId: string;
+
+  role: OrganizationRole;
+
+  readonly createdAt: Date;
+}
@@ -0,0 +1,32 @@
+/**
+ * A member's role within one organization, independent of their account
+ * role. Ordered from least to most privileged.
+ */
+export type OrganizationRole = "member" | "admin" | "owner";
+
+const ORGANIZATION_ROLE_RANK: Record<OrganizationRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export interface OrganizationEntity {
+  readonly id: string;
+
+  name: string;
+
+  /**
+   * The user who created the organization and became its first owner.
+   */
+  createdBy: string;
+
+  readonly createdAt: Date;
+
+  updatedAt: Date;
+}
+
+export const OrganizationMethods = {
+  hasRole(role: OrganizationRole, required: OrganizationRole): boolean {
+    return ORGANIZATION_ROLE_RANK[role] >= ORGANIZATION_ROLE_RANK[required];
+  },
+} as const;
@@ -0,0 +1,35 @@
+export interface PersonalAccessTokenEntity {
+  readonly id: string;
+
+  userId: string;
+
+  name: string;
+
+  tokenHash: string;
+
+  /**
+   * The first characters of the token, kept so users can tell keys apart
+   * without the full secret ever being stored.
+   */
+  tokenPrefix: string;
+
+  scopes: string[];
+
+  readonly createdAt: Date;
+
+  expiresAt?: Date;
+
+  lastUsedAt?: Date;
+
+  revokedAt?: Date;
+}
+
+export const PersonalAccessTokenMethods = {
+  isExpired(token: PersonalAccessTokenEntity): boolean {
+    return token.expiresAt !== undefined && token.expiresAt < new Date();
+  },
+
+  isActive(token: PersonalAccessTokenEntity): boolean {
+    return !token.revokedAt && !PersonalAccessTokenMethods.isExpired(token);
+  },
+} as const;
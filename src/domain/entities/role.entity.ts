@@ -0,0 +1,47 @@
+import type { UserRole } from "./user.entity";
+
+export interface RoleEntity {
+  readonly id: string;
+
+  /**
+   * Unique, lowercase name users are assigned by, e.g. `support`.
+   */
+  name: string;
+
+  description?: string;
+
+  /**
+   * Permission strings of the form `resource:action`. `resource:*` grants
+   * every action on a resource and `*` grants everything.
+   */
+  permissions: string[];
+
+  readonly createdAt: Date;
+
+  updatedAt: Date;
+}
+
+/**
+ * Permissions implied by the built-in `role` every user has, before any
+ * custom roles are added.
+ */
+export const BASE_ROLE_PERMISSIONS: Record<UserRole, readonly string[]> = {
+  admin: ["*"],
+  user: [],
+};
+
+export const RoleMethods = {
+  isBaseRoleName(name: string): boolean {
+    return name in BASE_ROLE_PERMISSIONS;
+  },
+
+  grants(granted: readonly string[], required: string): boolean {
+    const [resource] = required.split(":");
+    return granted.some(
+      (permission) =>
+        permission === "*" ||
+        permission === required ||
+        permission === `${resource}:*`
+    );
+  },
+} as const;
@@ -1,3 +1,10 @@
+/**
+ * Authentication method references (RFC 8176) recorded when a session is
+ * created and surfaced as the `amr` claim.
+ */
+export type AuthMethod =
+  "pwd" | "otp" | "mfa" | "hwk" | "user" | "email" | "fed";
+
 export interface SessionEntity {
   readonly id: string;
 
@@ -7,22 +14,99 @@ export interface SessionEntity {
 
   refreshTokenHash: string;
 
+  /**
+   * Shared by every session produced from the same sign-in through refresh
+   * rotation. Equal to the first session's ID; absent on older sessions.
+   */
+  familyId?: string;
+
   ipAddress?: string;
 
   userAgent?: string;
 
   expiresAt: Date;
 
+  authenticatedAt?: Date;
+
+  authMethods?: AuthMethod[];
+
+  /**
+   * Organization the user is acting in, surfaced as the `org_id` claim and
+   * carried across refresh rotation.
+   */
+  activeOrganizationId?: string;
+
+  /**
+   * Admin acting as the user. Impersonated sessions are never given a
+   * refresh token, so they end when their access token expires.
+   */
+  impersonatorId?: string;
+
+  /**
+   * OAuth client the session's refresh token was issued to. Only that client
+   * may redeem it; absent for first-party sessions.
+   */
+  clientId?: string;
+
+  /** Scopes the user granted `clientId`. */
+  scopes?: string[];
+
   readonly createdAt: Date;
 
   lastUsedAt: Date;
 }
 
+export interface SessionPolicy {
+  /**
+   * Longest gap allowed between uses of the session (refreshes) before it
+   * is ended.
+   */
+  idleTimeoutSeconds: number;
+
+  /**
+   * Longest a session may live, measured from the original sign-in and
+   * carried across refresh rotation.
+   */
+  absoluteLifetimeSeconds: number;
+}
+
+export type SessionEndReason = "idle_timeout" | "absolute_lifetime";
+
 export const SessionMethods = {
   isExpired(session: SessionEntity): boolean {
     return session.expiresAt < new Date();
   },
 
+  isImpersonated(session: Pick<SessionEntity, "impersonatorId">): boolean {
+    return Boolean(session.impersonatorId);
+  },
+
+  getAbsoluteExpiry(
+    session: Pick<SessionEntity, "createdAt">,
+    policy: SessionPolicy
+  ): Date {
+    return new Date(
+      session.createdAt.getTime() + policy.absoluteLifetimeSeconds * 1000
+    );
+  },
+
+  getPolicyViolation(
+    session: Pick<SessionEntity, "createdAt" | "lastUsedAt">,
+    policy: SessionPolicy,
+    now: Date = new Date()
+  ): SessionEndReason | null {
+    if (now >= SessionMethods.getAbsoluteExpiry(session, policy)) {
+      return "absolute_lifetime";
+    }
+    if (
+      now.getTime() - session.lastUsedAt.getTime() >
+      policy.idleTimeoutSeconds * 1000
+    ) {
+      return "idle_timeout";
+    }
+    return null;
+  },
+
   getUpdatedLastUsed(): Date {
     return new Date();
   },
@@ -1,7 +1,17 @@
+import type { AuthMethod } from "./session.entity";
+
 export type UserRole = "admin" | "user";
 
 export type UserTier = "free" | "pro";
 
+export type AccountStatus = "active" | "suspended" | "banned";
+
+export interface RecoveryCode {
+  hash: string;
+
+  usedAt?: Date;
+}
+
 export interface UserEntity {
   readonly id: string;
 
@@ -11,6 +21,12 @@ export interface UserEntity {
 
   role: UserRole;
 
+  /**
+   * Names of custom roles held on top of `role`, each granting the
+   * permissions defined for it in the roles collection.
+   */
+  roles?: string[];
+
   isVerified: boolean;
 
   tokenVersion: number;
@@ -29,12 +45,41 @@ export interface UserEntity {
 
   passwordResetTokenExpiry?: Date;
 
+  magicLinkToken?: string;
+
+  magicLinkTokenHash?: string;
+
+  magicLinkTokenExpiry?: Date;
+
+  magicLinkRememberMe?: boolean;
+
   otpSecret?: string;
 
   otpExpiry?: Date;
 
   otpAttempts?: number;
 
+  /** How the user passed the first factor of the pending OTP challenge. */
+  otpFirstFactor?: AuthMethod;
+
+  totpSecret?: string;
+
+  totpPendingSecret?: string;
+
+  totpEnabledAt?: Date;
+
+  totpLastUsedStep?: number;
+
+  recoveryCodes?: RecoveryCode[];
+
+  /** Absent on accounts that have never been restricted. */
+  status?: AccountStatus;
+
+  statusReason?: string;
+
+  /** Suspensions without an end date last until lifted. */
+  suspendedUntil?: Date;
+
   readonly createdAt: Date;
   updatedAt: Date;
 }
@@ -48,6 +93,36 @@ export const UserMethods = {
     return user.role === "admin";
   },
 
+  hasTotp(user: UserEntity): boolean {
+    return Boolean(user.totpSecret && user.totpEnabledAt);
+  },
+
+  requiresSecondFactor(user: UserEntity): boolean {
+    return user.role === "admin" || UserMethods.hasTotp(user);
+  },
+
+  /**
+   * The status in force now. A suspension whose end date has passed counts
+   * as active without needing to be lifted.
+   */
+  getEffectiveStatus(
+    user: Pick<UserEntity, "status" | "suspendedUntil">,
+    now: Date = new Date()
+  ): AccountStatus {
+    if (
+      user.status === "suspended" &&
+      user.suspendedUntil &&
+      user.suspendedUntil <= now
+    ) {
+      return "active";
+    }
+    return user.status ?? "active";
+  },
+
+  remainingRecoveryCodes(user: UserEntity): number {
+    return (user.recoveryCodes ?? []).filter((code) => !code.usedAt).length;
+  },
+
   canRequestOtp(user: UserEntity): boolean {
     if (user.role !== "admin") return false;
     if (user.otpExpiry && user.otpExpiry > new Date()) return false;
@@ -0,0 +1,25 @@
+export type WebAuthnDeviceType = "singleDevice" | "multiDevice";
+
+export interface WebAuthnCredentialEntity {
+  readonly id: string;
+
+  userId: string;
+
+  credentialId: string;
+
+  publicKey: string;
+
+  counter: number;
+
+  transports?: string[];
+
+  deviceType: WebAuthnDeviceType;
+
+  backedUp: boolean;
+
+  name: string;
+
+  readonly createdAt: Date;
+
+  lastUsedAt?: Date;
+}
@@ -1,10 +1,17 @@
 import { DomainError } from "./base.error";
 
+export type AuthorizationErrorCode =
+  "AUTHORIZATION_ERROR" | "ACCOUNT_SUSPENDED" | "ACCOUNT_BANNED";
+
 export class AuthorizationError extends DomainError {
-  readonly code = "AUTHORIZATION_ERROR" as const;
+  readonly code: AuthorizationErrorCode;
   readonly statusCode = 403;
 
-  constructor(message: string = "Insufficient permissions") {
+  constructor(
+    message: string = "Insufficient permissions",
+    code: AuthorizationErrorCode = "AUTHORIZATION_ERROR"
+  ) {
     super(message);
+    this.code = code;
   }
 }
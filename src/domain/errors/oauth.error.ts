@@ -0,0 +1,32 @@
+import { DomainError } from "./base.error";
+
+/**
+ * Error codes defined by RFC 6749 §4.1.2.1/§5.2, OpenID Connect Core §3.1.2.6
+ * and RFC 8628 §3.5.
+ */
+export type OAuthErrorCode =
+  | "invalid_request"
+  | "invalid_client"
+  | "invalid_grant"
+  | "unauthorized_client"
+  | "unsupported_grant_type"
+  | "unsupported_response_type"
+  | "invalid_scope"
+  | "access_denied"
+  | "login_required"
+  | "authorization_pending"
+  | "slow_down"
+  | "expired_token";
+
+export class OAuthError extends DomainError {
+  readonly code = "OAUTH_ERROR" as const;
+  readonly statusCode: number;
+
+  readonly error: OAuthErrorCode;
+
+  constructor(error: OAuthErrorCode, message: string, statusCode?: number) {
+    super(message);
+    this.error = error;
+    this.statusCode = statusCode ?? (error === "invalid_client" ? 401 : 400);
+  }
+}
@@ -0,0 +1,26 @@
+import { DomainError } from "./base.error";
+import type { AuthMethod } from "../entities/session.entity";
+
+/**
+ * The caller is signed in, but not recently enough (or not with a strong
+ * enough method) for the operation. Clients should send the user through
+ * `/api/auth/reauthenticate` and retry.
+ */
+export class ReauthenticationRequiredError extends DomainError {
+  readonly code = "REAUTHENTICATION_REQUIRED" as const;
+  readonly statusCode = 401;
+
+  readonly maxAgeSeconds: number;
+
+  readonly requiredMethods: AuthMethod[];
+
+  constructor(
+    maxAgeSeconds: number,
+    requiredMethods: AuthMethod[] = [],
+    message: string = "Please confirm it's you to continue"
+  ) {
+    super(message);
+    this.maxAgeSeconds = maxAgeSeconds;
+    this.requiredMethods = requiredMethods;
+  }
+}
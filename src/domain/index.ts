@@ -1,11 +1,38 @@
-export type { UserEntity, UserRole, UserTier } from "./entities/user.entity";
+export type {
+  UserEntity,
+  UserRole,
+  UserTier,
+  AccountStatus,
+  RecoveryCode,
+} from "./entities/user.entity";
 export { UserMethods } from "./entities/user.entity";
-export type { SessionEntity } from "./entities/session.entity";
+export type {
+  SessionEntity,
+  SessionPolicy,
+  SessionEndReason,
+} from "./entities/session.entity";
 export { SessionMethods } from "./entities/session.entity";
 export type {
   AuthEventEntity,
   AuthEventType,
 } from "./entities/auth-event.entity";
+export type {
+  WebAuthnCredentialEntity,
+  WebAuthnDeviceType,
+} from "./entities/webauthn-credential.entity";
+export type { LinkedIdentityEntity } from "./entities/linked-identity.entity";
+export type { PersonalAccessTokenEntity } from "./entities/personal-access-token.entity";
+export { PersonalAccessTokenMethods } from "./entities/personal-access-token.entity";
+export type { RoleEntity } from "./entities/role.entity";
+export type {
+  OrganizationEntity,
+  OrganizationRole,
+} from "./entities/organization.entity";
+export { OrganizationMethods } from "./entities/organization.entity";
+export type { OrganizationMembershipEntity } from "./entities/organization-membership.entity";
+export type { OrganizationInvitationEntity } from "./entities/organization-invitation.entity";
+export { OrganizationInvitationMethods } from "./entities/organization-invitation.entity";
+export { RoleMethods, BASE_ROLE_PERMISSIONS } from "./entities/role.entity";
 
 export { Email } from "./value-objects/email.vo";
 export { HashedPassword } from "./value-objects/hashed-password.vo";
@@ -21,8 +48,16 @@ export { ConflictError } from "./errors/conflict.error";
 export { NotFoundError } from "./errors/not-found.error";
 export { RateLimitError } from "./errors/rate-limit.error";
 export { TokenError } from "./errors/token.error";
+export { ReauthenticationRequiredError } from "./errors/reauthentication-required.error";
 export type { TokenErrorReason } from "./errors/token.error";
 
 export type { IUserRepository } from "./repositories/user.repository";
 export type { ISessionRepository } from "./repositories/session.repository";
 export type { IAuthEventRepository } from "./repositories/auth-event.repository";
+export type { IWebAuthnCredentialRepository } from "./repositories/webauthn-credential.repository";
+export type { ILinkedIdentityRepository } from "./repositories/linked-identity.repository";
+export type { IPersonalAccessTokenRepository } from "./repositories/personal-access-token.repository";
+export type { IRoleRepository } from "./repositories/role.repository";
+export type { IOrganizationRepository } from "./repositories/organization.repository";
+export type { IOrganizationMembershipRepository } from "./repositories/organization-membership.repository";
+export type { IOrganizationInvitationRepository } from "./repositories/organization-invitation.repository";
@@ -0,0 +1,20 @@
+import type { LinkedIdentityEntity } from "@domain/entities/linked-identity.entity";
+
+export interface ILinkedIdentityRepository {
+  create(
+    identity: Omit<LinkedIdentityEntity, "id" | "createdAt">
+  ): Promise<LinkedIdentityEntity>;
+
+  findByProviderSubject(
+    provider: string,
+    subject: string
+  ): Promise<LinkedIdentityEntity | null>;
+
+  findByUserId(userId: string): Promise<LinkedIdentityEntity[]>;
+
+  updateLastUsed(id: string, lastUsedAt: Date): Promise<void>;
+
+  delete(userId: string, id: string): Promise<boolean>;
+
+  deleteAllForUser(userId: string): Promise<number>;
+}
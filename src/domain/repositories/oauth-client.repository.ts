@@ -0,0 +1,13 @@
+import type { OAuthClientEntity } from "@domain/entities/oauth-client.entity";
+
+export interface IOAuthClientRepository {
+  create(
+    client: Omit<OAuthClientEntity, "id" | "createdAt">
+  ): Promise<OAuthClientEntity>;
+
+  findByClientId(clientId: string): Promise<OAuthClientEntity | null>;
+
+  findAll(): Promise<OAuthClientEntity[]>;
+
+  delete(clientId: string): Promise<boolean>;
+}
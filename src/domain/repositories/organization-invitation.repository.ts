@@ -0,0 +1,17 @@
+import type { OrganizationInvitationEntity } from "@domain/entities/organization-invitation.entity";
+
+export interface IOrganizationInvitationRepository {
+  create(
+    invitation: Omit<OrganizationInvitationEntity, "id" | "createdAt">
+  ): Promise<OrganizationInvitationEntity>;
+
+  findByTokenHash(
+    tokenHash: string
+  ): Promise<OrganizationInvitationEntity | null>;
+
+  /**
+   * Marks a pending invitation accepted. Returns false if it was already
+   * accepted, so each link admits one member.
+   */
+  markAccepted(id: string): Promise<boolean>;
+}
@@ -0,0 +1,27 @@
+import type { OrganizationMembershipEntity } from "@domain/entities/organization-membership.entity";
+
+export interface IOrganizationMembershipRepository {
+  /**
+   * @throws ConflictError when the user is already a member.
+   */
+  create(
+    membership: Omit<OrganizationMembershipEntity, "id" | "createdAt">
+  ): Promise<OrganizationMembershipEntity>;
+
+  find(
+    organizationId: string,
+    userId: string
+  ): Promise<OrganizationMembershipEntity | null>;
+
+  findByUserId(userId: string): Promise<OrganizationMembershipEntity[]>;
+
+  findByOrganizationId(
+    organizationId: string
+  ): Promise<OrganizationMembershipEntity[]>;
+
+  countOwners(organizationId: string): Promise<number>;
+
+  delete(organizationId: string, userId: string): Promise<boolean>;
+
+  deleteAllForUser(userId: string): Promise<number>;
+}
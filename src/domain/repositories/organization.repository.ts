@@ -0,0 +1,11 @@
+import type { OrganizationEntity } from "@domain/entities/organization.entity";
+
+export interface IOrganizationRepository {
+  create(
+    organization: Omit<OrganizationEntity, "id" | "createdAt" | "updatedAt">
+  ): Promise<OrganizationEntity>;
+
+  findById(id: string): Promise<OrganizationEntity | null>;
+
+  findByIds(ids: string[]): Promise<OrganizationEntity[]>;
+}
@@ -0,0 +1,19 @@
+import type { PersonalAccessTokenEntity } from "@domain/entities/personal-access-token.entity";
+
+export interface IPersonalAccessTokenRepository {
+  create(
+    token: Omit<PersonalAccessTokenEntity, "id" | "createdAt">
+  ): Promise<PersonalAccessTokenEntity>;
+
+  findByTokenHash(tokenHash: string): Promise<PersonalAccessTokenEntity | null>;
+
+  findActiveByUserId(userId: string): Promise<PersonalAccessTokenEntity[]>;
+
+  countActiveByUserId(userId: string): Promise<number>;
+
+  updateLastUsed(id: string, lastUsedAt: Date): Promise<void>;
+
+  revoke(userId: string, id: string): Promise<PersonalAccessTokenEntity | null>;
+
+  deleteAllForUser(userId: string): Promise<number>;
+}
@@ -0,0 +1,20 @@
+import type { RoleEntity } from "@domain/entities/role.entity";
+
+export interface IRoleRepository {
+  create(
+    role: Omit<RoleEntity, "id" | "createdAt" | "updatedAt">
+  ): Promise<RoleEntity>;
+
+  findByName(name: string): Promise<RoleEntity | null>;
+
+  findByNames(names: string[]): Promise<RoleEntity[]>;
+
+  findAll(): Promise<RoleEntity[]>;
+
+  update(
+    name: string,
+    update: { description?: string; permissions?: string[] }
+  ): Promise<RoleEntity | null>;
+
+  delete(name: string): Promise<boolean>;
+}
@@ -1,8 +1,15 @@
-import type { SessionEntity } from "@domain/entities/session.entity";
+import type {
+  AuthMethod,
+  SessionEntity,
+} from "@domain/entities/session.entity";
 
 export interface ISessionRepository {
+  /**
+   * `createdAt` defaults to now. Refresh rotation passes the original value
+   * so a device keeps its sign-in time across rotations.
+   */
   create(
-    session: Omit<SessionEntity, "id" | "createdAt">
+    session: Omit<SessionEntity, "id" | "createdAt"> & { createdAt?: Date }
   ): Promise<SessionEntity>;
 
   findByRefreshTokenHash(hash: string): Promise<SessionEntity | null>;
@@ -11,13 +18,35 @@ export interface ISessionRepository {
 
   findByUserId(userId: string): Promise<SessionEntity[]>;
 
+  findByFamilyId(familyId: string): Promise<SessionEntity | null>;
+
   delete(sessionId: string): Promise<boolean>;
 
   deleteAllForUser(userId: string): Promise<number>;
 
+  deleteByFamilyId(familyId: string): Promise<number>;
+
   findAndDeleteByRefreshTokenHash(hash: string): Promise<SessionEntity | null>;
 
   updateLastUsed(sessionId: string, lastUsedAt: Date): Promise<void>;
 
+  /**
+   * Sets or, with null, clears the session's active organization.
+   */
+  updateActiveOrganization(
+    sessionId: string,
+    organizationId: string | null
+  ): Promise<void>;
+
+  /**
+   * Records a fresh authentication on an existing session, replacing its
+   * `auth_time` and `amr`.
+   */
+  updateAuthentication(
+    sessionId: string,
+    authenticatedAt: Date,
+    authMethods: AuthMethod[]
+  ): Promise<void>;
+
   deleteExpiredSessions(): Promise<number>;
 }
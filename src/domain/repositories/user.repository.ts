@@ -1,10 +1,40 @@
-import type { UserEntity } from "@domain/entities/user.entity";
+import type {
+  AccountStatus,
+  UserEntity,
+  UserRole,
+  UserTier,
+} from "@domain/entities/user.entity";
+import type { AuthMethod } from "@domain/entities/session.entity";
+
+export interface UserSearchQuery {
+  /** Matched case-insensitively against the start of the address. */
+  emailPrefix?: string;
+
+  role?: UserRole;
+
+  tier?: UserTier;
+
+  isVerified?: boolean;
+
+  createdAfter?: Date;
+
+  createdBefore?: Date;
+
+  limit: number;
+
+  offset: number;
+}
 
 export interface IUserRepository {
   findByEmail(email: string): Promise<UserEntity | null>;
 
   findById(id: string): Promise<UserEntity | null>;
 
+  /** Newest first. `total` counts every match, ignoring limit and offset. */
+  search(
+    query: UserSearchQuery
+  ): Promise<{ users: UserEntity[]; total: number }>;
+
   create(
     user: Omit<UserEntity, "id" | "createdAt" | "updatedAt">
   ): Promise<UserEntity>;
@@ -17,6 +47,24 @@ export interface IUserRepository {
 
   updateTokenVersion(userId: string, tokenVersion: number): Promise<void>;
 
+  /**
+   * Changes the user's role together with their token version, so tokens
+   * carrying the old role stop validating.
+   */
+  updateRole(
+    userId: string,
+    role: UserEntity["role"],
+    tokenVersion: number
+  ): Promise<void>;
+
+  updateRoles(userId: string, roles: string[]): Promise<void>;
+
+  /**
+   * Unassigns a custom role from every user holding it.
+   * @returns The number of users updated.
+   */
+  removeRoleFromAll(name: string): Promise<number>;
+
   updateVerification(
     userId: string,
     update: {
@@ -27,12 +75,17 @@ export interface IUserRepository {
     }
   ): Promise<void>;
 
+  /**
+   * Stores the pending OTP challenge. `otpFirstFactor` is left as it is
+   * when omitted.
+   */
   updateOtp(
     userId: string,
     update: {
       otpSecret: string;
       otpExpiry: Date;
       otpAttempts: number;
+      otpFirstFactor?: AuthMethod;
     }
   ): Promise<void>;
 
@@ -53,6 +106,22 @@ export interface IUserRepository {
 
   clearPasswordResetToken(userId: string): Promise<void>;
 
+  updateMagicLinkToken(
+    userId: string,
+    update: {
+      magicLinkToken: string;
+      magicLinkTokenHash: string;
+      magicLinkTokenExpiry: Date;
+      magicLinkRememberMe: boolean;
+    }
+  ): Promise<void>;
+
+  /**
+   * Atomically clears a magic-link token and returns the user as it was
+   * before the update, so each link can be used at most once.
+   */
+  consumeMagicLinkToken(hash: string): Promise<UserEntity | null>;
+
   updateVerificationToken(
     userId: string,
     update: {
@@ -63,4 +132,41 @@ export interface IUserRepository {
   ): Promise<void>;
 
   incrementOtpAttempts(userId: string): Promise<void>;
+
+  updateTotpPendingSecret(
+    userId: string,
+    totpPendingSecret: string
+  ): Promise<void>;
+
+  enableTotp(userId: string, totpSecret: string): Promise<void>;
+
+  disableTotp(userId: string): Promise<void>;
+
+  /**
+   * Atomically records the last accepted TOTP time step.
+   * Returns false if the step was already used (replayed code).
+   */
+  recordTotpStep(userId: string, step: number): Promise<boolean>;
+
+  replaceRecoveryCodes(userId: string, hashes: string[]): Promise<void>;
+
+  clearRecoveryCodes(userId: string): Promise<void>;
+
+  /**
+   * Atomically marks an unused recovery code as consumed.
+   * Returns false if no unused code matches the hash.
+   */
+  consumeRecoveryCode(userId: string, hash: string): Promise<boolean>;
+
+  /** Setting "active" clears the reason and any suspension end date. */
+  updateStatus(
+    userId: string,
+    update: {
+      status: AccountStatus;
+      statusReason?: string;
+      suspendedUntil?: Date;
+    }
+  ): Promise<void>;
+
+  delete(userId: string): Promise<boolean>;
 }
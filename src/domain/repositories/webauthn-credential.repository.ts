@@ -0,0 +1,24 @@
+import type { WebAuthnCredentialEntity } from "@domain/entities/webauthn-credential.entity";
+
+export interface IWebAuthnCredentialRepository {
+  create(
+    credential: Omit<WebAuthnCredentialEntity, "id" | "createdAt">
+  ): Promise<WebAuthnCredentialEntity>;
+
+  findByCredentialId(
+    credentialId: string
+  ): Promise<WebAuthnCredentialEntity | null>;
+
+  findByUserId(userId: string): Promise<WebAuthnCredentialEntity[]>;
+
+  updateUsage(
+    credentialId: string,
+    update: { counter: number; lastUsedAt: Date }
+  ): Promise<void>;
+
+  rename(userId: string, id: string, name: string): Promise<boolean>;
+
+  delete(userId: string, id: string): Promise<boolean>;
+
+  deleteAllForUser(userId: string): Promise<number>;
+}
@@ -1,5 +1,19 @@
 import { z } from "zod";
 
+const sessionPolicyOverrideSchema = z
+  .object({
+    idleTimeoutSeconds: z.number().int().positive(),
+    absoluteLifetimeSeconds: z.number().int().positive(),
+  })
+  .partial();
+
+const sessionPolicyOverridesSchema = z
+  .object({
+    admin: z.record(z.enum(["free", "pro"]), sessionPolicyOverrideSchema),
+    user: z.record(z.enum(["free", "pro"]), sessionPolicyOverrideSchema),
+  })
+  .partial();
+
 const envSchema = z.object({
   NODE_ENV: z
     .enum(["development", "production", "test"])
@@ -58,6 +72,64 @@ const envSchema = z.object({
     .length(64, "ENCRYPTION_KEY must be exactly 64 hex characters (32 bytes)"),
 
   CRON_SECRET: z.string().min(16, "CRON_SECRET must be at least 16 characters"),
+
+  WEBAUTHN_RP_ID: z.string().default("ankurhalder.com"),
+  WEBAUTHN_RP_NAME: z.string().default("ankurhalder.com"),
+  WEBAUTHN_ORIGINS: z
+    .string()
+    .transform((s) => (s ? s.split(",").map((o) => o.trim()) : []))
+    .default(""),
+
+  SESSION_POLICIES: z
+    .string()
+    .default("{}")
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "SESSION_POLICIES must be valid JSON",
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(sessionPolicyOverridesSchema),
+
+  SESSION_LIMIT_FREE: z.coerce.number().int().min(0).default(5),
+  SESSION_LIMIT_PRO: z.coerce.number().int().min(0).default(10),
+  SESSION_LIMIT_ACTION: z
+    .enum(["evict_oldest", "reject"])
+    .default("evict_oldest"),
+
+  REFRESH_GRACE_PERIOD_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(60)
+    .default(10),
+  REFRESH_REUSE_ALERT_EMAILS: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((v) => v === "true"),
+
+  OIDC_ISSUER: z.string().url().default("https://auth.ankurhalder.com/api"),
+
+  OAUTH_REDIRECT_BASE_URL: z
+    .string()
+    .url()
+    .default("https://auth.ankurhalder.com"),
+  OAUTH_GOOGLE_CLIENT_ID: z.string().default(""),
+  OAUTH_GOOGLE_CLIENT_SECRET: z.string().default(""),
+  OAUTH_GITHUB_CLIENT_ID: z.string().default(""),
+  OAUTH_GITHUB_CLIENT_SECRET: z.string().default(""),
+  OAUTH_OIDC_ID: z.string().default("oidc"),
+  OAUTH_OIDC_ISSUER: z.string().default(""),
+  OAUTH_OIDC_CLIENT_ID: z.string().default(""),
+  OAUTH_OIDC_CLIENT_SECRET: z.string().default(""),
+  OAUTH_OIDC_AUTHORIZATION_ENDPOINT: z.string().default(""),
+  OAUTH_OIDC_TOKEN_ENDPOINT: z.string().default(""),
+  OAUTH_OIDC_JWKS_URI: z.string().default(""),
 });
 
 function validateEnv(): z.infer<typeof envSchema> {
@@ -0,0 +1,27 @@
+import type { UserEntity, UserTier } from "@domain/entities/user.entity";
+import { env } from "@/env";
+
+export type SessionLimitAction = "evict_oldest" | "reject";
+
+export interface SessionLimit {
+  maxSessions: number;
+  action: SessionLimitAction;
+}
+
+const MAX_SESSIONS_BY_TIER: Record<UserTier, number> = {
+  free: env.SESSION_LIMIT_FREE,
+  pro: env.SESSION_LIMIT_PRO,
+};
+
+/**
+ * @returns The active session cap for the user's tier, or null when the
+ * tier is configured as unlimited (0).
+ */
+export function resolveSessionLimit(
+  user: Pick<UserEntity, "tier">
+): SessionLimit | null {
+  const maxSessions = MAX_SESSIONS_BY_TIER[user.tier];
+  if (maxSessions === 0) return null;
+
+  return { maxSessions, action: env.SESSION_LIMIT_ACTION };
+}
@@ -0,0 +1,48 @@
+import type { SessionPolicy } from "@domain/entities/session.entity";
+import type {
+  UserEntity,
+  UserRole,
+  UserTier,
+} from "@domain/entities/user.entity";
+import { env } from "@/env";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Admin sessions are held to shorter limits than regular ones. Any value can
+ * be overridden per role and tier through the SESSION_POLICIES variable.
+ */
+const DEFAULT_SESSION_POLICIES: Record<
+  UserRole,
+  Record<UserTier, SessionPolicy>
+> = {
+  admin: {
+    free: {
+      idleTimeoutSeconds: 12 * 60 * 60,
+      absoluteLifetimeSeconds: 7 * DAY_SECONDS,
+    },
+    pro: {
+      idleTimeoutSeconds: 12 * 60 * 60,
+      absoluteLifetimeSeconds: 7 * DAY_SECONDS,
+    },
+  },
+  user: {
+    free: {
+      idleTimeoutSeconds: 7 * DAY_SECONDS,
+      absoluteLifetimeSeconds: 30 * DAY_SECONDS,
+    },
+    pro: {
+      idleTimeoutSeconds: 14 * DAY_SECONDS,
+      absoluteLifetimeSeconds: 90 * DAY_SECONDS,
+    },
+  },
+};
+
+export function resolveSessionPolicy(
+  user: Pick<UserEntity, "role" | "tier">
+): SessionPolicy {
+  return {
+    ...DEFAULT_SESSION_POLICIES[user.role][user.tier],
+    ...env.SESSION_POLICIES[user.role]?.[user.tier],
+  };
+}
@@ -0,0 +1,55 @@
+import crypto from "node:crypto";
+import { env } from "@/env";
+
+const NONCE_BYTES = 16;
+
+export const CSRF_TOKEN_TTL_SECONDS = 2 * 60 * 60;
+
+function signingKey(): Buffer {
+  return crypto
+    .createHash("sha256")
+    .update(`csrf:${env.ENCRYPTION_KEY}`)
+    .digest();
+}
+
+function sign(binding: string, expiresAt: number, nonce: string): string {
+  return crypto
+    .createHmac("sha256", signingKey())
+    .update(`${binding}.${expiresAt}.${nonce}`)
+    .digest("base64url");
+}
+
+/**
+ * Issues a CSRF token bound to a session or pre-auth nonce. The token is
+ * `<expiresAt>.<nonce>.<signature>`, so verification needs no storage.
+ */
+export function generateCsrfToken(
+  binding: string,
+  ttlSeconds: number = CSRF_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: Date } {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const nonce = crypto.randomBytes(NONCE_BYTES).toString("base64url");
+
+  return {
+    token: `${expiresAt}.${nonce}.${sign(binding, expiresAt, nonce)}`,
+    expiresAt: new Date(expiresAt * 1000),
+  };
+}
+
+export function verifyCsrfToken(token: string, binding: string): boolean {
+  const [expiresAtPart, nonce, signature, ...rest] = token.split(".");
+  if (!expiresAtPart || !nonce || !signature || rest.length > 0) return false;
+
+  const expiresAt = Number(expiresAtPart);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(binding, expiresAt, nonce));
+  const submitted = Buffer.from(signature);
+
+  return (
+    expected.length === submitted.length &&
+    crypto.timingSafeEqual(expected, submitted)
+  );
+}
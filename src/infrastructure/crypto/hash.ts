@@ -7,3 +7,13 @@ export function sha256Hash(raw: string): string {
 export function generateRandomToken(bytes: number = 32): string {
   return crypto.randomBytes(bytes).toString("hex");
 }
+
+export function constantTimeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) {
+    crypto.timingSafeEqual(bufA, bufA);
+    return false;
+  }
+  return crypto.timingSafeEqual(bufA, bufB);
+}
@@ -3,6 +3,7 @@ import crypto from "node:crypto";
 import type {
   ITokenService,
   AccessTokenPayload,
+  MachineTokenPayload,
   RefreshTokenPayload,
   GeneratedToken,
   JsonWebKeySet,
@@ -11,7 +12,10 @@ import type {
 import { env } from "@/env";
 
 const ALGORITHM = "RS256" as const;
-const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const MACHINE_TOKEN_TTL_SECONDS = 5 * 60;
+const ID_TOKEN_TTL_SECONDS = 60 * 60;
+const MACHINE_SUBJECT_PREFIX = "client:";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type CryptoKey = any;
@@ -117,12 +121,28 @@ function generateJti(): string {
   return crypto.randomBytes(16).toString("hex");
 }
 
+function isActorClaim(value: unknown): value is { sub: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { sub?: unknown }).sub === "string"
+  );
+}
+
 export class JwtServiceImpl implements ITokenService {
   async generateAccessToken(payload: {
     userId: string;
     email: string;
     role: "admin" | "user";
+    permissions: string[];
+    organizationId?: string;
+    impersonatorId?: string;
+    clientId?: string;
+    scopes?: string[];
+    authTime: Date;
+    amr: string[];
     sessionId: string;
+    familyId: string;
     tokenVersion: number;
   }): Promise<GeneratedToken> {
     const { privateKey, kid } = await getAccessKeySet();
@@ -131,7 +151,15 @@ export class JwtServiceImpl implements ITokenService {
     const token = await new jose.SignJWT({
       email: payload.email,
       role: payload.role,
+      permissions: payload.permissions,
+      ...(payload.organizationId && { org_id: payload.organizationId }),
+      ...(payload.impersonatorId && { act: { sub: payload.impersonatorId } }),
+      ...(payload.clientId && { client_id: payload.clientId }),
+      ...(payload.scopes && { scope: payload.scopes.join(" ") }),
+      auth_time: Math.floor(payload.authTime.getTime() / 1000),
+      amr: payload.amr,
       sessionId: payload.sessionId,
+      familyId: payload.familyId,
       jti,
       tv: payload.tokenVersion,
     })
@@ -146,7 +174,9 @@ export class JwtServiceImpl implements ITokenService {
 
   async generateRefreshToken(payload: {
     userId: string;
+    role: "admin" | "user";
     sessionId: string;
+    familyId: string;
     tokenVersion: number;
     ttlSeconds: number;
   }): Promise<GeneratedToken> {
@@ -154,7 +184,9 @@ export class JwtServiceImpl implements ITokenService {
     const jti = generateJti();
 
     const token = await new jose.SignJWT({
+      role: payload.role,
       sessionId: payload.sessionId,
+      familyId: payload.familyId,
       jti,
       tv: payload.tokenVersion,
     })
@@ -167,6 +199,57 @@ export class JwtServiceImpl implements ITokenService {
     return { token, jti };
   }
 
+  async generateIdToken(payload: {
+    userId: string;
+    clientId: string;
+    email?: string;
+    emailVerified?: boolean;
+    nonce?: string;
+    authTime: Date;
+    amr: string[];
+  }): Promise<string> {
+    const { privateKey, kid } = await getAccessKeySet();
+
+    return new jose.SignJWT({
+      auth_time: Math.floor(payload.authTime.getTime() / 1000),
+      amr: payload.amr,
+      ...(payload.nonce !== undefined && { nonce: payload.nonce }),
+      ...(payload.email !== undefined && {
+        email: payload.email,
+        email_verified: payload.emailVerified ?? false,
+      }),
+    })
+      .setProtectedHeader({ alg: ALGORITHM, kid, typ: "JWT" })
+      .setIssuer(env.OIDC_ISSUER)
+      .setSubject(payload.userId)
+      .setAudience(payload.clientId)
+      .setIssuedAt()
+      .setExpirationTime(`${ID_TOKEN_TTL_SECONDS}s`)
+      .sign(privateKey);
+  }
+
+  async generateMachineToken(payload: {
+    clientId: string;
+    scopes: string[];
+  }): Promise<GeneratedToken> {
+    const { privateKey, kid } = await getAccessKeySet();
+    const jti = generateJti();
+
+    const token = await new jose.SignJWT({
+      client_id: payload.clientId,
+      scope: payload.scopes.join(" "),
+      jti,
+    })
+      .setProtectedHeader({ alg: ALGORITHM, kid })
+      .setIssuer(env.OIDC_ISSUER)
+      .setSubject(`${MACHINE_SUBJECT_PREFIX}${payload.clientId}`)
+      .setIssuedAt()
+      .setExpirationTime(`${MACHINE_TOKEN_TTL_SECONDS}s`)
+      .sign(privateKey);
+
+    return { token, jti };
+  }
+
   async verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
     try {
       const header = jose.decodeProtectedHeader(token);
@@ -204,7 +287,31 @@ export class JwtServiceImpl implements ITokenService {
         sub: payload.sub,
         email: payload.email as string,
         role: payload.role as "admin" | "user",
+        ...(Array.isArray(payload.permissions) &&
+          payload.permissions.every(
+            (permission) => typeof permission === "string"
+          ) && {
+            permissions: payload.permissions as string[],
+          }),
+        ...(typeof payload.org_id === "string" && { orgId: payload.org_id }),
+        ...(isActorClaim(payload.act) && { act: { sub: payload.act.sub } }),
+        ...(typeof payload.auth_time === "number" && {
+          authTime: payload.auth_time,
+        }),
+        ...(Array.isArray(payload.amr) &&
+          payload.amr.every((method) => typeof method === "string") && {
+            amr: payload.amr as string[],
+          }),
+        ...(typeof payload.client_id === "string" && {
+          clientId: payload.client_id,
+        }),
+        ...(typeof payload.scope === "string" && {
+          scopes: payload.scope.split(" ").filter(Boolean),
+        }),
         sessionId: payload.sessionId as string,
+        ...(typeof payload.familyId === "string" && {
+          familyId: payload.familyId,
+        }),
         jti: payload.jti as string,
         tv: payload.tv as number,
         iat: payload.iat,
@@ -215,6 +322,49 @@ export class JwtServiceImpl implements ITokenService {
     }
   }
 
+  async verifyMachineToken(token: string): Promise<MachineTokenPayload | null> {
+    try {
+      const header = jose.decodeProtectedHeader(token);
+      if (!header.kid || header.alg !== ALGORITHM) {
+        return null;
+      }
+
+      const publicKey = await findPublicKeyByKid(header.kid, "access");
+      if (!publicKey) {
+        return null;
+      }
+
+      const { payload } = await jose.jwtVerify(token, publicKey, {
+        algorithms: [ALGORITHM],
+        issuer: env.OIDC_ISSUER,
+      });
+
+      if (
+        typeof payload.sub !== "string" ||
+        typeof payload.client_id !== "string" ||
+        typeof payload.scope !== "string" ||
+        typeof payload.jti !== "string" ||
+        typeof payload.iat !== "number" ||
+        typeof payload.exp !== "number" ||
+        payload.sub !== `${MACHINE_SUBJECT_PREFIX}${payload.client_id}` ||
+        "sessionId" in payload
+      ) {
+        return null;
+      }
+
+      return {
+        sub: payload.sub,
+        clientId: payload.client_id,
+        scopes: payload.scope.split(" ").filter(Boolean),
+        jti: payload.jti,
+        iat: payload.iat,
+        exp: payload.exp,
+      };
+    } catch {
+      return null;
+    }
+  }
+
   async verifyRefreshToken(token: string): Promise<RefreshTokenPayload | null> {
     try {
       const header = jose.decodeProtectedHeader(token);
@@ -244,7 +394,13 @@ export class JwtServiceImpl implements ITokenService {
 
       return {
         sub: payload.sub,
+        ...((payload.role === "admin" || payload.role === "user") && {
+          role: payload.role,
+        }),
         sessionId: payload.sessionId as string,
+        ...(typeof payload.familyId === "string" && {
+          familyId: payload.familyId,
+        }),
         jti: payload.jti as string,
         tv: payload.tv as number,
         iat: payload.iat,
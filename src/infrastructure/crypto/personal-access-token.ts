@@ -0,0 +1,21 @@
+import { generateRandomToken } from "./hash";
+
+/**
+ * Marks a bearer credential as a personal access token rather than a JWT,
+ * and makes leaked keys easy to spot for secret scanners.
+ */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "pat_" as const;
+
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 8;
+
+export function generatePersonalAccessToken(): {
+  token: string;
+  displayPrefix: string;
+} {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateRandomToken(32)}`;
+  return { token, displayPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
@@ -0,0 +1,17 @@
+import crypto from "node:crypto";
+import { constantTimeEqual } from "./hash";
+
+export function generateCodeVerifier(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function computeCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+export function verifyCodeChallenge(
+  codeVerifier: string,
+  codeChallenge: string
+): boolean {
+  return constantTimeEqual(computeCodeChallenge(codeVerifier), codeChallenge);
+}
@@ -0,0 +1,39 @@
+import crypto from "node:crypto";
+import { sha256Hash } from "./hash";
+
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const RECOVERY_CODE_PATTERN = /^[a-z0-9]{5}-?[a-z0-9]{5}$/i;
+
+function randomGroup(): string {
+  let group = "";
+  for (let i = 0; i < RECOVERY_CODE_GROUP_LENGTH; i++) {
+    group +=
+      RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return group;
+}
+
+export function generateRecoveryCodes(
+  count: number = RECOVERY_CODE_COUNT
+): string[] {
+  return Array.from(
+    { length: count },
+    () => `${randomGroup()}-${randomGroup()}`
+  );
+}
+
+export function isRecoveryCodeFormat(code: string): boolean {
+  return RECOVERY_CODE_PATTERN.test(code.trim());
+}
+
+/**
+ * Hashes a recovery code as typed by the user. Case and the separating
+ * dash are ignored so "ABCDE-FGHJK" and "abcdefghjk" hash the same.
+ */
+export function hashRecoveryCode(code: string): string {
+  return sha256Hash(code.trim().toLowerCase().replace("-", ""));
+}
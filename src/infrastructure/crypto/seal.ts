@@ -0,0 +1,50 @@
+import crypto from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm" as const;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function deriveKey(secret: string): Buffer {
+  return crypto.createHash("sha256").update(`seal:${secret}`).digest();
+}
+
+/**
+ * Encrypts a value under a key derived from a secret the caller already
+ * holds, so whoever can read the stored value still needs that secret.
+ */
+export function sealWithSecret(plaintext: string, secret: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64url"
+  );
+}
+
+export function unsealWithSecret(
+  sealed: string,
+  secret: string
+): string | null {
+  try {
+    const raw = Buffer.from(sealed, "base64url");
+    if (raw.length <= IV_LENGTH + TAG_LENGTH) return null;
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      deriveKey(secret),
+      raw.subarray(0, IV_LENGTH)
+    );
+    decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([
+      decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,131 @@
+import crypto from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20;
+const HMAC_ALGORITHM = "sha1" as const;
+
+export const TOTP_ISSUER = "ankurhalder.com";
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Number of 30-second steps accepted on either side of the current one,
+ * to tolerate clock drift between the server and the authenticator app.
+ */
+const TOTP_DRIFT_STEPS = 1;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer | null {
+  const clean = encoded.replace(/=+$/, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateHotp(key: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto
+    .createHmac(HMAC_ALGORITHM, key)
+    .update(counterBuffer)
+    .digest();
+
+  const offset = digest[digest.length - 1]! & 0x0f;
+  const binary =
+    ((digest[offset]! & 0x7f) << 24) |
+    ((digest[offset + 1]! & 0xff) << 16) |
+    ((digest[offset + 2]! & 0xff) << 8) |
+    (digest[offset + 3]! & 0xff);
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function getCurrentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function buildTotpUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: HMAC_ALGORITHM.toUpperCase(),
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verifies an RFC 6238 code against a base32 secret.
+ * @returns The matching time step, or null if the code is invalid.
+ */
+export function verifyTotp(
+  code: string,
+  secret: string,
+  now: number = Date.now()
+): number | null {
+  if (code.length !== TOTP_DIGITS || !/^\d+$/.test(code)) return null;
+
+  const key = base32Decode(secret);
+  if (!key || key.length === 0) return null;
+
+  const currentStep = getCurrentTotpStep(now);
+  const submitted = Buffer.from(code);
+  let matchedStep: number | null = null;
+
+  for (
+    let step = currentStep - TOTP_DRIFT_STEPS;
+    step <= currentStep + TOTP_DRIFT_STEPS;
+    step++
+  ) {
+    const expected = Buffer.from(generateHotp(key, step));
+    if (crypto.timingSafeEqual(submitted, expected) && matchedStep === null) {
+      matchedStep = step;
+    }
+  }
+
+  return matchedStep;
+}
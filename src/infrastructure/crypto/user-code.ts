@@ -0,0 +1,27 @@
+import crypto from "node:crypto";
+
+/**
+ * Consonants only (RFC 8628 §6.1): no vowels to avoid spelling words, and no
+ * characters that are easily confused when read off a screen.
+ */
+const USER_CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ";
+const USER_CODE_LENGTH = 8;
+
+export function generateUserCode(): string {
+  let code = "";
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[crypto.randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Strips separators and case so "bcdf-ghjk" and "BCDFGHJK" match.
+ */
+export function normalizeUserCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z]/g, "");
+}
+
+export function formatUserCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
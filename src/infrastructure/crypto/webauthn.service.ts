@@ -0,0 +1,154 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from "@simplewebauthn/server";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import type { WebAuthnDeviceType } from "@domain/entities/webauthn-credential.entity";
+import { env } from "@/env";
+
+export type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+};
+
+export const WEBAUTHN_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export interface WebAuthnCredentialDescriptor {
+  credentialId: string;
+  transports?: string[];
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports?: string[];
+  deviceType: WebAuthnDeviceType;
+  backedUp: boolean;
+}
+
+function getExpectedOrigins(): string[] {
+  return env.WEBAUTHN_ORIGINS.length > 0
+    ? env.WEBAUTHN_ORIGINS
+    : env.ALLOWED_ORIGINS;
+}
+
+function toDescriptor(credential: WebAuthnCredentialDescriptor): {
+  id: string;
+  transports?: string[];
+} {
+  return { id: credential.credentialId, transports: credential.transports };
+}
+
+export async function createRegistrationOptions(
+  user: { id: string; email: string },
+  existingCredentials: WebAuthnCredentialDescriptor[]
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  return generateRegistrationOptions({
+    rpName: env.WEBAUTHN_RP_NAME,
+    rpID: env.WEBAUTHN_RP_ID,
+    userID: new TextEncoder().encode(user.id),
+    userName: user.email,
+    userDisplayName: user.email,
+    attestationType: "none",
+    excludeCredentials: existingCredentials.map(toDescriptor),
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "required",
+    },
+    timeout: WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+  });
+}
+
+/**
+ * Verifies an attestation against the stored challenge.
+ * @returns The credential to persist, or null if verification failed.
+ */
+export async function verifyRegistration(
+  response: RegistrationResponseJSON,
+  expectedChallenge: string
+): Promise<VerifiedRegistration | null> {
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: getExpectedOrigins(),
+      expectedRPID: env.WEBAUTHN_RP_ID,
+      requireUserVerification: true,
+    });
+
+    if (!verified || !registrationInfo) return null;
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      registrationInfo;
+
+    return {
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString("base64url"),
+      counter: credential.counter,
+      transports: credential.transports,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function createAuthenticationOptions(
+  allowCredentials: WebAuthnCredentialDescriptor[]
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  return generateAuthenticationOptions({
+    rpID: env.WEBAUTHN_RP_ID,
+    allowCredentials: allowCredentials.map(toDescriptor),
+    userVerification: "required",
+    timeout: WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+  });
+}
+
+/**
+ * Verifies an assertion signed by a stored credential.
+ * @returns The authenticator's new signature counter, or null if
+ * verification failed.
+ */
+export async function verifyAuthentication(
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  credential: WebAuthnCredentialDescriptor & {
+    publicKey: string;
+    counter: number;
+  }
+): Promise<number | null> {
+  try {
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse(
+      {
+        response,
+        expectedChallenge,
+        expectedOrigin: getExpectedOrigins(),
+        expectedRPID: env.WEBAUTHN_RP_ID,
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(
+            Buffer.from(credential.publicKey, "base64url")
+          ),
+          counter: credential.counter,
+          transports: credential.transports,
+        },
+        requireUserVerification: true,
+      }
+    );
+
+    return verified ? authenticationInfo.newCounter : null;
+  } catch {
+    return null;
+  }
+}
@@ -3,6 +3,13 @@ import { getDatabase } from "./connection";
 import { USERS_COLLECTION } from "./schemas/user.schema";
 import { SESSIONS_COLLECTION } from "./schemas/session.schema";
 import { AUTH_EVENTS_COLLECTION } from "./schemas/auth-event.schema";
+import { WEBAUTHN_CREDENTIALS_COLLECTION } from "./schemas/webauthn-credential.schema";
+import { LINKED_IDENTITIES_COLLECTION } from "./schemas/linked-identity.schema";
+import { OAUTH_CLIENTS_COLLECTION } from "./schemas/oauth-client.schema";
+import { PERSONAL_ACCESS_TOKENS_COLLECTION } from "./schemas/personal-access-token.schema";
+import { ROLES_COLLECTION } from "./schemas/role.schema";
+import { ORGANIZATION_MEMBERSHIPS_COLLECTION } from "./schemas/organization-membership.schema";
+import { ORGANIZATION_INVITATIONS_COLLECTION } from "./schemas/organization-invitation.schema";
 
 const INDEX_DEFINITIONS: Array<{
   collection: string;
@@ -31,10 +38,20 @@ const INDEX_DEFINITIONS: Array<{
         sparse: true,
         name: "idx_password_reset_token_hash",
       },
+      {
+        key: { magicLinkTokenHash: 1 },
+        sparse: true,
+        name: "idx_magic_link_token_hash",
+      },
       {
         key: { role: 1 },
         name: "idx_role",
       },
+      {
+        key: { roles: 1 },
+        sparse: true,
+        name: "idx_roles",
+      },
       {
         key: { createdAt: -1 },
         name: "idx_created_at_desc",
@@ -75,6 +92,11 @@ const INDEX_DEFINITIONS: Array<{
         key: { userId: 1, expiresAt: -1 },
         name: "idx_user_id_expires_at",
       },
+      {
+        key: { familyId: 1 },
+        sparse: true,
+        name: "idx_family_id",
+      },
     ],
   },
   {
@@ -108,6 +130,97 @@ const INDEX_DEFINITIONS: Array<{
       },
     ],
   },
+  {
+    collection: WEBAUTHN_CREDENTIALS_COLLECTION,
+    indexes: [
+      {
+        key: { credentialId: 1 },
+        unique: true,
+        name: "idx_credential_id_unique",
+      },
+      {
+        key: { userId: 1, createdAt: -1 },
+        name: "idx_user_id_created_at",
+      },
+    ],
+  },
+  {
+    collection: LINKED_IDENTITIES_COLLECTION,
+    indexes: [
+      {
+        key: { provider: 1, subject: 1 },
+        unique: true,
+        name: "idx_provider_subject_unique",
+      },
+      {
+        key: { userId: 1 },
+        name: "idx_user_id",
+      },
+    ],
+  },
+  {
+    collection: OAUTH_CLIENTS_COLLECTION,
+    indexes: [
+      {
+        key: { clientId: 1 },
+        unique: true,
+        name: "idx_client_id_unique",
+      },
+    ],
+  },
+  {
+    collection: PERSONAL_ACCESS_TOKENS_COLLECTION,
+    indexes: [
+      {
+        key: { tokenHash: 1 },
+        unique: true,
+        name: "idx_token_hash_unique",
+      },
+      {
+        key: { userId: 1, createdAt: -1 },
+        name: "idx_user_id_created_at",
+      },
+    ],
+  },
+  {
+    collection: ROLES_COLLECTION,
+    indexes: [
+      {
+        key: { name: 1 },
+        unique: true,
+        name: "idx_name_unique",
+      },
+    ],
+  },
+  {
+    collection: ORGANIZATION_MEMBERSHIPS_COLLECTION,
+    indexes: [
+      {
+        key: { organizationId: 1, userId: 1 },
+        unique: true,
+        name: "idx_organization_user_unique",
+      },
+      {
+        key: { userId: 1 },
+        name: "idx_user_id",
+      },
+    ],
+  },
+  {
+    collection: ORGANIZATION_INVITATIONS_COLLECTION,
+    indexes: [
+      {
+        key: { tokenHash: 1 },
+        unique: true,
+        name: "idx_token_hash_unique",
+      },
+      {
+        key: { expiresAt: 1 },
+        expireAfterSeconds: 0,
+        name: "idx_expires_at_ttl",
+      },
+    ],
+  },
 ];
 
 export async function createIndexes(): Promise<void> {
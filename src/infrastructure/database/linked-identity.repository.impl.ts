@@ -0,0 +1,93 @@
+import { ObjectId } from "mongodb";
+import type { Collection } from "mongodb";
+import type { ILinkedIdentityRepository } from "@domain/repositories/linked-identity.repository";
+import type { LinkedIdentityEntity } from "@domain/entities/linked-identity.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { getCollection } from "./connection";
+import type { LinkedIdentityDocument } from "./schemas/linked-identity.schema";
+import { LINKED_IDENTITIES_COLLECTION } from "./schemas/linked-identity.schema";
+
+function toEntity(doc: LinkedIdentityDocument): LinkedIdentityEntity {
+  return {
+    id: doc._id.toHexString(),
+    userId: doc.userId,
+    provider: doc.provider,
+    subject: doc.subject,
+    email: doc.email,
+    createdAt: doc.createdAt,
+    lastUsedAt: doc.lastUsedAt,
+  };
+}
+
+async function collection(): Promise<Collection<LinkedIdentityDocument>> {
+  return getCollection<LinkedIdentityDocument>(LINKED_IDENTITIES_COLLECTION);
+}
+
+export class LinkedIdentityRepositoryImpl implements ILinkedIdentityRepository {
+  async create(
+    identity: Omit<LinkedIdentityEntity, "id" | "createdAt">
+  ): Promise<LinkedIdentityEntity> {
+    const col = await collection();
+
+    const doc: Omit<LinkedIdentityDocument, "_id"> = {
+      userId: identity.userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      createdAt: new Date(),
+      lastUsedAt: identity.lastUsedAt,
+    };
+
+    try {
+      const result = await col.insertOne(doc as LinkedIdentityDocument);
+      return toEntity({
+        _id: result.insertedId,
+        ...doc,
+      } as LinkedIdentityDocument);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: number }).code === 11000
+      ) {
+        throw new ConflictError(
+          "This external account is already linked to a user"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async findByProviderSubject(
+    provider: string,
+    subject: string
+  ): Promise<LinkedIdentityEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ provider, subject });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findByUserId(userId: string): Promise<LinkedIdentityEntity[]> {
+    const col = await collection();
+    const docs = await col.find({ userId }).sort({ createdAt: 1 }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async updateLastUsed(id: string, lastUsedAt: Date): Promise<void> {
+    const col = await collection();
+    await col.updateOne({ _id: new ObjectId(id) }, { $set: { lastUsedAt } });
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    const col = await collection();
+    const result = await col.deleteOne({ _id: new ObjectId(id), userId });
+    return result.deletedCount > 0;
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    const col = await collection();
+    const result = await col.deleteMany({ userId });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,77 @@
+import type { Collection } from "mongodb";
+import type { IOAuthClientRepository } from "@domain/repositories/oauth-client.repository";
+import type { OAuthClientEntity } from "@domain/entities/oauth-client.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { getCollection } from "./connection";
+import type { OAuthClientDocument } from "./schemas/oauth-client.schema";
+import { OAUTH_CLIENTS_COLLECTION } from "./schemas/oauth-client.schema";
+
+function toEntity(doc: OAuthClientDocument): OAuthClientEntity {
+  return {
+    id: doc._id.toHexString(),
+    clientId: doc.clientId,
+    clientSecretHash: doc.clientSecretHash,
+    name: doc.name,
+    redirectUris: doc.redirectUris,
+    allowedScopes: doc.allowedScopes,
+    grantTypes: doc.grantTypes,
+    createdAt: doc.createdAt,
+  };
+}
+
+async function collection(): Promise<Collection<OAuthClientDocument>> {
+  return getCollection<OAuthClientDocument>(OAUTH_CLIENTS_COLLECTION);
+}
+
+export class OAuthClientRepositoryImpl implements IOAuthClientRepository {
+  async create(
+    client: Omit<OAuthClientEntity, "id" | "createdAt">
+  ): Promise<OAuthClientEntity> {
+    const col = await collection();
+
+    const doc: Omit<OAuthClientDocument, "_id"> = {
+      clientId: client.clientId,
+      clientSecretHash: client.clientSecretHash,
+      name: client.name,
+      redirectUris: client.redirectUris,
+      allowedScopes: client.allowedScopes,
+      grantTypes: client.grantTypes,
+      createdAt: new Date(),
+    };
+
+    try {
+      const result = await col.insertOne(doc as OAuthClientDocument);
+      return toEntity({
+        _id: result.insertedId,
+        ...doc,
+      } as OAuthClientDocument);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: number }).code === 11000
+      ) {
+        throw new ConflictError("A client with this ID already exists");
+      }
+      throw error;
+    }
+  }
+
+  async findByClientId(clientId: string): Promise<OAuthClientEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ clientId });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findAll(): Promise<OAuthClientEntity[]> {
+    const col = await collection();
+    const docs = await col.find({}).sort({ createdAt: 1 }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async delete(clientId: string): Promise<boolean> {
+    const col = await collection();
+    const result = await col.deleteOne({ clientId });
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,73 @@
+import { ObjectId } from "mongodb";
+import type { Collection } from "mongodb";
+import type { IOrganizationInvitationRepository } from "@domain/repositories/organization-invitation.repository";
+import type { OrganizationInvitationEntity } from "@domain/entities/organization-invitation.entity";
+import { getCollection } from "./connection";
+import type { OrganizationInvitationDocument } from "./schemas/organization-invitation.schema";
+import { ORGANIZATION_INVITATIONS_COLLECTION } from "./schemas/organization-invitation.schema";
+
+function toEntity(
+  doc: OrganizationInvitationDocument
+): OrganizationInvitationEntity {
+  return {
+    id: doc._id.toHexString(),
+    organizationId: doc.organizationId,
+    email: doc.email,
+    role: doc.role,
+    tokenHash: doc.tokenHash,
+    invitedBy: doc.invitedBy,
+    expiresAt: doc.expiresAt,
+    acceptedAt: doc.acceptedAt,
+    createdAt: doc.createdAt,
+  };
+}
+
+async function collection(): Promise<
+  Collection<OrganizationInvitationDocument>
+> {
+  return getCollection<OrganizationInvitationDocument>(
+    ORGANIZATION_INVITATIONS_COLLECTION
+  );
+}
+
+export class OrganizationInvitationRepositoryImpl implements IOrganizationInvitationRepository {
+  async create(
+    invitation: Omit<OrganizationInvitationEntity, "id" | "createdAt">
+  ): Promise<OrganizationInvitationEntity> {
+    const col = await collection();
+
+    const doc: Omit<OrganizationInvitationDocument, "_id"> = {
+      organizationId: invitation.organizationId,
+      email: invitation.email.toLowerCase(),
+      role: invitation.role,
+      tokenHash: invitation.tokenHash,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      createdAt: new Date(),
+    };
+
+    const result = await col.insertOne(doc as OrganizationInvitationDocument);
+    return toEntity({
+      _id: result.insertedId,
+      ...doc,
+    } as OrganizationInvitationDocument);
+  }
+
+  async findByTokenHash(
+    tokenHash: string
+  ): Promise<OrganizationInvitationEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ tokenHash });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async markAccepted(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    const col = await collection();
+    const result = await col.updateOne(
+      { _id: new ObjectId(id), acceptedAt: { $exists: false } },
+      { $set: { acceptedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+}
@@ -0,0 +1,104 @@
+import type { Collection } from "mongodb";
+import type { IOrganizationMembershipRepository } from "@domain/repositories/organization-membership.repository";
+import type { OrganizationMembershipEntity } from "@domain/entities/organization-membership.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { getCollection } from "./connection";
+import type { OrganizationMembershipDocument } from "./schemas/organization-membership.schema";
+import { ORGANIZATION_MEMBERSHIPS_COLLECTION } from "./schemas/organization-membership.schema";
+
+function toEntity(
+  doc: OrganizationMembershipDocument
+): OrganizationMembershipEntity {
+  return {
+    id: doc._id.toHexString(),
+    organizationId: doc.organizationId,
+    userId: doc.userId,
+    role: doc.role,
+    createdAt: doc.createdAt,
+  };
+}
+
+async function collection(): Promise<
+  Collection<OrganizationMembershipDocument>
+> {
+  return getCollection<OrganizationMembershipDocument>(
+    ORGANIZATION_MEMBERSHIPS_COLLECTION
+  );
+}
+
+export class OrganizationMembershipRepositoryImpl implements IOrganizationMembershipRepository {
+  async create(
+    membership: Omit<OrganizationMembershipEntity, "id" | "createdAt">
+  ): Promise<OrganizationMembershipEntity> {
+    const col = await collection();
+
+    const doc: Omit<OrganizationMembershipDocument, "_id"> = {
+      organizationId: membership.organizationId,
+      userId: membership.userId,
+      role: membership.role,
+      createdAt: new Date(),
+    };
+
+    try {
+      const result = await col.insertOne(doc as OrganizationMembershipDocument);
+      return toEntity({
+        _id: result.insertedId,
+        ...doc,
+      } as OrganizationMembershipDocument);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: number }).code === 11000
+      ) {
+        throw new ConflictError(
+          "User is already a member of this organization"
+        );
+      }
+      throw error;
+    }
+  }
+
+  async find(
+    organizationId: string,
+    userId: string
+  ): Promise<OrganizationMembershipEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ organizationId, userId });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findByUserId(userId: string): Promise<OrganizationMembershipEntity[]> {
+    const col = await collection();
+    const docs = await col.find({ userId }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async findByOrganizationId(
+    organizationId: string
+  ): Promise<OrganizationMembershipEntity[]> {
+    const col = await collection();
+    const docs = await col
+      .find({ organizationId })
+      .sort({ createdAt: 1 })
+      .toArray();
+    return docs.map(toEntity);
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    const col = await collection();
+    return col.countDocuments({ organizationId, role: "owner" });
+  }
+
+  async delete(organizationId: string, userId: string): Promise<boolean> {
+    const col = await collection();
+    const result = await col.deleteOne({ organizationId, userId });
+    return result.deletedCount > 0;
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    const col = await collection();
+    const result = await col.deleteMany({ userId });
+    return result.deletedCount;
+  }
+}
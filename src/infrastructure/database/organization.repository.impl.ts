@@ -0,0 +1,64 @@
+import { ObjectId } from "mongodb";
+import type { Collection } from "mongodb";
+import type { IOrganizationRepository } from "@domain/repositories/organization.repository";
+import type { OrganizationEntity } from "@domain/entities/organization.entity";
+import { getCollection } from "./connection";
+import type { OrganizationDocument } from "./schemas/organization.schema";
+import { ORGANIZATIONS_COLLECTION } from "./schemas/organization.schema";
+
+function toEntity(doc: OrganizationDocument): OrganizationEntity {
+  return {
+    id: doc._id.toHexString(),
+    name: doc.name,
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+async function collection(): Promise<Collection<OrganizationDocument>> {
+  return getCollection<OrganizationDocument>(ORGANIZATIONS_COLLECTION);
+}
+
+export class OrganizationRepositoryImpl implements IOrganizationRepository {
+  async create(
+    organization: Omit<OrganizationEntity, "id" | "createdAt" | "updatedAt">
+  ): Promise<OrganizationEntity> {
+    const col = await collection();
+    const now = new Date();
+
+    const doc: Omit<OrganizationDocument, "_id"> = {
+      name: organization.name,
+      createdBy: organization.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result = await col.insertOne(doc as OrganizationDocument);
+    return toEntity({
+      _id: result.insertedId,
+      ...doc,
+    } as OrganizationDocument);
+  }
+
+  async findById(id: string): Promise<OrganizationEntity | null> {
+    if (!ObjectId.isValid(id)) return null;
+    const col = await collection();
+    const doc = await col.findOne({ _id: new ObjectId(id) });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findByIds(ids: string[]): Promise<OrganizationEntity[]> {
+    const objectIds = ids
+      .filter((id) => ObjectId.isValid(id))
+      .map((id) => new ObjectId(id));
+    if (objectIds.length === 0) return [];
+
+    const col = await collection();
+    const docs = await col
+      .find({ _id: { $in: objectIds } })
+      .sort({ name: 1 })
+      .toArray();
+    return docs.map(toEntity);
+  }
+}
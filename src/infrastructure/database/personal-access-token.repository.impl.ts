@@ -0,0 +1,113 @@
+import { ObjectId } from "mongodb";
+import type { Collection, Filter } from "mongodb";
+import type { IPersonalAccessTokenRepository } from "@domain/repositories/personal-access-token.repository";
+import type { PersonalAccessTokenEntity } from "@domain/entities/personal-access-token.entity";
+import { getCollection } from "./connection";
+import type { PersonalAccessTokenDocument } from "./schemas/personal-access-token.schema";
+import { PERSONAL_ACCESS_TOKENS_COLLECTION } from "./schemas/personal-access-token.schema";
+
+function toEntity(doc: PersonalAccessTokenDocument): PersonalAccessTokenEntity {
+  return {
+    id: doc._id.toHexString(),
+    userId: doc.userId,
+    name: doc.name,
+    tokenHash: doc.tokenHash,
+    tokenPrefix: doc.tokenPrefix,
+    scopes: doc.scopes,
+    createdAt: doc.createdAt,
+    expiresAt: doc.expiresAt,
+    lastUsedAt: doc.lastUsedAt,
+    revokedAt: doc.revokedAt,
+  };
+}
+
+function activeFilter(userId: string): Filter<PersonalAccessTokenDocument> {
+  return {
+    userId,
+    revokedAt: { $exists: false },
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  };
+}
+
+async function collection(): Promise<Collection<PersonalAccessTokenDocument>> {
+  return getCollection<PersonalAccessTokenDocument>(
+    PERSONAL_ACCESS_TOKENS_COLLECTION
+  );
+}
+
+export class PersonalAccessTokenRepositoryImpl implements IPersonalAccessTokenRepository {
+  async create(
+    token: Omit<PersonalAccessTokenEntity, "id" | "createdAt">
+  ): Promise<PersonalAccessTokenEntity> {
+    const col = await collection();
+
+    const doc: Omit<PersonalAccessTokenDocument, "_id"> = {
+      userId: token.userId,
+      name: token.name,
+      tokenHash: token.tokenHash,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      createdAt: new Date(),
+      ...(token.expiresAt && { expiresAt: token.expiresAt }),
+    };
+
+    const result = await col.insertOne(doc as PersonalAccessTokenDocument);
+    return toEntity({
+      _id: result.insertedId,
+      ...doc,
+    } as PersonalAccessTokenDocument);
+  }
+
+  async findByTokenHash(
+    tokenHash: string
+  ): Promise<PersonalAccessTokenEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ tokenHash });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findActiveByUserId(
+    userId: string
+  ): Promise<PersonalAccessTokenEntity[]> {
+    const col = await collection();
+    const docs = await col
+      .find(activeFilter(userId))
+      .sort({ createdAt: -1 })
+      .toArray();
+    return docs.map(toEntity);
+  }
+
+  async countActiveByUserId(userId: string): Promise<number> {
+    const col = await collection();
+    return col.countDocuments(activeFilter(userId));
+  }
+
+  async updateLastUsed(id: string, lastUsedAt: Date): Promise<void> {
+    if (!ObjectId.isValid(id)) return;
+    const col = await collection();
+    await col.updateOne({ _id: new ObjectId(id) }, { $set: { lastUsedAt } });
+  }
+
+  async revoke(
+    userId: string,
+    id: string
+  ): Promise<PersonalAccessTokenEntity | null> {
+    if (!ObjectId.isValid(id)) return null;
+    const col = await collection();
+    const doc = await col.findOneAndUpdate(
+      { _id: new ObjectId(id), userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { returnDocument: "after" }
+    );
+    return doc ? toEntity(doc) : null;
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    const col = await collection();
+    const result = await col.deleteMany({ userId });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,103 @@
+import type { Collection } from "mongodb";
+import type { IRoleRepository } from "@domain/repositories/role.repository";
+import type { RoleEntity } from "@domain/entities/role.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { getCollection } from "./connection";
+import type { RoleDocument } from "./schemas/role.schema";
+import { ROLES_COLLECTION } from "./schemas/role.schema";
+
+function toEntity(doc: RoleDocument): RoleEntity {
+  return {
+    id: doc._id.toHexString(),
+    name: doc.name,
+    description: doc.description,
+    permissions: doc.permissions,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+async function collection(): Promise<Collection<RoleDocument>> {
+  return getCollection<RoleDocument>(ROLES_COLLECTION);
+}
+
+export class RoleRepositoryImpl implements IRoleRepository {
+  async create(
+    role: Omit<RoleEntity, "id" | "createdAt" | "updatedAt">
+  ): Promise<RoleEntity> {
+    const col = await collection();
+    const now = new Date();
+
+    const doc: Omit<RoleDocument, "_id"> = {
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      const result = await col.insertOne(doc as RoleDocument);
+      return toEntity({
+        _id: result.insertedId,
+        ...doc,
+      } as RoleDocument);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: number }).code === 11000
+      ) {
+        throw new ConflictError("A role with this name already exists");
+      }
+      throw error;
+    }
+  }
+
+  async findByName(name: string): Promise<RoleEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ name });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findByNames(names: string[]): Promise<RoleEntity[]> {
+    if (names.length === 0) return [];
+
+    const col = await collection();
+    const docs = await col.find({ name: { $in: names } }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async findAll(): Promise<RoleEntity[]> {
+    const col = await collection();
+    const docs = await col.find({}).sort({ name: 1 }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async update(
+    name: string,
+    update: { description?: string; permissions?: string[] }
+  ): Promise<RoleEntity | null> {
+    const col = await collection();
+    const doc = await col.findOneAndUpdate(
+      { name },
+      {
+        $set: {
+          ...(update.description !== undefined && {
+            description: update.description,
+          }),
+          ...(update.permissions && { permissions: update.permissions }),
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: "after" }
+    );
+    return doc ? toEntity(doc) : null;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const col = await collection();
+    const result = await col.deleteOne({ name });
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,14 @@
+import type { ObjectId } from "mongodb";
+
+export interface LinkedIdentityDocument {
+  _id: ObjectId;
+  userId: string;
+  provider: string;
+  subject: string;
+  email?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export const LINKED_IDENTITIES_COLLECTION =
+  "platform_linked_identities" as const;
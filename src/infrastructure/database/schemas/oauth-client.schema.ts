@@ -0,0 +1,15 @@
+import type { ObjectId } from "mongodb";
+import type { OAuthGrantType } from "@domain/entities/oauth-client.entity";
+
+export interface OAuthClientDocument {
+  _id: ObjectId;
+  clientId: string;
+  clientSecretHash?: string;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: OAuthGrantType[];
+  createdAt: Date;
+}
+
+export const OAUTH_CLIENTS_COLLECTION = "platform_oauth_clients" as const;
@@ -0,0 +1,17 @@
+import type { ObjectId } from "mongodb";
+import type { OrganizationRole } from "@domain/entities/organization.entity";
+
+export interface OrganizationInvitationDocument {
+  _id: ObjectId;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  createdAt: Date;
+}
+
+export const ORGANIZATION_INVITATIONS_COLLECTION =
+  "platform_organization_invitations" as const;
@@ -0,0 +1,13 @@
+import type { ObjectId } from "mongodb";
+import type { OrganizationRole } from "@domain/entities/organization.entity";
+
+export interface OrganizationMembershipDocument {
+  _id: ObjectId;
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+export const ORGANIZATION_MEMBERSHIPS_COLLECTION =
+  "platform_organization_memberships" as const;
@@ -0,0 +1,11 @@
+import type { ObjectId } from "mongodb";
+
+export interface OrganizationDocument {
+  _id: ObjectId;
+  name: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ORGANIZATIONS_COLLECTION = "platform_organizations" as const;
@@ -0,0 +1,17 @@
+import type { ObjectId } from "mongodb";
+
+export interface PersonalAccessTokenDocument {
+  _id: ObjectId;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export const PERSONAL_ACCESS_TOKENS_COLLECTION =
+  "platform_personal_access_tokens" as const;
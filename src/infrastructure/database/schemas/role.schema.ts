@@ -0,0 +1,12 @@
+import type { ObjectId } from "mongodb";
+
+export interface RoleDocument {
+  _id: ObjectId;
+  name: string;
+  description?: string;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ROLES_COLLECTION = "platform_roles" as const;
@@ -1,13 +1,21 @@
 import type { ObjectId } from "mongodb";
+import type { AuthMethod } from "@domain/entities/session.entity";
 
 export interface SessionDocument {
   _id: ObjectId;
   sessionId: string;
   userId: string;
   refreshTokenHash: string;
+  familyId?: string;
   ipAddress?: string;
   userAgent?: string;
   expiresAt: Date;
+  authenticatedAt?: Date;
+  authMethods?: AuthMethod[];
+  activeOrganizationId?: string;
+  impersonatorId?: string;
+  clientId?: string;
+  scopes?: string[];
   createdAt: Date;
   lastUsedAt: Date;
 }
@@ -1,10 +1,12 @@
 import type { ObjectId } from "mongodb";
+import type { AuthMethod } from "@domain/entities/session.entity";
 
 export interface UserDocument {
   _id: ObjectId;
   email: string;
   hashedPassword: string;
   role: "admin" | "user";
+  roles?: string[];
   isVerified: boolean;
   tokenVersion: number;
   tier: "free" | "pro";
@@ -17,9 +19,26 @@ export interface UserDocument {
   passwordResetTokenHash?: string;
   passwordResetTokenExpiry?: Date;
 
+  magicLinkToken?: string;
+  magicLinkTokenHash?: string;
+  magicLinkTokenExpiry?: Date;
+  magicLinkRememberMe?: boolean;
+
   otpSecret?: string;
   otpExpiry?: Date;
   otpAttempts?: number;
+  otpFirstFactor?: AuthMethod;
+
+  totpSecret?: string;
+  totpPendingSecret?: string;
+  totpEnabledAt?: Date;
+  totpLastUsedStep?: number;
+
+  recoveryCodes?: { hash: string; usedAt?: Date }[];
+
+  status?: "active" | "suspended" | "banned";
+  statusReason?: string;
+  suspendedUntil?: Date;
 
   createdAt: Date;
   updatedAt: Date;
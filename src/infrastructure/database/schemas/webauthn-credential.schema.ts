@@ -0,0 +1,19 @@
+import type { ObjectId } from "mongodb";
+import type { WebAuthnDeviceType } from "@domain/entities/webauthn-credential.entity";
+
+export interface WebAuthnCredentialDocument {
+  _id: ObjectId;
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports?: string[];
+  deviceType: WebAuthnDeviceType;
+  backedUp: boolean;
+  name: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export const WEBAUTHN_CREDENTIALS_COLLECTION =
+  "platform_webauthn_credentials" as const;
@@ -1,19 +1,30 @@
 import type { Collection } from "mongodb";
 import type { ISessionRepository } from "@domain/repositories/session.repository";
-import type { SessionEntity } from "@domain/entities/session.entity";
+import type {
+  AuthMethod,
+  SessionEntity,
+} from "@domain/entities/session.entity";
 import { getCollection } from "./connection";
 import type { SessionDocument } from "./schemas/session.schema";
 import { SESSIONS_COLLECTION } from "./schemas/session.schema";
 
+// Optional fields may have been stored as null, which the entity never uses.
 function toEntity(doc: SessionDocument): SessionEntity {
   return {
     id: doc._id.toHexString(),
     sessionId: doc.sessionId,
     userId: doc.userId,
     refreshTokenHash: doc.refreshTokenHash,
+    familyId: doc.familyId ?? undefined,
     ipAddress: doc.ipAddress,
     userAgent: doc.userAgent,
     expiresAt: doc.expiresAt,
+    authenticatedAt: doc.authenticatedAt ?? undefined,
+    authMethods: doc.authMethods ?? undefined,
+    activeOrganizationId: doc.activeOrganizationId ?? undefined,
+    impersonatorId: doc.impersonatorId ?? undefined,
+    clientId: doc.clientId ?? undefined,
+    scopes: doc.scopes ?? undefined,
     createdAt: doc.createdAt,
     lastUsedAt: doc.lastUsedAt,
   };
@@ -25,19 +36,31 @@ async function collection(): Promise<Collection<SessionDocument>> {
 
 export class SessionRepositoryImpl implements ISessionRepository {
   async create(
-    session: Omit<SessionEntity, "id" | "createdAt">
+    session: Omit<SessionEntity, "id" | "createdAt"> & { createdAt?: Date }
   ): Promise<SessionEntity> {
     const col = await collection();
-    const now = new Date();
 
     const doc: Omit<SessionDocument, "_id"> = {
       sessionId: session.sessionId,
       userId: session.userId,
       refreshTokenHash: session.refreshTokenHash,
+      ...(session.familyId && { familyId: session.familyId }),
       ipAddress: session.ipAddress,
       userAgent: session.userAgent,
       expiresAt: session.expiresAt,
-      createdAt: now,
+      ...(session.authenticatedAt && {
+        authenticatedAt: session.authenticatedAt,
+      }),
+      ...(session.authMethods && { authMethods: session.authMethods }),
+      ...(session.activeOrganizationId && {
+        activeOrganizationId: session.activeOrganizationId,
+      }),
+      ...(session.impersonatorId && {
+        impersonatorId: session.impersonatorId,
+      }),
+      ...(session.clientId && { clientId: session.clientId }),
+      ...(session.scopes && { scopes: session.scopes }),
+      createdAt: session.createdAt ?? new Date(),
       lastUsedAt: session.lastUsedAt,
     };
 
@@ -78,6 +101,15 @@ export class SessionRepositoryImpl implements ISessionRepository {
     return docs.map(toEntity);
   }
 
+  async findByFamilyId(familyId: string): Promise<SessionEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({
+      familyId,
+      expiresAt: { $gt: new Date() },
+    });
+    return doc ? toEntity(doc) : null;
+  }
+
   async delete(sessionId: string): Promise<boolean> {
     const col = await collection();
     const result = await col.deleteOne({ sessionId });
@@ -90,6 +122,12 @@ export class SessionRepositoryImpl implements ISessionRepository {
     return result.deletedCount;
   }
 
+  async deleteByFamilyId(familyId: string): Promise<number> {
+    const col = await collection();
+    const result = await col.deleteMany({ familyId });
+    return result.deletedCount;
+  }
+
   async findAndDeleteByRefreshTokenHash(
     hash: string
   ): Promise<SessionEntity | null> {
@@ -106,6 +144,31 @@ export class SessionRepositoryImpl implements ISessionRepository {
     await col.updateOne({ sessionId }, { $set: { lastUsedAt } });
   }
 
+  async updateActiveOrganization(
+    sessionId: string,
+    organizationId: string | null
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { sessionId },
+      organizationId
+        ? { $set: { activeOrganizationId: organizationId } }
+        : { $unset: { activeOrganizationId: "" } }
+    );
+  }
+
+  async updateAuthentication(
+    sessionId: string,
+    authenticatedAt: Date,
+    authMethods: AuthMethod[]
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { sessionId },
+      { $set: { authenticatedAt, authMethods } }
+    );
+  }
+
   async deleteExpiredSessions(): Promise<number> {
     const col = await collection();
     const result = await col.deleteMany({
@@ -1,7 +1,11 @@
 import { ObjectId } from "mongodb";
-import type { Collection } from "mongodb";
-import type { IUserRepository } from "@domain/repositories/user.repository";
-import type { UserEntity } from "@domain/entities/user.entity";
+import type { Collection, Filter } from "mongodb";
+import type {
+  IUserRepository,
+  UserSearchQuery,
+} from "@domain/repositories/user.repository";
+import type { AccountStatus, UserEntity } from "@domain/entities/user.entity";
+import type { AuthMethod } from "@domain/entities/session.entity";
 import { ConflictError } from "@domain/errors/conflict.error";
 import { getCollection } from "./connection";
 import type { UserDocument } from "./schemas/user.schema";
@@ -13,6 +17,7 @@ function toEntity(doc: UserDocument): UserEntity {
     email: doc.email,
     hashedPassword: doc.hashedPassword,
     role: doc.role,
+    roles: doc.roles,
     isVerified: doc.isVerified,
     tokenVersion: doc.tokenVersion,
     tier: doc.tier,
@@ -22,9 +27,22 @@ function toEntity(doc: UserDocument): UserEntity {
     passwordResetToken: doc.passwordResetToken,
     passwordResetTokenHash: doc.passwordResetTokenHash,
     passwordResetTokenExpiry: doc.passwordResetTokenExpiry,
+    magicLinkToken: doc.magicLinkToken,
+    magicLinkTokenHash: doc.magicLinkTokenHash,
+    magicLinkTokenExpiry: doc.magicLinkTokenExpiry,
+    magicLinkRememberMe: doc.magicLinkRememberMe,
     otpSecret: doc.otpSecret,
     otpExpiry: doc.otpExpiry,
     otpAttempts: doc.otpAttempts,
+    otpFirstFactor: doc.otpFirstFactor,
+    totpSecret: doc.totpSecret,
+    totpPendingSecret: doc.totpPendingSecret,
+    totpEnabledAt: doc.totpEnabledAt,
+    totpLastUsedStep: doc.totpLastUsedStep,
+    recoveryCodes: doc.recoveryCodes,
+    status: doc.status,
+    statusReason: doc.statusReason,
+    suspendedUntil: doc.suspendedUntil,
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   };
@@ -34,6 +52,10 @@ async function collection(): Promise<Collection<UserDocument>> {
   return getCollection<UserDocument>(USERS_COLLECTION);
 }
 
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 export class UserRepositoryImpl implements IUserRepository {
   async findByEmail(email: string): Promise<UserEntity | null> {
     const col = await collection();
@@ -48,6 +70,40 @@ export class UserRepositoryImpl implements IUserRepository {
     return doc ? toEntity(doc) : null;
   }
 
+  async search(
+    query: UserSearchQuery
+  ): Promise<{ users: UserEntity[]; total: number }> {
+    const col = await collection();
+    const filter: Filter<UserDocument> = {};
+
+    if (query.emailPrefix) {
+      filter.email = {
+        $regex: `^${escapeRegex(query.emailPrefix.toLowerCase())}`,
+      };
+    }
+    if (query.role) filter.role = query.role;
+    if (query.tier) filter.tier = query.tier;
+    if (query.isVerified !== undefined) filter.isVerified = query.isVerified;
+    if (query.createdAfter || query.createdBefore) {
+      filter.createdAt = {
+        ...(query.createdAfter && { $gte: query.createdAfter }),
+        ...(query.createdBefore && { $lt: query.createdBefore }),
+      };
+    }
+
+    const [docs, total] = await Promise.all([
+      col
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(query.offset)
+        .limit(query.limit)
+        .toArray(),
+      col.countDocuments(filter),
+    ]);
+
+    return { users: docs.map(toEntity), total };
+  }
+
   async create(
     user: Omit<UserEntity, "id" | "createdAt" | "updatedAt">
   ): Promise<UserEntity> {
@@ -58,6 +114,7 @@ export class UserRepositoryImpl implements IUserRepository {
       email: user.email.toLowerCase(),
       hashedPassword: user.hashedPassword,
       role: user.role,
+      roles: user.roles,
       isVerified: user.isVerified,
       tokenVersion: user.tokenVersion,
       tier: user.tier,
@@ -67,9 +124,21 @@ export class UserRepositoryImpl implements IUserRepository {
       passwordResetToken: user.passwordResetToken,
       passwordResetTokenHash: user.passwordResetTokenHash,
       passwordResetTokenExpiry: user.passwordResetTokenExpiry,
+      magicLinkToken: user.magicLinkToken,
+      magicLinkTokenHash: user.magicLinkTokenHash,
+      magicLinkTokenExpiry: user.magicLinkTokenExpiry,
+      magicLinkRememberMe: user.magicLinkRememberMe,
       otpSecret: user.otpSecret,
       otpExpiry: user.otpExpiry,
       otpAttempts: user.otpAttempts,
+      totpSecret: user.totpSecret,
+      totpPendingSecret: user.totpPendingSecret,
+      totpEnabledAt: user.totpEnabledAt,
+      totpLastUsedStep: user.totpLastUsedStep,
+      recoveryCodes: user.recoveryCodes,
+      status: user.status,
+      statusReason: user.statusReason,
+      suspendedUntil: user.suspendedUntil,
       createdAt: now,
       updatedAt: now,
     };
@@ -119,6 +188,35 @@ export class UserRepositoryImpl implements IUserRepository {
     );
   }
 
+  async updateRole(
+    userId: string,
+    role: UserEntity["role"],
+    tokenVersion: number
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { role, tokenVersion, updatedAt: new Date() } }
+    );
+  }
+
+  async updateRoles(userId: string, roles: string[]): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { roles, updatedAt: new Date() } }
+    );
+  }
+
+  async removeRoleFromAll(name: string): Promise<number> {
+    const col = await collection();
+    const result = await col.updateMany(
+      { roles: name },
+      { $pull: { roles: name }, $set: { updatedAt: new Date() } }
+    );
+    return result.modifiedCount;
+  }
+
   async updateVerification(
     userId: string,
     update: {
@@ -167,6 +265,7 @@ export class UserRepositoryImpl implements IUserRepository {
       otpSecret: string;
       otpExpiry: Date;
       otpAttempts: number;
+      otpFirstFactor?: AuthMethod;
     }
   ): Promise<void> {
     const col = await collection();
@@ -177,6 +276,9 @@ export class UserRepositoryImpl implements IUserRepository {
           otpSecret: update.otpSecret,
           otpExpiry: update.otpExpiry,
           otpAttempts: update.otpAttempts,
+          ...(update.otpFirstFactor && {
+            otpFirstFactor: update.otpFirstFactor,
+          }),
           updatedAt: new Date(),
         },
       }
@@ -192,6 +294,7 @@ export class UserRepositoryImpl implements IUserRepository {
           otpSecret: "",
           otpExpiry: "",
           otpAttempts: "",
+          otpFirstFactor: "",
         },
         $set: { updatedAt: new Date() },
       }
@@ -276,4 +379,181 @@ export class UserRepositoryImpl implements IUserRepository {
       { $inc: { otpAttempts: 1 }, $set: { updatedAt: new Date() } }
     );
   }
+
+  async updateMagicLinkToken(
+    userId: string,
+    update: {
+      magicLinkToken: string;
+      magicLinkTokenHash: string;
+      magicLinkTokenExpiry: Date;
+      magicLinkRememberMe: boolean;
+    }
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      {
+        $set: {
+          magicLinkToken: update.magicLinkToken,
+          magicLinkTokenHash: update.magicLinkTokenHash,
+          magicLinkTokenExpiry: update.magicLinkTokenExpiry,
+          magicLinkRememberMe: update.magicLinkRememberMe,
+          updatedAt: new Date(),
+        },
+      }
+    );
+  }
+
+  async consumeMagicLinkToken(hash: string): Promise<UserEntity | null> {
+    const col = await collection();
+    const doc = await col.findOneAndUpdate(
+      { magicLinkTokenHash: hash },
+      {
+        $unset: {
+          magicLinkToken: "",
+          magicLinkTokenHash: "",
+          magicLinkTokenExpiry: "",
+          magicLinkRememberMe: "",
+        },
+        $set: { updatedAt: new Date() },
+      },
+      { returnDocument: "before" }
+    );
+    return doc ? toEntity(doc) : null;
+  }
+
+  async updateTotpPendingSecret(
+    userId: string,
+    totpPendingSecret: string
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { totpPendingSecret, updatedAt: new Date() } }
+    );
+  }
+
+  async enableTotp(userId: string, totpSecret: string): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      {
+        $set: {
+          totpSecret,
+          totpEnabledAt: new Date(),
+          updatedAt: new Date(),
+        },
+        $unset: { totpPendingSecret: "", totpLastUsedStep: "" },
+      }
+    );
+  }
+
+  async disableTotp(userId: string): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      {
+        $unset: {
+          totpSecret: "",
+          totpPendingSecret: "",
+          totpEnabledAt: "",
+          totpLastUsedStep: "",
+        },
+        $set: { updatedAt: new Date() },
+      }
+    );
+  }
+
+  async recordTotpStep(userId: string, step: number): Promise<boolean> {
+    const col = await collection();
+    const result = await col.updateOne(
+      {
+        _id: new ObjectId(userId),
+        $or: [
+          { totpLastUsedStep: { $exists: false } },
+          { totpLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { totpLastUsedStep: step, updatedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, hashes: string[]): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      {
+        $set: {
+          recoveryCodes: hashes.map((hash) => ({ hash })),
+          updatedAt: new Date(),
+        },
+      }
+    );
+  }
+
+  async clearRecoveryCodes(userId: string): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      { $unset: { recoveryCodes: "" }, $set: { updatedAt: new Date() } }
+    );
+  }
+
+  async consumeRecoveryCode(userId: string, hash: string): Promise<boolean> {
+    const col = await collection();
+    const now = new Date();
+    const result = await col.updateOne(
+      {
+        _id: new ObjectId(userId),
+        recoveryCodes: { $elemMatch: { hash, usedAt: { $exists: false } } },
+      },
+      { $set: { "recoveryCodes.$.usedAt": now, updatedAt: now } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async updateStatus(
+    userId: string,
+    update: {
+      status: AccountStatus;
+      statusReason?: string;
+      suspendedUntil?: Date;
+    }
+  ): Promise<void> {
+    const col = await collection();
+
+    if (update.status === "active") {
+      await col.updateOne(
+        { _id: new ObjectId(userId) },
+        {
+          $unset: { status: "", statusReason: "", suspendedUntil: "" },
+          $set: { updatedAt: new Date() },
+        }
+      );
+      return;
+    }
+
+    await col.updateOne(
+      { _id: new ObjectId(userId) },
+      {
+        $set: {
+          status: update.status,
+          statusReason: update.statusReason,
+          updatedAt: new Date(),
+          ...(update.suspendedUntil && {
+            suspendedUntil: update.suspendedUntil,
+          }),
+        },
+        ...(!update.suspendedUntil && { $unset: { suspendedUntil: "" } }),
+      }
+    );
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    if (!ObjectId.isValid(userId)) return false;
+    const col = await collection();
+    const result = await col.deleteOne({ _id: new ObjectId(userId) });
+    return result.deletedCount === 1;
+  }
 }
@@ -0,0 +1,116 @@
+import { ObjectId } from "mongodb";
+import type { Collection } from "mongodb";
+import type { IWebAuthnCredentialRepository } from "@domain/repositories/webauthn-credential.repository";
+import type { WebAuthnCredentialEntity } from "@domain/entities/webauthn-credential.entity";
+import { ConflictError } from "@domain/errors/conflict.error";
+import { getCollection } from "./connection";
+import type { WebAuthnCredentialDocument } from "./schemas/webauthn-credential.schema";
+import { WEBAUTHN_CREDENTIALS_COLLECTION } from "./schemas/webauthn-credential.schema";
+
+function toEntity(doc: WebAuthnCredentialDocument): WebAuthnCredentialEntity {
+  return {
+    id: doc._id.toHexString(),
+    userId: doc.userId,
+    credentialId: doc.credentialId,
+    publicKey: doc.publicKey,
+    counter: doc.counter,
+    transports: doc.transports,
+    deviceType: doc.deviceType,
+    backedUp: doc.backedUp,
+    name: doc.name,
+    createdAt: doc.createdAt,
+    lastUsedAt: doc.lastUsedAt,
+  };
+}
+
+async function collection(): Promise<Collection<WebAuthnCredentialDocument>> {
+  return getCollection<WebAuthnCredentialDocument>(
+    WEBAUTHN_CREDENTIALS_COLLECTION
+  );
+}
+
+export class WebAuthnCredentialRepositoryImpl implements IWebAuthnCredentialRepository {
+  async create(
+    credential: Omit<WebAuthnCredentialEntity, "id" | "createdAt">
+  ): Promise<WebAuthnCredentialEntity> {
+    const col = await collection();
+
+    const doc: Omit<WebAuthnCredentialDocument, "_id"> = {
+      userId: credential.userId,
+      credentialId: credential.credentialId,
+      publicKey: credential.publicKey,
+      counter: credential.counter,
+      transports: credential.transports,
+      deviceType: credential.deviceType,
+      backedUp: credential.backedUp,
+      name: credential.name,
+      createdAt: new Date(),
+      lastUsedAt: credential.lastUsedAt,
+    };
+
+    try {
+      const result = await col.insertOne(doc as WebAuthnCredentialDocument);
+      return toEntity({
+        _id: result.insertedId,
+        ...doc,
+      } as WebAuthnCredentialDocument);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        (error as { code: number }).code === 11000
+      ) {
+        throw new ConflictError("This passkey is already registered");
+      }
+      throw error;
+    }
+  }
+
+  async findByCredentialId(
+    credentialId: string
+  ): Promise<WebAuthnCredentialEntity | null> {
+    const col = await collection();
+    const doc = await col.findOne({ credentialId });
+    return doc ? toEntity(doc) : null;
+  }
+
+  async findByUserId(userId: string): Promise<WebAuthnCredentialEntity[]> {
+    const col = await collection();
+    const docs = await col.find({ userId }).sort({ createdAt: -1 }).toArray();
+    return docs.map(toEntity);
+  }
+
+  async updateUsage(
+    credentialId: string,
+    update: { counter: number; lastUsedAt: Date }
+  ): Promise<void> {
+    const col = await collection();
+    await col.updateOne(
+      { credentialId },
+      { $set: { counter: update.counter, lastUsedAt: update.lastUsedAt } }
+    );
+  }
+
+  async rename(userId: string, id: string, name: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    const col = await collection();
+    const result = await col.updateOne(
+      { _id: new ObjectId(id), userId },
+      { $set: { name } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false;
+    const col = await collection();
+    const result = await col.deleteOne({ _id: new ObjectId(id), userId });
+    return result.deletedCount > 0;
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    const col = await collection();
+    const result = await col.deleteMany({ userId });
+    return result.deletedCount;
+  }
+}
@@ -1,6 +1,10 @@
 import * as brevo from "@getbrevo/brevo";
 import pRetry from "p-retry";
-import type { IEmailProvider } from "@app/interfaces/email.provider";
+import type {
+  IEmailProvider,
+  OrganizationInvitation,
+  SecurityAlert,
+} from "@app/interfaces/email.provider";
 import { env } from "@/env";
 
 let emailAPIInstance: brevo.TransactionalEmailsApi | null = null;
@@ -259,6 +263,196 @@ function buildPasswordResetEmail(to: string, token: string): BaseEmailParams {
   };
 }
 
+function buildMagicLinkEmail(to: string, token: string): BaseEmailParams {
+  const signinUrl = `${env.NEXT_PUBLIC_SITE_URL}/magic-link?token=${encodeURIComponent(token)}`;
+
+  return {
+    sender: { email: env.FROM_EMAIL, name: "ankurhalder.com" },
+    to: [{ email: to }],
+    subject: "Your sign-in link — ankurhalder.com",
+    htmlContent: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Sign in to ankurhalder.com</title>
+</head>
+<body style="margin:0; padding:0; background-color:#f4f4f5; font-family:-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5; padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff; border-radius:8px; overflow:hidden; box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color:#7c3aed; padding:24px 32px;">
+              <h1 style="color:#ffffff; margin:0; font-size:20px; font-weight:600;">ankurhalder.com</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding:32px;">
+              <h2 style="color:#18181b; margin:0 0 16px 0; font-size:24px;">Sign in to your account</h2>
+              <p style="color:#3f3f46; line-height:1.6; margin:0 0 24px 0;">
+                Click the button below to sign in. No password is needed.
+              </p>
+              <table cellpadding="0" cellspacing="0" style="margin:0 0 24px 0;">
+                <tr>
+                  <td style="background-color:#7c3aed; border-radius:6px; padding:12px 24px;">
+                    <a href="${signinUrl}" style="color:#ffffff; text-decoration:none; font-weight:600; font-size:16px; display:inline-block;">
+                      Sign In
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="color:#71717a; font-size:14px; line-height:1.6; margin:0 0 16px 0;">
+                If the button does not work, copy and paste this link into your browser:
+              </p>
+              <p style="color:#7c3aed; font-size:14px; word-break:break-all; margin:0 0 24px 0;">
+                ${signinUrl}
+              </p>
+              <p style="color:#a1a1aa; font-size:12px; margin:0;">
+                This link expires in 15 minutes and can only be used once. If you did not request it, you can safely ignore this email.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  };
+}
+
+function buildOrganizationInvitationEmail(
+  to: string,
+  invitation: OrganizationInvitation
+): BaseEmailParams {
+  const acceptUrl = `${env.NEXT_PUBLIC_SITE_URL}/accept-invitation?token=${encodeURIComponent(invitation.token)}`;
+  const organizationName = escapeHtml(invitation.organizationName);
+
+  return {
+    sender: { email: env.FROM_EMAIL, name: "ankurhalder.com" },
+    to: [{ email: to }],
+    subject: `You're invited to join ${invitation.organizationName} — ankurhalder.com`,
+    htmlContent: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Join ${organizationName}</title>
+</head>
+<body style="margin:0; padding:0; background-color:#f4f4f5; font-family:-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5; padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff; border-radius:8px; overflow:hidden; box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color:#7c3aed; padding:24px 32px;">
+              <h1 style="color:#ffffff; margin:0; font-size:20px; font-weight:600;">ankurhalder.com</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding:32px;">
+              <h2 style="color:#18181b; margin:0 0 16px 0; font-size:24px;">Join ${organizationName}</h2>
+              <p style="color:#3f3f46; line-height:1.6; margin:0 0 24px 0;">
+                ${escapeHtml(invitation.invitedBy)} invited you to join ${organizationName} as ${escapeHtml(invitation.role)}. Sign in with this email address and click the button below to accept.
+              </p>
+              <table cellpadding="0" cellspacing="0" style="margin:0 0 24px 0;">
+                <tr>
+                  <td style="background-color:#7c3aed; border-radius:6px; padding:12px 24px;">
+                    <a href="${acceptUrl}" style="color:#ffffff; text-decoration:none; font-weight:600; font-size:16px; display:inline-block;">
+                      Accept Invitation
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="color:#71717a; font-size:14px; line-height:1.6; margin:0 0 16px 0;">
+                If the button does not work, copy and paste this link into your browser:
+              </p>
+              <p style="color:#7c3aed; font-size:14px; word-break:break-all; margin:0 0 24px 0;">
+                ${acceptUrl}
+              </p>
+              <p style="color:#a1a1aa; font-size:12px; margin:0;">
+                This invitation expires on ${escapeHtml(invitation.expiresAt.toUTCString())} and can only be used once. If you were not expecting it, you can safely ignore this email.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  };
+}
+
+function buildSecurityAlertEmail(
+  to: string,
+  alert: SecurityAlert
+): BaseEmailParams {
+  return {
+    sender: { email: env.FROM_EMAIL, name: "ankurhalder.com" },
+    to: [{ email: to }],
+    subject: "Security alert for your account — ankurhalder.com",
+    htmlContent: `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Security alert</title>
+</head>
+<body style="margin:0; padding:0; background-color:#f4f4f5; font-family:-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5; padding:40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff; border-radius:8px; overflow:hidden; box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color:#dc2626; padding:24px 32px;">
+              <h1 style="color:#ffffff; margin:0; font-size:20px; font-weight:600;">Security Alert</h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding:32px;">
+              <h2 style="color:#18181b; margin:0 0 16px 0; font-size:24px;">We noticed unusual activity</h2>
+              <p style="color:#3f3f46; line-height:1.6; margin:0 0 24px 0;">
+                ${escapeHtml(alert.summary)}
+              </p>
+              <table width="100%" cellpadding="8" cellspacing="0" style="margin:0 0 24px 0;">
+                <tr>
+                  <td style="color:#71717a; font-weight:600; width:120px; vertical-align:top;">When:</td>
+                  <td style="color:#18181b;">${escapeHtml(alert.occurredAt.toUTCString())}</td>
+                </tr>
+                <tr>
+                  <td style="color:#71717a; font-weight:600; vertical-align:top;">IP address:</td>
+                  <td style="color:#18181b;">${escapeHtml(alert.ipAddress ?? "Unknown")}</td>
+                </tr>
+                <tr>
+                  <td style="color:#71717a; font-weight:600; vertical-align:top;">Device:</td>
+                  <td style="color:#18181b;">${escapeHtml(alert.userAgent ?? "Unknown")}</td>
+                </tr>
+              </table>
+              <p style="color:#a1a1aa; font-size:12px; margin:0;">
+                If this was not you, sign in again and change your password.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+  };
+}
+
 function buildContactFormEmail(
   from: string,
   name: string,
@@ -383,6 +577,27 @@ export class BrevoEmailProvider implements IEmailProvider {
     await this.sendEmail(params);
   }
 
+  async sendMagicLinkEmail(to: string, token: string): Promise<void> {
+    const params = buildMagicLinkEmail(to, token);
+    await this.sendEmail(params);
+  }
+
+  async sendSecurityAlertEmail(
+    to: string,
+    alert: SecurityAlert
+  ): Promise<void> {
+    const params = buildSecurityAlertEmail(to, alert);
+    await this.sendEmail(params);
+  }
+
+  async sendOrganizationInvitationEmail(
+    to: string,
+    invitation: OrganizationInvitation
+  ): Promise<void> {
+    const params = buildOrganizationInvitationEmail(to, invitation);
+    await this.sendEmail(params);
+  }
+
   async sendContactFormEmail(
     from: string,
     name: string,
@@ -0,0 +1,112 @@
+import type {
+  IIdentityProvider,
+  AuthorizationUrlParams,
+  CodeExchangeParams,
+  ExternalIdentity,
+} from "@app/interfaces/identity.provider";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+
+export interface GitHubProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  webBaseUrl?: string;
+  apiBaseUrl?: string;
+}
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub speaks plain OAuth 2.0 rather than OIDC, so the identity comes from
+ * the REST API instead of an ID token and no nonce is involved.
+ */
+export class GitHubIdentityProvider implements IIdentityProvider {
+  readonly id = "github";
+
+  private readonly webBaseUrl: string;
+  private readonly apiBaseUrl: string;
+
+  constructor(
+    private readonly config: GitHubProviderConfig,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {
+    this.webBaseUrl = config.webBaseUrl ?? "https://github.com";
+    this.apiBaseUrl = config.apiBaseUrl ?? "https://api.github.com";
+  }
+
+  buildAuthorizationUrl(params: AuthorizationUrlParams): string {
+    const url = new URL("/login/oauth/authorize", this.webBaseUrl);
+    url.search = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: "read:user user:email",
+      state: params.state,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: "S256",
+      allow_signup: "false",
+    }).toString();
+    return url.toString();
+  }
+
+  async exchangeCode(params: CodeExchangeParams): Promise<ExternalIdentity> {
+    const tokenResponse = await this.fetchFn(
+      new URL("/login/oauth/access_token", this.webBaseUrl),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code: params.code,
+          redirect_uri: params.redirectUri,
+          code_verifier: params.codeVerifier,
+        }),
+      }
+    );
+
+    const tokens = (await tokenResponse.json()) as { access_token?: unknown };
+    if (!tokenResponse.ok || typeof tokens.access_token !== "string") {
+      throw new AuthenticationError("github rejected the authorization code");
+    }
+
+    const [profile, emails] = await Promise.all([
+      this.getJson<{ id: number; name: string | null }>(
+        "/user",
+        tokens.access_token
+      ),
+      this.getJson<GitHubEmail[]>("/user/emails", tokens.access_token),
+    ]);
+
+    const primary = emails.find((entry) => entry.primary);
+
+    return {
+      provider: this.id,
+      subject: String(profile.id),
+      email: primary?.email.toLowerCase(),
+      emailVerified: primary?.verified ?? false,
+      name: profile.name ?? undefined,
+    };
+  }
+
+  private async getJson<T>(path: string, accessToken: string): Promise<T> {
+    const response = await this.fetchFn(new URL(path, this.apiBaseUrl), {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github+json",
+        "User-Agent": "ankurhalder-auth",
+      },
+    });
+
+    if (!response.ok) {
+      throw new AuthenticationError("Unable to load github profile");
+    }
+
+    return (await response.json()) as T;
+  }
+}
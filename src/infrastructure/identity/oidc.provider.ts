@@ -0,0 +1,140 @@
+import * as jose from "jose";
+import type {
+  IIdentityProvider,
+  AuthorizationUrlParams,
+  CodeExchangeParams,
+  ExternalIdentity,
+} from "@app/interfaces/identity.provider";
+import { AuthenticationError } from "@domain/errors/authentication.error";
+
+export interface OidcProviderConfig {
+  id: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  scopes?: string[];
+}
+
+const DEFAULT_SCOPES = ["openid", "email", "profile"];
+
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export class OidcIdentityProvider implements IIdentityProvider {
+  private jwks: jose.JSONWebKeySet | null = null;
+  private jwksFetchedAt = 0;
+
+  constructor(
+    private readonly config: OidcProviderConfig,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  buildAuthorizationUrl(params: AuthorizationUrlParams): string {
+    const url = new URL(this.config.authorizationEndpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: (this.config.scopes ?? DEFAULT_SCOPES).join(" "),
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: "S256",
+    }).toString();
+    return url.toString();
+  }
+
+  async exchangeCode(params: CodeExchangeParams): Promise<ExternalIdentity> {
+    const response = await this.fetchFn(this.config.tokenEndpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: params.codeVerifier,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new AuthenticationError(
+        `${this.config.id} rejected the authorization code`
+      );
+    }
+
+    const tokens = (await response.json()) as { id_token?: unknown };
+    if (typeof tokens.id_token !== "string") {
+      throw new AuthenticationError(
+        `${this.config.id} did not return an ID token`
+      );
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token);
+
+    if (claims.nonce !== params.nonce) {
+      throw new AuthenticationError("ID token nonce mismatch");
+    }
+
+    if (!claims.sub) {
+      throw new AuthenticationError("ID token is missing a subject");
+    }
+
+    return {
+      provider: this.config.id,
+      subject: claims.sub,
+      email:
+        typeof claims.email === "string"
+          ? claims.email.toLowerCase()
+          : undefined,
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === "true",
+      name: typeof claims.name === "string" ? claims.name : undefined,
+    };
+  }
+
+  private async verifyIdToken(idToken: string): Promise<jose.JWTPayload> {
+    try {
+      const { payload } = await jose.jwtVerify(
+        idToken,
+        jose.createLocalJWKSet(await this.getJwks()),
+        {
+          issuer: this.config.issuer,
+          audience: this.config.clientId,
+        }
+      );
+      return payload;
+    } catch {
+      throw new AuthenticationError("Invalid ID token");
+    }
+  }
+
+  private async getJwks(): Promise<jose.JSONWebKeySet> {
+    if (this.jwks && Date.now() - this.jwksFetchedAt < JWKS_CACHE_TTL_MS) {
+      return this.jwks;
+    }
+
+    const response = await this.fetchFn(this.config.jwksUri, {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) {
+      throw new AuthenticationError(
+        `Unable to fetch signing keys from ${this.config.id}`
+      );
+    }
+
+    this.jwks = (await response.json()) as jose.JSONWebKeySet;
+    this.jwksFetchedAt = Date.now();
+    return this.jwks;
+  }
+}
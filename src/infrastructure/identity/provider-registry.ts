@@ -0,0 +1,76 @@
+import type {
+  IIdentityProvider,
+  IIdentityProviderRegistry,
+} from "@app/interfaces/identity.provider";
+import { env } from "@/env";
+import { OidcIdentityProvider } from "./oidc.provider";
+import { GitHubIdentityProvider } from "./github.provider";
+
+function providersFromEnv(): IIdentityProvider[] {
+  const providers: IIdentityProvider[] = [];
+
+  if (env.OAUTH_GOOGLE_CLIENT_ID && env.OAUTH_GOOGLE_CLIENT_SECRET) {
+    providers.push(
+      new OidcIdentityProvider({
+        id: "google",
+        issuer: "https://accounts.google.com",
+        clientId: env.OAUTH_GOOGLE_CLIENT_ID,
+        clientSecret: env.OAUTH_GOOGLE_CLIENT_SECRET,
+        authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+        tokenEndpoint: "https://oauth2.googleapis.com/token",
+        jwksUri: "https://www.googleapis.com/oauth2/v3/certs",
+      })
+    );
+  }
+
+  if (env.OAUTH_GITHUB_CLIENT_ID && env.OAUTH_GITHUB_CLIENT_SECRET) {
+    providers.push(
+      new GitHubIdentityProvider({
+        clientId: env.OAUTH_GITHUB_CLIENT_ID,
+        clientSecret: env.OAUTH_GITHUB_CLIENT_SECRET,
+      })
+    );
+  }
+
+  // Any other OIDC provider, including a local mock IdP during development.
+  if (env.OAUTH_OIDC_ISSUER && env.OAUTH_OIDC_CLIENT_ID) {
+    providers.push(
+      new OidcIdentityProvider({
+        id: env.OAUTH_OIDC_ID,
+        issuer: env.OAUTH_OIDC_ISSUER,
+        clientId: env.OAUTH_OIDC_CLIENT_ID,
+        clientSecret: env.OAUTH_OIDC_CLIENT_SECRET,
+        authorizationEndpoint: env.OAUTH_OIDC_AUTHORIZATION_ENDPOINT,
+        tokenEndpoint: env.OAUTH_OIDC_TOKEN_ENDPOINT,
+        jwksUri: env.OAUTH_OIDC_JWKS_URI,
+      })
+    );
+  }
+
+  return providers;
+}
+
+let defaultProviders: IIdentityProvider[] | null = null;
+
+function getDefaultProviders(): IIdentityProvider[] {
+  defaultProviders ??= providersFromEnv();
+  return defaultProviders;
+}
+
+export class IdentityProviderRegistryImpl implements IIdentityProviderRegistry {
+  private readonly providers: Map<string, IIdentityProvider>;
+
+  constructor(providers: IIdentityProvider[] = getDefaultProviders()) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.id, provider])
+    );
+  }
+
+  get(providerId: string): IIdentityProvider | null {
+    return this.providers.get(providerId) ?? null;
+  }
+
+  list(): string[] {
+    return [...this.providers.keys()];
+  }
+}
@@ -0,0 +1,72 @@
+import type { IEphemeralStore } from "@app/interfaces/ephemeral.store";
+import { getRedisClient, recordRedisFailure } from "./client";
+import { SimpleLRU } from "./simple-lru";
+
+const KEY_PREFIX = "ephemeral:";
+
+const LRU_MAX_SIZE = 10_000;
+
+const fallbackLRU = new SimpleLRU<unknown>(LRU_MAX_SIZE);
+
+export class EphemeralStoreImpl implements IEphemeralStore {
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        await redis.set(KEY_PREFIX + key, value, { ex: ttlSeconds });
+        return;
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+
+    fallbackLRU.set(key, value, ttlSeconds);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        const result = await redis.get<T>(KEY_PREFIX + key);
+        if (result !== null) {
+          return result;
+        }
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+
+    return (fallbackLRU.get(key) as T | undefined) ?? null;
+  }
+
+  async consume<T>(key: string): Promise<T | null> {
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        const result = await redis.getdel<T>(KEY_PREFIX + key);
+        if (result !== null) {
+          return result;
+        }
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+
+    const value = fallbackLRU.get(key) as T | undefined;
+    fallbackLRU.delete(key);
+    return value ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    fallbackLRU.delete(key);
+
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        await redis.del(KEY_PREFIX + key);
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+  }
+}
@@ -5,6 +5,7 @@ import { SimpleLRU } from "./simple-lru";
 const KEYS = {
   token: (jti: string) => `revoked:token:${jti}`,
   session: (sessionId: string) => `revoked:session:${sessionId}`,
+  family: (familyId: string) => `revoked:family:${familyId}`,
   user: (userId: string) => `revoked:user:${userId}`,
 } as const;
 
@@ -13,6 +14,7 @@ const LRU_MAX_SIZE = 10_000;
 export class RevocationStoreImpl implements IRevocationStore {
   private readonly tokenLRU = new SimpleLRU<true>(LRU_MAX_SIZE);
   private readonly sessionLRU = new SimpleLRU<true>(LRU_MAX_SIZE);
+  private readonly familyLRU = new SimpleLRU<true>(LRU_MAX_SIZE);
   private readonly userLRU = new SimpleLRU<number>(LRU_MAX_SIZE);
 
   async revokeToken(jti: string, ttlSeconds: number): Promise<void> {
@@ -83,6 +85,40 @@ export class RevocationStoreImpl implements IRevocationStore {
     return false;
   }
 
+  async revokeTokenFamily(familyId: string, ttlSeconds: number): Promise<void> {
+    this.familyLRU.set(familyId, true, ttlSeconds);
+
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        await redis.set(KEYS.family(familyId), "1", { ex: ttlSeconds });
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+  }
+
+  async isTokenFamilyRevoked(familyId: string): Promise<boolean> {
+    if (this.familyLRU.has(familyId)) {
+      return true;
+    }
+
+    const redis = getRedisClient();
+    if (redis) {
+      try {
+        const result = await redis.get(KEYS.family(familyId));
+        if (result !== null) {
+          this.familyLRU.set(familyId, true, 900);
+          return true;
+        }
+      } catch (error) {
+        recordRedisFailure(error);
+      }
+    }
+
+    return false;
+  }
+
   async revokeAllUserSessions(
     userId: string,
     ttlSeconds: number
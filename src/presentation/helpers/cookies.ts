@@ -11,25 +11,40 @@ export const BASE_COOKIE_CONFIG = {
   path: "/",
 };
 
-const ACCESS_TOKEN_COOKIE = "accessToken";
-const REFRESH_TOKEN_COOKIE = "refreshToken";
+export const ACCESS_TOKEN_COOKIE = "accessToken";
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+export const CSRF_NONCE_COOKIE = "csrf-nonce";
 
-export function setAuthCookies(
+export function setAccessTokenCookie(
   res: NextResponse,
-  accessToken: string,
-  refreshToken: string,
-  rememberMe: boolean = false
+  accessToken: string
 ): NextResponse {
   res.cookies.set(ACCESS_TOKEN_COOKIE, accessToken, {
     ...BASE_COOKIE_CONFIG,
     maxAge: 15 * 60,
   });
 
+  return res;
+}
+
+export function setAuthCookies(
+  res: NextResponse,
+  accessToken: string,
+  refreshToken: string,
+  rememberMe: boolean = false
+): NextResponse {
+  setAccessTokenCookie(res, accessToken);
+
   res.cookies.set(REFRESH_TOKEN_COOKIE, refreshToken, {
     ...BASE_COOKIE_CONFIG,
     maxAge: rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60,
   });
 
+  res.cookies.set(CSRF_NONCE_COOKIE, "", {
+    ...BASE_COOKIE_CONFIG,
+    maxAge: 0,
+  });
+
   return res;
 }
 
@@ -44,5 +59,10 @@ export function clearAuthCookies(res: NextResponse): NextResponse {
     maxAge: 0,
   });
 
+  res.cookies.set(CSRF_NONCE_COOKIE, "", {
+    ...BASE_COOKIE_CONFIG,
+    maxAge: 0,
+  });
+
   return res;
 }
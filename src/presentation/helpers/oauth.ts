@@ -0,0 +1,94 @@
+import { type NextRequest, NextResponse } from "next/server";
+import type { ClientCredentials } from "@/application/services/oauth-client-authenticator";
+import { OAuthError } from "@/domain/errors/oauth.error";
+import { handleDomainError } from "@/presentation/helpers/response";
+
+/**
+ * Reads an `application/x-www-form-urlencoded` body, as required by the
+ * OAuth token-facing endpoints.
+ */
+export async function readFormBody(
+  request: NextRequest
+): Promise<Record<string, string>> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("application/x-www-form-urlencoded")) {
+    throw new OAuthError(
+      "invalid_request",
+      "Content-Type must be application/x-www-form-urlencoded"
+    );
+  }
+
+  return Object.fromEntries(new URLSearchParams(await request.text()));
+}
+
+/**
+ * Extracts client credentials from HTTP Basic auth (`client_secret_basic`)
+ * or the form body (`client_secret_post`, or `none` for public clients).
+ */
+export function readClientCredentials(
+  request: NextRequest,
+  form: Record<string, string>
+): ClientCredentials {
+  const authHeader = request.headers.get("authorization");
+
+  if (authHeader?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authHeader.substring(6), "base64").toString(
+      "utf8"
+    );
+    const separator = decoded.indexOf(":");
+    if (separator === -1) {
+      throw new OAuthError("invalid_client", "Malformed Basic credentials");
+    }
+
+    try {
+      return {
+        clientId: decodeURIComponent(decoded.substring(0, separator)),
+        clientSecret: decodeURIComponent(decoded.substring(separator + 1)),
+      };
+    } catch {
+      throw new OAuthError("invalid_client", "Malformed Basic credentials");
+    }
+  }
+
+  if (!form.client_id) {
+    throw new OAuthError("invalid_client", "Client authentication failed");
+  }
+
+  return {
+    clientId: form.client_id,
+    clientSecret: form.client_secret || undefined,
+  };
+}
+
+export function oauthJsonResponse<T>(
+  data: T,
+  status: number = 200
+): NextResponse {
+  return NextResponse.json(data, {
+    status,
+    headers: { "Cache-Control": "no-store", Pragma: "no-cache" },
+  });
+}
+
+/**
+ * Error body for OAuth/OIDC protocol endpoints (RFC 6749 §5.2), which clients
+ * parse as `{ error, error_description }` rather than the platform shape.
+ */
+export function oauthErrorResponse(
+  error: Error,
+  requestId: string
+): NextResponse {
+  if (!(error instanceof OAuthError)) {
+    return handleDomainError(error, requestId);
+  }
+
+  const headers: Record<string, string> = { "Cache-Control": "no-store" };
+  if (error.statusCode === 401) {
+    headers["WWW-Authenticate"] = 'Basic realm="oauth"';
+  }
+
+  return NextResponse.json(
+    { error: error.error, error_description: error.message },
+    { status: error.statusCode, headers }
+  );
+}
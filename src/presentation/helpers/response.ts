@@ -6,6 +6,8 @@ import { ConflictError } from "@domain/errors/conflict.error";
 import { NotFoundError } from "@domain/errors/not-found.error";
 import { RateLimitError } from "@domain/errors/rate-limit.error";
 import { TokenError } from "@domain/errors/token.error";
+import { OAuthError } from "@domain/errors/oauth.error";
+import { ReauthenticationRequiredError } from "@domain/errors/reauthentication-required.error";
 
 export function successResponse<T>(
   data: T,
@@ -46,7 +48,7 @@ export function mapDomainErrorToHttp(error: Error): [number, string] {
   }
 
   if (error instanceof AuthorizationError) {
-    return [403, "AUTHORIZATION_ERROR"];
+    return [403, error.code];
   }
 
   if (error instanceof ValidationError) {
@@ -69,6 +71,14 @@ export function mapDomainErrorToHttp(error: Error): [number, string] {
     return [401, "TOKEN_ERROR"];
   }
 
+  if (error instanceof OAuthError) {
+    return [error.statusCode, "OAUTH_ERROR"];
+  }
+
+  if (error instanceof ReauthenticationRequiredError) {
+    return [401, "REAUTHENTICATION_REQUIRED"];
+  }
+
   return [500, "INTERNAL_ERROR"];
 }
 
@@ -82,5 +92,15 @@ export function handleDomainError(
     console.error(`[${requestId}] Internal error:`, error);
   }
 
-  return errorResponse(error.message, code, requestId, status);
+  let details: Record<string, unknown> | undefined;
+  if (error instanceof TokenError) {
+    details = { reason: error.reason };
+  } else if (error instanceof ReauthenticationRequiredError) {
+    details = {
+      maxAgeSeconds: error.maxAgeSeconds,
+      requiredMethods: error.requiredMethods,
+    };
+  }
+
+  return errorResponse(error.message, code, requestId, status, details);
 }
@@ -1,84 +1,450 @@
 import { type NextRequest } from "next/server";
 import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
 import { UserRepositoryImpl } from "@/infrastructure/database/user.repository.impl";
+import { PersonalAccessTokenRepositoryImpl } from "@/infrastructure/database/personal-access-token.repository.impl";
+import { AuthEventRepositoryImpl } from "@/infrastructure/database/auth-event.repository.impl";
+import { isPersonalAccessToken } from "@/infrastructure/crypto/personal-access-token";
 import { RevocationStoreImpl } from "@/infrastructure/redis/revocation.store.impl";
+import { RoleRepositoryImpl } from "@/infrastructure/database/role.repository.impl";
 import { AuthenticationError } from "@/domain/errors/authentication.error";
 import { AuthorizationError } from "@/domain/errors/authorization.error";
+import { TokenError } from "@/domain/errors/token.error";
+import { ReauthenticationRequiredError } from "@/domain/errors/reauthentication-required.error";
 import { errorResponse } from "@/presentation/helpers/response";
+import { ACCESS_TOKEN_COOKIE } from "@/presentation/helpers/cookies";
 import { buildRequestContext } from "@/presentation/helpers/request-context";
+import {
+  assertValidCsrfToken,
+  isStateChangingRequest,
+  sessionCsrfBinding,
+} from "@/presentation/middleware/csrf";
+import {
+  AccessTokenVerifier,
+  type VerifiedAccessToken,
+} from "@/application/services/access-token-verifier";
+import {
+  PersonalAccessTokenVerifier,
+  type VerifiedPersonalAccessToken,
+} from "@/application/services/personal-access-token-verifier";
+import { getAccountRestrictionError } from "@/application/services/account-status";
+import { PermissionResolver } from "@/application/services/permission-resolver";
+import type {
+  AccessTokenPayload,
+  MachineTokenPayload,
+} from "@/application/interfaces/token.service";
+import type { RequestContext } from "@/application/dtos/auth.dto";
+import type { UserEntity } from "@/domain/entities/user.entity";
+import type { AuthMethod } from "@/domain/entities/session.entity";
+import { RoleMethods } from "@/domain/entities/role.entity";
 
-type RouteHandler = (
+export interface AuthContext<P = Record<string, string>> {
+  userId: string;
+  params?: Promise<P>;
+
+  /**
+   * The session behind the access token. Absent for machine tokens and
+   * personal access tokens.
+   */
+  sessionId?: string;
+
+  /**
+   * Set when a service called with a machine token. `userId` is then the
+   * token's `client:<clientId>` subject, never a user ID.
+   */
+  client?: { clientId: string; scopes: string[] };
+
+  /**
+   * Set when the user called with a `pat_` personal access token instead of
+   * a session access token.
+   */
+  personalAccessToken?: { id: string; scopes: string[] };
+
+  /**
+   * Set when an OAuth client called with an access token the user granted
+   * it, on routes that opt in through `oauthClient`.
+   */
+  oauthClient?: { clientId: string; scopes: string[] };
+
+  /**
+   * Set when an admin is impersonating the user, from the access token's
+   * `act` claim.
+   */
+  impersonator?: { userId: string };
+
+  /**
+   * Where the credential came from. Cookie-authenticated requests have
+   * already passed CSRF validation when they change state, unless the route
+   * opted out.
+   */
+  credentialSource: CredentialSource;
+}
+
+export type CredentialSource = "authorization_header" | "cookie";
+
+export interface WithAuthOptions {
+  /**
+   * Opts the route in to `client_credentials` machine tokens carrying every
+   * listed scope. The auth level applies to user tokens only.
+   */
+  machine?: { scopes: string[] };
+
+  /**
+   * Scopes a personal access token must carry to call the route, or false to
+   * refuse personal access tokens entirely. Admin and permission-gated routes
+   * refuse them unless scopes are set here. Session tokens are unaffected.
+   */
+  personalAccessToken?: { scopes: string[] } | false;
+
+  /**
+   * Opts the route in to access tokens issued to OAuth clients, which must
+   * carry every listed scope. Other routes refuse them, as a relying party's
+   * token is not a first-party credential.
+   */
+  oauthClient?: { scopes: string[] };
+
+  /**
+   * Set to false for routes that change no state despite accepting POST
+   * (such as OIDC userinfo). Only affects cookie-authenticated requests.
+   */
+  csrf?: false;
+
+  /**
+   * A permission the user's roles must grant, checked against the roles
+   * collection on every request rather than the token's `permissions`
+   * claim. Set through `withPermission`.
+   */
+  permission?: string;
+
+  /**
+   * Set to false on routes that change the user's credentials or contact
+   * details, so admins impersonating the user cannot call them.
+   */
+  impersonation?: false;
+
+  /**
+   * How recently, and optionally how, the user must have authenticated,
+   * judged from the access token's `auth_time` and `amr` claims. Set through
+   * `withRecentAuth`.
+   */
+  recentAuth?: { maxAgeSeconds: number; methods: AuthMethod[] };
+}
+
+type RouteHandler<P> = (
   request: NextRequest,
-  context: { userId: string }
+  context: AuthContext<P>
 ) => Promise<Response>;
 
+type RouteContext<P> = { params: Promise<P> };
+
 export type AuthLevel = "user" | "admin";
 
+/**
+ * Methods that count as strong authentication for `withRecentAuth`: a
+ * second factor on top of the first, or a passkey.
+ */
+export const STRONG_AUTH_METHODS: AuthMethod[] = ["mfa", "hwk"];
+
 const ROLE_HIERARCHY: Record<string, number> = {
   user: 1,
   admin: 2,
 };
 
-export function withAuth(requiredLevel: AuthLevel = "user") {
-  return function (
-    handler: RouteHandler
-  ): (request: NextRequest) => Promise<Response> {
-    return async (request: NextRequest): Promise<Response> => {
+/**
+ * Verifies an access token and the user behind it. Shared by every entry
+ * point that accepts access tokens so they all apply the same checks.
+ */
+export async function authenticateAccessToken(
+  token: string
+): Promise<VerifiedAccessToken> {
+  return new AccessTokenVerifier(
+    new JwtServiceImpl(),
+    new UserRepositoryImpl(),
+    new RevocationStoreImpl()
+  ).verify(token);
+}
+
+/**
+ * Reads the bearer token from the Authorization header, falling back to the
+ * access token cookie set for browser clients.
+ */
+function readCredential(
+  request: NextRequest
+): { token: string; source: CredentialSource } | null {
+  const authHeader = request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return { token: authHeader.substring(7), source: "authorization_header" };
+  }
+
+  const cookieToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  return cookieToken ? { token: cookieToken, source: "cookie" } : null;
+}
+
+/**
+ * Resolves the signed-in user from the Authorization header or, for pages
+ * served by this app, the access token cookie. Returns null when neither is
+ * present or valid, the token was issued to an OAuth client, or the account
+ * is suspended or banned.
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<VerifiedAccessToken | null> {
+  const credential = readCredential(request);
+  if (!credential) return null;
+
+  try {
+    const verified = await authenticateAccessToken(credential.token);
+    return verified.payload.clientId ? null : verified;
+  } catch (error) {
+    if (
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError ||
+      error instanceof TokenError
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function authenticateMachineToken(
+  token: string
+): Promise<MachineTokenPayload | null> {
+  try {
+    return await new AccessTokenVerifier(
+      new JwtServiceImpl(),
+      new UserRepositoryImpl(),
+      new RevocationStoreImpl()
+    ).verifyMachine(token);
+  } catch (error) {
+    if (error instanceof AuthenticationError) return null;
+    throw error;
+  }
+}
+
+async function authenticatePersonalAccessToken(
+  token: string,
+  ctx: RequestContext
+): Promise<VerifiedPersonalAccessToken> {
+  return new PersonalAccessTokenVerifier(
+    new PersonalAccessTokenRepositoryImpl(),
+    new UserRepositoryImpl(),
+    new AuthEventRepositoryImpl()
+  ).verify(token, ctx);
+}
+
+function assertScopes(granted: string[], required: string[]): void {
+  const missing = required.filter((scope) => !granted.includes(scope));
+  if (missing.length > 0) {
+    throw new AuthorizationError(
+      `Insufficient scope. Required: ${missing.join(" ")}`
+    );
+  }
+}
+
+function assertRoleLevel(user: UserEntity, requiredLevel: AuthLevel): void {
+  const userRoleLevel = ROLE_HIERARCHY[user.role] || 0;
+  const requiredRoleLevel = ROLE_HIERARCHY[requiredLevel] || 0;
+
+  if (userRoleLevel < requiredRoleLevel) {
+    throw new AuthorizationError(
+      `Insufficient permissions. Required: ${requiredLevel}`
+    );
+  }
+}
+
+async function assertPermission(
+  user: UserEntity,
+  permission: string | undefined
+): Promise<void> {
+  if (!permission) return;
+
+  const granted = await new PermissionResolver(
+    new RoleRepositoryImpl()
+  ).resolve(user);
+
+  if (!RoleMethods.grants(granted, permission)) {
+    throw new AuthorizationError(
+      `Insufficient permissions. Required: ${permission}`
+    );
+  }
+}
+
+function assertRecentAuth(
+  payload: AccessTokenPayload,
+  recentAuth: WithAuthOptions["recentAuth"]
+): void {
+  if (!recentAuth) return;
+
+  if (payload.act) {
+    throw new AuthorizationError(
+      "This action is not available while impersonating a user"
+    );
+  }
+
+  const { maxAgeSeconds, methods } = recentAuth;
+  const isRecent =
+    payload.authTime !== undefined &&
+    Date.now() / 1000 - payload.authTime <= maxAgeSeconds;
+  const hasMethod =
+    methods.length === 0 ||
+    methods.some((method) => payload.amr?.includes(method));
+
+  if (!isRecent || !hasMethod) {
+    throw new ReauthenticationRequiredError(maxAgeSeconds, methods);
+  }
+}
+
+/**
+ * Scopes a personal access token needs for the route, or null when the route
+ * refuses them. A leaked key should not carry admin powers by default, so
+ * privileged routes only take keys when they name the scopes required.
+ */
+function requiredPersonalAccessTokenScopes(
+  requiredLevel: AuthLevel,
+  options: WithAuthOptions
+): string[] | null {
+  const { personalAccessToken } = options;
+  if (personalAccessToken === false || options.recentAuth) return null;
+  if (personalAccessToken) return personalAccessToken.scopes;
+
+  const privileged = requiredLevel === "admin" || !!options.permission;
+  return privileged ? null : [];
+}
+
+function assertClientAccess(
+  payload: AccessTokenPayload,
+  options: WithAuthOptions
+): void {
+  if (!payload.clientId) return;
+
+  if (!options.oauthClient || options.recentAuth) {
+    throw new AuthorizationError(
+      "Tokens issued to OAuth clients cannot be used for this endpoint"
+    );
+  }
+
+  assertScopes(payload.scopes ?? [], options.oauthClient.scopes);
+}
+
+function assertAccountActive(user: UserEntity): void {
+  const restriction = getAccountRestrictionError(user);
+  if (restriction) {
+    throw restriction;
+  }
+}
+
+export function withAuth(
+  requiredLevel: AuthLevel = "user",
+  options: WithAuthOptions = {}
+) {
+  return function <P = Record<string, string>>(
+    handler: RouteHandler<P>
+  ): (
+    request: NextRequest,
+    routeContext?: RouteContext<P>
+  ) => Promise<Response> {
+    return async (
+      request: NextRequest,
+      routeContext?: RouteContext<P>
+    ): Promise<Response> => {
       const context = buildRequestContext(request);
 
       try {
-        const authHeader = request.headers.get("authorization");
-        if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        const credential = readCredential(request);
+        if (!credential) {
           throw new AuthenticationError(
             "Missing or invalid authorization header"
           );
         }
 
-        const token = authHeader.substring(7);
+        const { token, source } = credential;
 
-        const jwtService = new JwtServiceImpl();
-        const payload = await jwtService.verifyAccessToken(token);
+        if (options.machine && source === "authorization_header") {
+          const machine = await authenticateMachineToken(token);
 
-        if (
-          !payload ||
-          !payload.sub ||
-          !payload.jti ||
-          typeof payload.tv !== "number"
-        ) {
-          throw new AuthenticationError("Invalid token structure");
-        }
+          if (machine) {
+            assertScopes(machine.scopes, options.machine.scopes);
 
-        const revocationStore = new RevocationStoreImpl();
-        const isRevoked = await revocationStore.isTokenRevoked(payload.jti);
-        if (isRevoked) {
-          throw new AuthenticationError("Token has been revoked");
+            return handler(request, {
+              userId: machine.sub,
+              params: routeContext?.params,
+              client: { clientId: machine.clientId, scopes: machine.scopes },
+              credentialSource: source,
+            });
+          }
         }
 
-        const userRepository = new UserRepositoryImpl();
-        const user = await userRepository.findById(payload.sub);
+        if (source === "authorization_header" && isPersonalAccessToken(token)) {
+          const requiredScopes = requiredPersonalAccessTokenScopes(
+            requiredLevel,
+            options
+          );
+          if (!requiredScopes) {
+            throw new AuthorizationError(
+              "Personal access tokens cannot be used for this endpoint"
+            );
+          }
 
-        if (!user) {
-          throw new AuthenticationError("User not found");
-        }
+          const { user, personalAccessToken } =
+            await authenticatePersonalAccessToken(token, context);
+
+          assertAccountActive(user);
+          assertRoleLevel(user, requiredLevel);
+          await assertPermission(user, options.permission);
+          assertScopes(personalAccessToken.scopes, requiredScopes);
 
-        if (user.tokenVersion !== payload.tv) {
-          throw new AuthenticationError("Token version mismatch");
+          return handler(request, {
+            userId: user.id,
+            params: routeContext?.params,
+            personalAccessToken: {
+              id: personalAccessToken.id,
+              scopes: personalAccessToken.scopes,
+            },
+            credentialSource: source,
+          });
         }
 
-        const userRoleLevel = ROLE_HIERARCHY[user.role] || 0;
-        const requiredRoleLevel = ROLE_HIERARCHY[requiredLevel] || 0;
+        const { user, payload } = await authenticateAccessToken(token);
 
-        if (userRoleLevel < requiredRoleLevel) {
+        assertClientAccess(payload, options);
+
+        if (
+          source === "cookie" &&
+          options.csrf !== false &&
+          isStateChangingRequest(request)
+        ) {
+          assertValidCsrfToken(request, [sessionCsrfBinding(payload)]);
+        }
+
+        if (payload.act && options.impersonation === false) {
           throw new AuthorizationError(
-            `Insufficient permissions. Required: ${requiredLevel}`
+            "This action is not available while impersonating a user"
           );
         }
 
-        return handler(request, { userId: user.id });
+        assertRoleLevel(user, requiredLevel);
+        await assertPermission(user, options.permission);
+        assertRecentAuth(payload, options.recentAuth);
+
+        return handler(request, {
+          userId: user.id,
+          params: routeContext?.params,
+          sessionId: payload.sessionId,
+          ...(payload.clientId && {
+            oauthClient: {
+              clientId: payload.clientId,
+              scopes: payload.scopes ?? [],
+            },
+          }),
+          ...(payload.act && { impersonator: { userId: payload.act.sub } }),
+          credentialSource: source,
+        });
       } catch (error) {
         if (
           error instanceof AuthenticationError ||
-          error instanceof AuthorizationError
+          error instanceof AuthorizationError ||
+          error instanceof TokenError ||
+          error instanceof ReauthenticationRequiredError
         ) {
           return errorResponse(error, context.requestId);
         }
@@ -87,3 +453,34 @@ export function withAuth(requiredLevel: AuthLevel = "user") {
     };
   };
 }
+
+/**
+ * `withAuth` for any signed-in user whose roles grant `permission`, e.g.
+ * `withPermission("users:read")`. Admins hold every permission.
+ */
+export function withPermission(
+  permission: string,
+  options: Omit<WithAuthOptions, "permission"> = {}
+) {
+  return withAuth("user", { ...options, permission });
+}
+
+/**
+ * `withAuth` for sensitive operations. The user must have authenticated
+ * within `maxAgeSeconds` and, when `requiredMethods` is given, with at least
+ * one of them. Otherwise the route responds `401 REAUTHENTICATION_REQUIRED`
+ * and the client should send the user through `/api/auth/reauthenticate`.
+ * Personal access tokens, OAuth client tokens and impersonated sessions are
+ * always refused.
+ */
+export function withRecentAuth(
+  maxAgeSeconds: number,
+  requiredMethods: AuthMethod[] = [],
+  requiredLevel: AuthLevel = "user",
+  options: Omit<WithAuthOptions, "recentAuth"> = {}
+) {
+  return withAuth(requiredLevel, {
+    ...options,
+    recentAuth: { maxAgeSeconds, methods: requiredMethods },
+  });
+}
@@ -1,10 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { env } from "@/env";
 
-type RouteHandler = (request: NextRequest) => Promise<Response>;
+type RouteHandler<C> = (
+  request: NextRequest,
+  routeContext: C
+) => Promise<Response>;
 
-export function withCors(handler: RouteHandler): RouteHandler {
-  return async (request: NextRequest): Promise<Response> => {
+export function withCors<C>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request: NextRequest, routeContext: C): Promise<Response> => {
     const origin = request.headers.get("origin");
     const allowedOrigins = env.ALLOWED_ORIGINS;
     const allowedDomain = ".ankurhalder.com";
@@ -29,7 +32,8 @@ export function withCors(handler: RouteHandler): RouteHandler {
         status: 204,
         headers: {
           "Access-Control-Allow-Origin": origin,
-          "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+          "Access-Control-Allow-Methods":
+            "GET, POST, PUT, PATCH, DELETE, OPTIONS",
           "Access-Control-Allow-Headers":
             "Content-Type, Authorization, X-CSRF-Token",
           "Access-Control-Allow-Credentials": "true",
@@ -38,7 +42,7 @@ export function withCors(handler: RouteHandler): RouteHandler {
       });
     }
 
-    const response = await handler(request);
+    const response = await handler(request, routeContext);
 
     if (isAllowed) {
       response.headers.set("Access-Control-Allow-Origin", origin);
@@ -1,35 +1,109 @@
 import { type NextRequest } from "next/server";
-import { timingSafeEqual } from "crypto";
+import { JwtServiceImpl } from "@/infrastructure/crypto/jwt.service";
+import { verifyCsrfToken } from "@/infrastructure/crypto/csrf";
 import { AuthenticationError } from "@/domain/errors/authentication.error";
 import { errorResponse } from "@/presentation/helpers/response";
 import { buildRequestContext } from "@/presentation/helpers/request-context";
+import {
+  ACCESS_TOKEN_COOKIE,
+  CSRF_NONCE_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+} from "@/presentation/helpers/cookies";
 
 type RouteHandler = (request: NextRequest) => Promise<Response>;
 
-export function withCsrf(handler: RouteHandler): RouteHandler {
-  return async (request: NextRequest): Promise<Response> => {
-    const context = buildRequestContext(request);
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
 
-    try {
-      if (["GET", "HEAD", "OPTIONS"].includes(request.method)) {
-        return handler(request);
-      }
+export function isStateChangingRequest(request: NextRequest): boolean {
+  return !SAFE_METHODS.includes(request.method);
+}
+
+/**
+ * Binds CSRF tokens to the refresh token family rather than the session ID,
+ * which changes on every refresh. A new sign-in starts a new family, so
+ * tokens issued before it stop validating.
+ */
+export function sessionCsrfBinding(payload: {
+  sessionId: string;
+  familyId?: string;
+}): string {
+  return `session:${payload.familyId ?? payload.sessionId}`;
+}
+
+export function nonceCsrfBinding(nonce: string): string {
+  return `nonce:${nonce}`;
+}
 
-      const tokenFromHeader = request.headers.get("x-csrf-token");
-      const tokenFromCookie = request.cookies.get("csrf-token")?.value;
+/**
+ * The signed-in session's binding, read from the access token cookie or,
+ * once that has expired, the refresh token cookie.
+ */
+export async function resolveSessionCsrfBinding(
+  request: NextRequest
+): Promise<string | null> {
+  const jwtService = new JwtServiceImpl();
 
-      if (!tokenFromHeader || !tokenFromCookie) {
-        throw new AuthenticationError("CSRF token missing");
-      }
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  let session: { sessionId: string; familyId?: string } | null = accessToken
+    ? await jwtService.verifyAccessToken(accessToken)
+    : null;
+  if (!session && refreshToken) {
+    session = await jwtService.verifyRefreshToken(refreshToken);
+  }
+
+  return session ? sessionCsrfBinding(session) : null;
+}
 
-      const headerBuffer = Buffer.from(tokenFromHeader, "utf8");
-      const cookieBuffer = Buffer.from(tokenFromCookie, "utf8");
+/**
+ * Every binding a CSRF token from this browser could have been issued for:
+ * the signed-in session and the pre-auth nonce.
+ */
+export async function resolveCsrfBindings(
+  request: NextRequest
+): Promise<string[]> {
+  const bindings: string[] = [];
 
-      if (
-        headerBuffer.length !== cookieBuffer.length ||
-        !timingSafeEqual(headerBuffer, cookieBuffer)
-      ) {
-        throw new AuthenticationError("CSRF token invalid");
+  const session = await resolveSessionCsrfBinding(request);
+  if (session) {
+    bindings.push(session);
+  }
+
+  const nonce = request.cookies.get(CSRF_NONCE_COOKIE)?.value;
+  if (nonce) {
+    bindings.push(nonceCsrfBinding(nonce));
+  }
+
+  return bindings;
+}
+
+/**
+ * Checks the `x-csrf-token` header is a signed, unexpired token issued by
+ * `/api/auth/csrf-token` for one of the given bindings.
+ */
+export function assertValidCsrfToken(
+  request: NextRequest,
+  bindings: string[]
+): void {
+  const token = request.headers.get("x-csrf-token");
+
+  if (!token) {
+    throw new AuthenticationError("CSRF token missing");
+  }
+
+  if (!bindings.some((binding) => verifyCsrfToken(token, binding))) {
+    throw new AuthenticationError("CSRF token invalid or expired");
+  }
+}
+
+export function withCsrf(handler: RouteHandler): RouteHandler {
+  return async (request: NextRequest): Promise<Response> => {
+    const context = buildRequestContext(request);
+
+    try {
+      if (isStateChangingRequest(request)) {
+        assertValidCsrfToken(request, await resolveCsrfBindings(request));
       }
 
       return handler(request);
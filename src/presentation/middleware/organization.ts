@@ -0,0 +1,83 @@
+import { type NextRequest } from "next/server";
+import { OrganizationMembershipRepositoryImpl } from "@/infrastructure/database/organization-membership.repository.impl";
+import { AuthorizationError } from "@/domain/errors/authorization.error";
+import { errorResponse } from "@/presentation/helpers/response";
+import { buildRequestContext } from "@/presentation/helpers/request-context";
+import {
+  withAuth,
+  type AuthContext,
+  type WithAuthOptions,
+} from "@/presentation/middleware/auth";
+import {
+  OrganizationMethods,
+  type OrganizationRole,
+} from "@/domain/entities/organization.entity";
+import type { OrganizationMembershipEntity } from "@/domain/entities/organization-membership.entity";
+
+export interface OrganizationAuthContext<
+  P extends { orgId: string } = { orgId: string },
+> extends AuthContext<P> {
+  /**
+   * The caller's membership in the organization named by the route's
+   * `orgId` segment.
+   */
+  membership: OrganizationMembershipEntity;
+}
+
+type OrganizationRouteHandler<P extends { orgId: string }> = (
+  request: NextRequest,
+  context: OrganizationAuthContext<P>
+) => Promise<Response>;
+
+/**
+ * `withAuth` for routes under `[orgId]`: the caller must be a member of that
+ * organization with at least `requiredRole`. Checked against the memberships
+ * collection on every request, not the token's `org_id` claim, so it does
+ * not matter which organization is active.
+ */
+export function withOrgMembership(
+  requiredRole: OrganizationRole = "member",
+  options: WithAuthOptions = {}
+) {
+  return function <P extends { orgId: string } = { orgId: string }>(
+    handler: OrganizationRouteHandler<P>
+  ) {
+    const authenticate = withAuth("user", options);
+
+    return authenticate<P>(
+      async (
+        request: NextRequest,
+        authContext: AuthContext<P>
+      ): Promise<Response> => {
+        const context = buildRequestContext(request);
+
+        try {
+          const { orgId } = await authContext.params!;
+
+          const membership =
+            await new OrganizationMembershipRepositoryImpl().find(
+              orgId,
+              authContext.userId
+            );
+
+          if (!membership) {
+            throw new AuthorizationError("Not a member of this organization");
+          }
+
+          if (!OrganizationMethods.hasRole(membership.role, requiredRole)) {
+            throw new AuthorizationError(
+              `Insufficient organization role. Required: ${requiredRole}`
+            );
+          }
+
+          return handler(request, { ...authContext, membership });
+        } catch (error) {
+          if (error instanceof AuthorizationError) {
+            return errorResponse(error, context.requestId);
+          }
+          throw error;
+        }
+      }
+    );
+  };
+}
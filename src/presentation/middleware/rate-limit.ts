@@ -5,7 +5,10 @@ import { RateLimitError } from "@/domain/errors/rate-limit.error";
 import { errorResponse } from "@/presentation/helpers/response";
 import { buildRequestContext } from "@/presentation/helpers/request-context";
 
-type RouteHandler = (request: NextRequest) => Promise<Response>;
+type RouteHandler<C> = (
+  request: NextRequest,
+  routeContext: C
+) => Promise<Response>;
 
 function getClientIp(request: NextRequest): string {
   return (
@@ -16,7 +19,7 @@ function getClientIp(request: NextRequest): string {
 }
 
 export function withRateLimit(maxRequests: number, windowSeconds: number) {
-  return function (handler: RouteHandler): RouteHandler {
+  return function <C>(handler: RouteHandler<C>): RouteHandler<C> {
     const redis = getRedisClient();
 
     if (!redis) {
@@ -31,7 +34,7 @@ export function withRateLimit(maxRequests: number, windowSeconds: number) {
       analytics: true,
     });
 
-    return async (request: NextRequest): Promise<Response> => {
+    return async (request: NextRequest, routeContext: C): Promise<Response> => {
       const context = buildRequestContext(request);
       const clientIp = getClientIp(request);
 
@@ -44,7 +47,7 @@ export function withRateLimit(maxRequests: number, windowSeconds: number) {
           throw new RateLimitError(retryAfter);
         }
 
-        const response = await handler(request);
+        const response = await handler(request, routeContext);
 
         response.headers.set("X-RateLimit-Limit", limit.toString());
         response.headers.set("X-RateLimit-Remaining", remaining.toString());
@@ -19,8 +19,96 @@ export const VerifyOtpSchema = z.object({
   email: z.string().email("Invalid email format").max(254).trim().toLowerCase(),
   otp: z
     .string()
-    .length(8, "OTP must be exactly 8 digits")
-    .regex(/^\d{8}$/, "OTP must contain only digits"),
+    .trim()
+    .regex(
+      /^(\d{6}|\d{8}|[a-z0-9]{5}-?[a-z0-9]{5})$/i,
+      "OTP must be a 6-digit authenticator code, an 8-digit emailed code or a recovery code"
+    ),
+});
+
+export const TotpCodeSchema = z.object({
+  code: z
+    .string()
+    .length(6, "Code must be exactly 6 digits")
+    .regex(/^\d{6}$/, "Code must contain only digits"),
+});
+
+const PublicKeyCredentialSchema = z
+  .object({
+    id: z.string().min(1).max(1024),
+    rawId: z.string().min(1).max(1024),
+    type: z.literal("public-key"),
+    clientExtensionResults: z.record(z.unknown()).default({}),
+    authenticatorAttachment: z.enum(["platform", "cross-platform"]).optional(),
+  })
+  .passthrough();
+
+export const PasskeyRegistrationSchema = z.object({
+  response: PublicKeyCredentialSchema.extend({
+    response: z
+      .object({
+        clientDataJSON: z.string().min(1),
+        attestationObject: z.string().min(1),
+        transports: z.array(z.string()).optional(),
+      })
+      .passthrough(),
+  }),
+  name: z.string().trim().min(1).max(64).optional(),
+});
+
+export const PasskeyAuthenticationSchema = z.object({
+  challengeId: z.string().regex(/^[a-f0-9]{32}$/, "Invalid challenge"),
+  response: PublicKeyCredentialSchema.extend({
+    response: z
+      .object({
+        clientDataJSON: z.string().min(1),
+        authenticatorData: z.string().min(1),
+        signature: z.string().min(1),
+        userHandle: z.string().optional(),
+      })
+      .passthrough(),
+  }),
+  rememberMe: z.boolean().optional().default(false),
+});
+
+const OtpCodeSchema = z
+  .string()
+  .length(6, "Code must be exactly 6 digits")
+  .regex(/^\d{6}$/, "Code must contain only digits");
+
+export const ReauthenticationChallengeSchema = z.object({
+  method: z.enum(["passkey", "email"]),
+});
+
+export const ReauthenticateSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("password").optional(),
+    password: z.string().min(1, "Password is required").max(128),
+    totpCode: OtpCodeSchema.optional(),
+    emailCode: OtpCodeSchema.optional(),
+  }),
+  z.object({
+    method: z.literal("passkey"),
+    response: PasskeyAuthenticationSchema.shape.response,
+  }),
+  z.object({
+    method: z.literal("email"),
+    emailCode: OtpCodeSchema,
+  }),
+]);
+
+export const RenamePasskeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+});
+
+export const CreatePersonalAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+  scopes: z
+    .array(z.string().regex(/^[a-z0-9_.:-]{1,64}$/i, "Invalid scope"))
+    .max(50)
+    .optional()
+    .default([]),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
 });
 
 export const VerifyEmailSchema = z.object({
@@ -45,6 +133,247 @@ export const ResetPasswordSchema = z.object({
     .max(128, "Password must not exceed 128 characters"),
 });
 
+export const MagicLinkRequestSchema = z.object({
+  email: z.string().email("Invalid email format").max(254).trim().toLowerCase(),
+  rememberMe: z.boolean().optional().default(false),
+});
+
+export const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const MagicLinkConsumeSchema = z.object({
+  token: z
+    .string()
+    .length(64, "Sign-in token must be 64 characters")
+    .regex(/^[a-f0-9]{64}$/, "Invalid sign-in token format"),
+});
+
+export const CreateOAuthClientSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    redirectUris: z
+      .array(z.string().url("Redirect URIs must be absolute URLs"))
+      .max(10)
+      .optional()
+      .default([]),
+    allowedScopes: z
+      .array(z.string().regex(/^[a-z0-9_.:-]{1,64}$/i, "Invalid scope"))
+      .min(1, "At least one scope is required")
+      .max(50),
+    grantTypes: z
+      .array(
+        z.enum([
+          "authorization_code",
+          "refresh_token",
+          "device_code",
+          "client_credentials",
+        ])
+      )
+      .min(1)
+      .optional()
+      .default(["authorization_code", "refresh_token"]),
+    confidential: z.boolean().optional().default(true),
+  })
+  .superRefine((client, ctx) => {
+    if (
+      client.grantTypes.includes("authorization_code") &&
+      client.redirectUris.length === 0
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["redirectUris"],
+        message: "authorization_code clients need at least one redirect URI",
+      });
+    }
+
+    if (
+      (client.grantTypes.includes("authorization_code") ||
+        client.grantTypes.includes("device_code")) &&
+      !client.allowedScopes.includes("openid")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["allowedScopes"],
+        message: "openid is required for user-facing grants",
+      });
+    }
+
+    if (
+      client.grantTypes.includes("device_code") &&
+      !client.grantTypes.includes("refresh_token")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["grantTypes"],
+        message: "device_code clients need refresh_token to stay signed in",
+      });
+    }
+
+    if (
+      client.grantTypes.includes("client_credentials") &&
+      !client.confidential
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["confidential"],
+        message: "client_credentials requires a confidential client",
+      });
+    }
+  });
+
+export const OAuthTokenRequestSchema = z.discriminatedUnion("grant_type", [
+  z.object({
+    grant_type: z.literal("authorization_code"),
+    code: z.string().min(1, "code is required"),
+    redirect_uri: z.string().min(1, "redirect_uri is required"),
+    code_verifier: z
+      .string()
+      .regex(/^[A-Za-z0-9\-._~]{43,128}$/, "Invalid code_verifier"),
+  }),
+  z.object({
+    grant_type: z.literal("refresh_token"),
+    refresh_token: z.string().min(1, "refresh_token is required"),
+  }),
+  z.object({
+    grant_type: z.literal("client_credentials"),
+    scope: z.string().max(1000).optional(),
+  }),
+  z.object({
+    grant_type: z.literal("urn:ietf:params:oauth:grant-type:device_code"),
+    device_code: z.string().min(1, "device_code is required"),
+  }),
+]);
+
+export const DeviceAuthorizationRequestSchema = z.object({
+  scope: z.string().max(200).optional(),
+});
+
+export const ConfirmDeviceAuthorizationSchema = z.object({
+  userCode: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{4}-?[A-Za-z]{4}$/, "Invalid code format"),
+  approve: z.boolean(),
+});
+
+export const OAuthRevocationRequestSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  token_type_hint: z.string().optional(),
+});
+
+export const OAuthIntrospectionRequestSchema = z.object({
+  token: z.string().min(1, "token is required"),
+  token_type_hint: z.string().optional(),
+});
+
+export const AdminUserSearchSchema = z.object({
+  email: z.string().trim().toLowerCase().max(254).optional(),
+  role: z.enum(["admin", "user"]).optional(),
+  tier: z.enum(["free", "pro"]).optional(),
+  verified: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const roleName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^[a-z][a-z0-9_-]{1,49}$/,
+    "Role names are 2-50 lowercase letters, digits, hyphens or underscores"
+  );
+
+const permission = z
+  .string()
+  .trim()
+  .regex(
+    /^(\*|[a-z][a-z0-9_-]*:(\*|[a-z][a-z0-9_-]*))$/,
+    "Permissions take the form resource:action"
+  );
+
+export const CreateRoleSchema = z.object({
+  name: roleName,
+  description: z.string().trim().max(200).optional(),
+  permissions: z
+    .array(permission)
+    .min(1, "At least one permission is required")
+    .max(100),
+});
+
+export const UpdateRoleSchema = z.object({
+  description: z.string().trim().max(200).optional(),
+  permissions: z
+    .array(permission)
+    .min(1, "At least one permission is required")
+    .max(100)
+    .optional(),
+});
+
+export const SetUserRolesSchema = z.object({
+  roles: z.array(roleName).max(20),
+});
+
+export const UpdateUserRoleSchema = z.object({
+  role: z.enum(["admin", "user"]),
+});
+
+const statusReason = z
+  .string()
+  .min(1, "Reason is required")
+  .max(500, "Reason must not exceed 500 characters")
+  .trim();
+
+export const UpdateUserStatusSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("suspended"),
+    reason: statusReason,
+    until: z.coerce
+      .date()
+      .refine(
+        (date) => date > new Date(),
+        "Suspension end must be in the future"
+      )
+      .optional(),
+  }),
+  z.object({
+    status: z.literal("banned"),
+    reason: statusReason,
+  }),
+]);
+
+const organizationRole = z.enum(["member", "admin", "owner"]);
+
+export const CreateOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must not exceed 100 characters"),
+});
+
+export const InviteToOrganizationSchema = z.object({
+  email: z.string().email("Invalid email format").max(254).trim().toLowerCase(),
+  role: organizationRole.optional().default("member"),
+});
+
+export const AcceptOrganizationInvitationSchema = z.object({
+  token: z
+    .string()
+    .length(64, "Invitation token must be 64 characters")
+    .regex(/^[a-f0-9]{64}$/, "Invalid invitation token format"),
+});
+
+export const SwitchOrganizationSchema = z.object({
+  organizationId: z.string().min(1).nullable(),
+});
+
 export const ResendVerificationSchema = z.object({
   email: z.string().email("Invalid email format").max(254).trim().toLowerCase(),
 });